@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SchoolData } from '../src/lib/types';
+import { diffSchoolData, formatChangelog } from './lib/school-diff';
+
+// Compare two processed datasets and write a changelog:
+//
+//   pnpm run diff-data previous-schools.json src/data/schools.json --merit-threshold=15
+//
+// Prints a human-readable summary and writes the full JSON changelog
+// (default: schools-changelog.json next to the new dataset).
+
+interface DiffOptions {
+  previousPath: string;
+  currentPath: string;
+  outPath: string;
+  meritThreshold: number;
+}
+
+function parseArgs(argv: string[]): DiffOptions {
+  const positional: string[] = [];
+  let outPath: string | null = null;
+  let meritThreshold = 10;
+
+  for (const arg of argv) {
+    if (arg.startsWith('--merit-threshold=')) {
+      meritThreshold = parseFloat(arg.split('=')[1]);
+      if (isNaN(meritThreshold)) throw new Error(`Invalid ${arg}`);
+    } else if (arg.startsWith('--out=')) {
+      outPath = path.resolve(arg.split('=')[1]);
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown argument: ${arg}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  if (positional.length !== 2) {
+    throw new Error('Usage: diff-schools <previous schools.json> <new schools.json> [--merit-threshold=N] [--out=file.json]');
+  }
+
+  const [previousPath, currentPath] = positional.map(p => path.resolve(p));
+  return {
+    previousPath,
+    currentPath,
+    outPath: outPath || path.join(path.dirname(currentPath), 'schools-changelog.json'),
+    meritThreshold,
+  };
+}
+
+function readSchoolData(filePath: string): SchoolData {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  const previous = readSchoolData(options.previousPath);
+  const current = readSchoolData(options.currentPath);
+
+  const changelog = diffSchoolData(previous, current, options.meritThreshold);
+
+  console.log(formatChangelog(changelog));
+
+  fs.writeFileSync(options.outPath, JSON.stringify(changelog, null, 2));
+  console.log(`\nSaved JSON changelog to ${options.outPath}`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MUNICIPALITIES } from '../src/lib/municipalities';
+import type { MunicipalityBoundaries } from '../src/lib/municipality-stats';
+
+// Downloads municipality boundaries once and stores a simplified copy in
+// public/, so the choropleth layer works without any external requests.
+// Any GeoJSON with one feature per kommun works; override the source with
+// MUNICIPALITY_GEOJSON_URL, which may also be a path to a downloaded file.
+const SOURCE_URL = process.env.MUNICIPALITY_GEOJSON_URL
+  || 'https://raw.githubusercontent.com/okfse/sweden-geojson/master/swedish_municipalities.geojson';
+const OUTPUT_PATH = path.join(__dirname, '../public/municipalities.geo.json');
+
+// Degrees; about 100 m north-south, plenty for a country-wide choropleth
+const SIMPLIFY_TOLERANCE = 0.001;
+const COORDINATE_DECIMALS = 4;
+
+type Position = number[];
+type Geometry = GeoJSON.Polygon | GeoJSON.MultiPolygon;
+
+const MUNICIPALITY_BY_NAME = new Map(MUNICIPALITIES.map(m => [m.name.toLowerCase(), m]));
+const MUNICIPALITY_CODES = new Set(MUNICIPALITIES.map(m => m.code));
+
+// Sources differ in property names, so look for a known kommun code first and
+// fall back to matching the name
+function resolveCode(properties: Record<string, unknown>): string | null {
+  for (const value of Object.values(properties)) {
+    if (typeof value !== 'string' && typeof value !== 'number') continue;
+    const code = String(value).padStart(4, '0');
+    if (/^\d{4}$/.test(code) && MUNICIPALITY_CODES.has(code)) return code;
+  }
+  for (const value of Object.values(properties)) {
+    if (typeof value !== 'string') continue;
+    const name = value.replace(/ kommun$/i, '').trim().toLowerCase();
+    const municipality = MUNICIPALITY_BY_NAME.get(name);
+    if (municipality) return municipality.code;
+  }
+  return null;
+}
+
+function perpendicularDistance(point: Position, start: Position, end: Position): number {
+  const dx = end[0] - start[0];
+  const dy = end[1] - start[1];
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return Math.hypot(point[0] - start[0], point[1] - start[1]);
+  return Math.abs(dy * point[0] - dx * point[1] + end[0] * start[1] - end[1] * start[0]) / length;
+}
+
+// Douglas-Peucker line simplification
+function simplifyLine(points: Position[]): Position[] {
+  if (points.length <= 2) return points;
+
+  let maxDistance = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = perpendicularDistance(points[i], points[0], points[points.length - 1]);
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      index = i;
+    }
+  }
+
+  if (maxDistance <= SIMPLIFY_TOLERANCE) return [points[0], points[points.length - 1]];
+  return [...simplifyLine(points.slice(0, index + 1)).slice(0, -1), ...simplifyLine(points.slice(index))];
+}
+
+const factor = 10 ** COORDINATE_DECIMALS;
+const round = (value: number) => Math.round(value * factor) / factor;
+
+// Simplified, rounded ring; null when too little is left to form a polygon
+function simplifyRing(ring: Position[]): Position[] | null {
+  const simplified = simplifyLine(ring).map(([lng, lat]) => [round(lng), round(lat)]);
+  const deduplicated = simplified.filter((p, i) => i === 0 || p[0] !== simplified[i - 1][0] || p[1] !== simplified[i - 1][1]);
+  return deduplicated.length >= 4 ? deduplicated : null;
+}
+
+function simplifyPolygon(rings: Position[][]): Position[][] | null {
+  const [outer, ...holes] = rings;
+  const simplifiedOuter = simplifyRing(outer);
+  if (!simplifiedOuter) return null;
+  return [simplifiedOuter, ...holes.map(simplifyRing).filter((r): r is Position[] => r !== null)];
+}
+
+function simplifyGeometry(geometry: Geometry): Geometry | null {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const simplified = polygons.map(simplifyPolygon).filter((p): p is Position[][] => p !== null);
+  if (simplified.length === 0) return null;
+  return simplified.length === 1
+    ? { type: 'Polygon', coordinates: simplified[0] }
+    : { type: 'MultiPolygon', coordinates: simplified };
+}
+
+async function readSource(): Promise<GeoJSON.FeatureCollection> {
+  if (!/^https?:\/\//.test(SOURCE_URL)) {
+    console.log(`Reading municipality boundaries from ${SOURCE_URL}...`);
+    return JSON.parse(fs.readFileSync(SOURCE_URL, 'utf-8'));
+  }
+  console.log(`Downloading municipality boundaries from ${SOURCE_URL}...`);
+  const response = await fetch(SOURCE_URL);
+  if (!response.ok) {
+    throw new Error(`Download failed: HTTP ${response.status}`);
+  }
+  return response.json();
+}
+
+async function main() {
+  const source = await readSource();
+
+  const output: MunicipalityBoundaries = { type: 'FeatureCollection', features: [] };
+  const unresolved: string[] = [];
+
+  for (const feature of source.features) {
+    const { geometry } = feature;
+    if (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon') continue;
+
+    const code = resolveCode(feature.properties ?? {});
+    if (!code) {
+      unresolved.push(JSON.stringify(feature.properties));
+      continue;
+    }
+
+    const simplified = simplifyGeometry(geometry);
+    if (!simplified) continue;
+
+    output.features.push({
+      type: 'Feature',
+      properties: { code, name: MUNICIPALITIES.find(m => m.code === code)!.name },
+      geometry: simplified,
+    });
+  }
+
+  output.features.sort((a, b) => a.properties.code.localeCompare(b.properties.code));
+
+  const missing = MUNICIPALITIES.filter(m => !output.features.some(f => f.properties.code === m.code));
+  console.log(`Matched ${output.features.length} of ${MUNICIPALITIES.length} municipalities`);
+  if (missing.length > 0) {
+    console.log(`  Missing: ${missing.map(m => `${m.name} (${m.code})`).join(', ')}`);
+  }
+  if (unresolved.length > 0) {
+    console.log(`  Could not match ${unresolved.length} features, e.g. ${unresolved[0]}`);
+  }
+  // Keep whatever is there rather than replacing it with nothing
+  if (output.features.length === 0) {
+    throw new Error('No municipality in the source could be matched, not writing the output');
+  }
+
+  fs.writeFileSync(OUTPUT_PATH, JSON.stringify(output));
+  const sizeKb = Math.round(fs.statSync(OUTPUT_PATH).size / 1024);
+  console.log(`Saved ${OUTPUT_PATH} (${sizeKb} KB)`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
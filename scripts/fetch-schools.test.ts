@@ -0,0 +1,118 @@
+// @vitest-environment node
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  fetchAllSchoolUnits,
+  fetchGymnasiumStatistics,
+  fetchSchoolDetails,
+  main as fetchData,
+} from './fetch-schools';
+import { main as processData } from './process-raw-data';
+import { MockServer, MockServerOptions, startMockSkolverketServer } from './mock-skolverket-server';
+import type { SchoolData } from '../src/lib/types';
+
+let server: MockServer | null = null;
+
+async function startServer(options: MockServerOptions = {}): Promise<MockServer> {
+  server = await startMockSkolverketServer(options);
+  return server;
+}
+
+function countRequests(mock: MockServer, prefix: string): number {
+  return mock.requests.filter(request => request.startsWith(prefix)).length;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+  vi.restoreAllMocks();
+});
+
+describe('fetchAllSchoolUnits', () => {
+  it('follows the pagination until the last page', async () => {
+    const mock = await startServer({ pageSize: 2 });
+
+    const units = await fetchAllSchoolUnits(mock.apiBase);
+
+    expect(units.map(u => u.schoolUnitCode)).toEqual([
+      '10000001', '10000002', '10000003', '10000004', '10000005', '10000006',
+    ]);
+    expect(countRequests(mock, '/planned-educations/v3/compact-school-units')).toBe(3);
+  });
+
+  it('waits and retries when rate limited', async () => {
+    const mock = await startServer({ scenario: 'rate-limit' });
+
+    const units = await fetchAllSchoolUnits(mock.apiBase);
+
+    expect(units).toHaveLength(6);
+    expect(countRequests(mock, '/planned-educations/v3/compact-school-units')).toBe(2);
+  }, 10_000);
+});
+
+describe('school resources', () => {
+  it('retries after a server error', async () => {
+    const mock = await startServer({ scenario: 'flaky' });
+
+    const details = await fetchSchoolDetails('10000001', mock.apiBase);
+
+    expect(details).not.toBeNull();
+    expect(countRequests(mock, '/planned-educations/v3/school-units/10000001')).toBe(2);
+  }, 10_000);
+
+  it('returns null for a 404 without retrying', async () => {
+    const mock = await startServer();
+
+    const statistics = await fetchGymnasiumStatistics('10000001', mock.apiBase);
+
+    expect(statistics).toBeNull();
+    expect(countRequests(mock, '/planned-educations/v3/school-units/10000001/statistics/gy')).toBe(1);
+  });
+});
+
+describe('fetch and process', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'school-data-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('writes schools.json from the mock API', async () => {
+    const mock = await startServer({ pageSize: 4 });
+
+    await fetchData({ restart: false, refreshOlderThanMs: null, apiBase: mock.apiBase, dataDir });
+    await processData({ maxCoverageDrop: 0.1, allowCoverageDrop: false, dataDir });
+
+    const output: SchoolData = JSON.parse(fs.readFileSync(path.join(dataDir, 'schools.json'), 'utf-8'));
+    // Abroad schools and schools without coordinates are left out
+    expect(output.schools.map(s => s.id).sort()).toEqual(['10000001', '10000002', '10000003', '10000004']);
+    expect(output.metadata.totalSchools).toBe(4);
+
+    const journal = fs.readFileSync(path.join(dataDir, 'raw/fetch-journal.jsonl'), 'utf-8').trim().split('\n');
+    expect(journal).toHaveLength(4);
+  });
+
+  it('only fetches the schools missing from the journal when resuming', async () => {
+    const mock = await startServer();
+    const options = { restart: false, refreshOlderThanMs: null, apiBase: mock.apiBase, dataDir };
+
+    await fetchData(options);
+    const firstRun = mock.requests.length;
+    await fetchData(options);
+
+    // Only the compact list is fetched again
+    expect(mock.requests.slice(firstRun)).toEqual([
+      '/planned-educations/v3/compact-school-units?coordinateSystemType=WGS84&page=0&size=100',
+    ]);
+  });
+});
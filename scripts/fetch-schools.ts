@@ -1,17 +1,18 @@
 import * as fs from 'fs';
 import * as path from 'path';
-
-const API_BASE = 'https://api.skolverket.se/planned-educations/v3';
+import {
+  CompactSchoolUnit,
+  GrundskoleStatisticsBody,
+  GymnasiumStatisticsBody,
+  RawSchoolData,
+  SchoolDetailBody,
+} from './lib/raw-schema';
+
+// Override with SKOLVERKET_API_BASE to point at a local stand-in (see scripts/mock-skolverket-server.ts)
+const API_BASE = process.env.SKOLVERKET_API_BASE || 'https://api.skolverket.se/planned-educations/v3';
+const DATA_DIR = process.env.SCHOOL_DATA_DIR || path.join(__dirname, '../src/data');
 const ACCEPT_HEADER = 'application/vnd.skolverket.plannededucations.api.v3.hal+json';
 
-interface CompactSchoolUnit {
-  schoolUnitCode: string;
-  schoolUnitName: string;
-  wgs84Latitude: string;
-  wgs84Longitude: string;
-  abroadSchool: boolean;
-}
-
 interface ApiResponse {
   status: string;
   body: {
@@ -24,67 +25,79 @@ interface ApiResponse {
   };
 }
 
-interface StatValue {
-  value: string;
-  valueType: string;
-  timePeriod: string;
+// One line in the append-only fetch journal
+interface JournalEntry extends RawSchoolData {
+  fetchedAt: string;
 }
 
-interface GrundskoleStatisticsBody {
-  averageGradesMeritRating9thGrade?: StatValue[];
-  ratioOfPupilsIn9thGradeWithAllSubjectsPassed?: StatValue[];
-  ratioOfPupilsIn6thGradeWithAllSubjectsPassed?: StatValue[];
-  averageResultNationalTestsSubjectSVE6thGrade?: StatValue[];
-  averageResultNationalTestsSubjectENG6thGrade?: StatValue[];
-  averageResultNationalTestsSubjectMA6thGrade?: StatValue[];
-  studentsPerTeacherQuota?: StatValue[];
-  certifiedTeachersQuota?: StatValue[];
-  totalNumberOfPupils?: StatValue[];
-  [key: string]: unknown;
+export interface FetchOptions {
+  restart: boolean;
+  refreshOlderThanMs: number | null;
+  apiBase: string;
+  dataDir: string;
 }
 
-interface GymnasiumProgramMetric {
-  programCode: string;
-  ratioOfStudentsEligibleForUndergraduateEducation?: StatValue[];
-  gradesPointsForStudents?: StatValue[];
-  gradesPointsForStudentsWithExam?: StatValue[];
-  ratioOfPupilsWithExamWithin3Years?: StatValue[];
-  admissionPointsMin?: StatValue[];
-  admissionPointsAverage?: StatValue[];
-  totalNumberOfPupils?: StatValue[];
-  [key: string]: unknown;
+const JOURNAL_FILE = 'fetch-journal.jsonl';
+
+// Parse durations like "30d", "12h" or a bare number of days
+function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([dh]?)$/);
+  if (!match) {
+    throw new Error(`Invalid duration "${value}" (expected e.g. 30d or 12h)`);
+  }
+  const amount = parseFloat(match[1]);
+  const hours = match[2] === 'h' ? amount : amount * 24;
+  return hours * 60 * 60 * 1000;
 }
 
-interface GymnasiumStatisticsBody {
-  programMetrics?: GymnasiumProgramMetric[];
-  studentsPerTeacherQuota?: StatValue[];
-  certifiedTeachersQuota?: StatValue[];
-  totalNumberOfPupils?: StatValue[];
-  [key: string]: unknown;
+function parseArgs(argv: string[]): FetchOptions {
+  const options: FetchOptions = { restart: false, refreshOlderThanMs: null, apiBase: API_BASE, dataDir: DATA_DIR };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--restart') {
+      options.restart = true;
+    } else if (arg.startsWith('--refresh-older-than')) {
+      const value = arg.includes('=') ? arg.split('=')[1] : argv[++i];
+      if (!value) throw new Error('--refresh-older-than requires a duration');
+      options.refreshOlderThanMs = parseDuration(value);
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
 }
 
-interface SchoolDetailBody {
-  code: string;
-  name: string;
-  principalOrganizerType?: string;
-  contactInfo?: {
-    addresses?: Array<{
-      type: string;
-      street?: string;
-      zipCode?: string;
-      city?: string;
-    }>;
-  };
-  geographicalAreaCode?: string;
-  [key: string]: unknown;
+// Read the journal, keeping the latest entry per school unit.
+// A truncated last line (from a crash mid-write) is ignored.
+function readJournal(journalPath: string): Map<string, JournalEntry> {
+  const entries = new Map<string, JournalEntry>();
+  if (!fs.existsSync(journalPath)) return entries;
+
+  const lines = fs.readFileSync(journalPath, 'utf-8').split('\n');
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      const entry: JournalEntry = JSON.parse(line);
+      entries.set(entry.schoolUnitCode, entry);
+    } catch {
+      console.log('  Skipping unreadable journal line');
+    }
+  }
+
+  return entries;
 }
 
-interface RawSchoolData {
-  schoolUnitCode: string;
-  compactData: CompactSchoolUnit;
-  details: SchoolDetailBody | null;
-  statistics: GrundskoleStatisticsBody | null;
-  gymnasiumStatistics: GymnasiumStatisticsBody | null;
+function appendToJournal(journalPath: string, entries: JournalEntry[]) {
+  if (entries.length === 0) return;
+  fs.appendFileSync(journalPath, entries.map(e => JSON.stringify(e)).join('\n') + '\n');
+}
+
+function isStale(entry: JournalEntry, refreshOlderThanMs: number | null, now: number): boolean {
+  if (refreshOlderThanMs === null) return false;
+  const fetchedAt = Date.parse(entry.fetchedAt);
+  return isNaN(fetchedAt) || now - fetchedAt > refreshOlderThanMs;
 }
 
 async function fetchWithRetry(url: string, retries = 3): Promise<Response> {
@@ -104,6 +117,8 @@ async function fetchWithRetry(url: string, retries = 3): Promise<Response> {
       }
       throw new Error(`HTTP ${response.status}`);
     } catch (error) {
+      // A missing resource will not appear on retry
+      if (error instanceof Error && error.message === 'NOT_FOUND') throw error;
       if (i === retries - 1) throw error;
       await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1)));
     }
@@ -111,7 +126,7 @@ async function fetchWithRetry(url: string, retries = 3): Promise<Response> {
   throw new Error('Max retries exceeded');
 }
 
-async function fetchAllSchoolUnits(): Promise<CompactSchoolUnit[]> {
+export async function fetchAllSchoolUnits(apiBase = API_BASE): Promise<CompactSchoolUnit[]> {
   const schools: CompactSchoolUnit[] = [];
   let page = 0;
   let totalPages = 1;
@@ -119,7 +134,7 @@ async function fetchAllSchoolUnits(): Promise<CompactSchoolUnit[]> {
   console.log('Fetching school units...');
 
   while (page < totalPages) {
-    const url = `${API_BASE}/compact-school-units?coordinateSystemType=WGS84&page=${page}&size=100`;
+    const url = `${apiBase}/compact-school-units?coordinateSystemType=WGS84&page=${page}&size=100`;
     const response = await fetchWithRetry(url);
     const data: ApiResponse = await response.json();
 
@@ -142,37 +157,35 @@ async function fetchAllSchoolUnits(): Promise<CompactSchoolUnit[]> {
   return schools;
 }
 
-async function fetchSchoolDetails(schoolUnitCode: string): Promise<SchoolDetailBody | null> {
+// The body of a per-school resource, or null if the school doesn't have it (404).
+// Any other failure is thrown so the school isn't journaled as fetched.
+async function fetchSchoolResource<T>(url: string): Promise<T | null> {
   try {
-    const url = `${API_BASE}/school-units/${schoolUnitCode}`;
     const response = await fetchWithRetry(url);
     const data = await response.json();
     return data.body || null;
-  } catch {
-    return null;
+  } catch (error) {
+    if (error instanceof Error && error.message === 'NOT_FOUND') return null;
+    throw error;
   }
 }
 
-async function fetchGrundskoleStatistics(schoolUnitCode: string): Promise<GrundskoleStatisticsBody | null> {
-  try {
-    const url = `${API_BASE}/school-units/${schoolUnitCode}/statistics/gr`;
-    const response = await fetchWithRetry(url);
-    const data = await response.json();
-    return data.body || null;
-  } catch {
-    return null;
-  }
+export function fetchSchoolDetails(schoolUnitCode: string, apiBase = API_BASE): Promise<SchoolDetailBody | null> {
+  return fetchSchoolResource(`${apiBase}/school-units/${schoolUnitCode}`);
 }
 
-async function fetchGymnasiumStatistics(schoolUnitCode: string): Promise<GymnasiumStatisticsBody | null> {
-  try {
-    const url = `${API_BASE}/school-units/${schoolUnitCode}/statistics/gy`;
-    const response = await fetchWithRetry(url);
-    const data = await response.json();
-    return data.body || null;
-  } catch {
-    return null;
-  }
+export function fetchGrundskoleStatistics(
+  schoolUnitCode: string,
+  apiBase = API_BASE
+): Promise<GrundskoleStatisticsBody | null> {
+  return fetchSchoolResource(`${apiBase}/school-units/${schoolUnitCode}/statistics/gr`);
+}
+
+export function fetchGymnasiumStatistics(
+  schoolUnitCode: string,
+  apiBase = API_BASE
+): Promise<GymnasiumStatisticsBody | null> {
+  return fetchSchoolResource(`${apiBase}/school-units/${schoolUnitCode}/statistics/gy`);
 }
 
 function hasValidCoordinates(school: CompactSchoolUnit): boolean {
@@ -181,17 +194,18 @@ function hasValidCoordinates(school: CompactSchoolUnit): boolean {
   return !isNaN(lat) && !isNaN(lng) && lat !== 0 && lng !== 0 && !school.abroadSchool;
 }
 
-async function main() {
+export async function main(options: FetchOptions) {
   console.log('Starting school data fetch...\n');
+  console.log(`API: ${options.apiBase}`);
 
   // Create data directory for raw data
-  const rawDataDir = path.join(__dirname, '../src/data/raw');
+  const rawDataDir = path.join(options.dataDir, 'raw');
   if (!fs.existsSync(rawDataDir)) {
     fs.mkdirSync(rawDataDir, { recursive: true });
   }
 
   // Fetch all school units
-  const allSchools = await fetchAllSchoolUnits();
+  const allSchools = await fetchAllSchoolUnits(options.apiBase);
   console.log(`\nTotal schools fetched: ${allSchools.length}`);
 
   // Save raw compact data
@@ -204,25 +218,41 @@ async function main() {
   const schoolsWithCoords = allSchools.filter(hasValidCoordinates);
   console.log(`Schools with valid coordinates: ${schoolsWithCoords.length}`);
 
-  // Collect all raw data
-  const rawData: RawSchoolData[] = [];
+  // Load progress from previous (possibly interrupted) runs
+  const journalPath = path.join(rawDataDir, JOURNAL_FILE);
+  if (options.restart && fs.existsSync(journalPath)) {
+    fs.unlinkSync(journalPath);
+    console.log('Discarded existing fetch journal (--restart)');
+  }
+  const journal = readJournal(journalPath);
+
+  const now = Date.now();
+  const pending = schoolsWithCoords.filter(school => {
+    const entry = journal.get(school.schoolUnitCode);
+    return !entry || isStale(entry, options.refreshOlderThanMs, now);
+  });
+
+  const resumed = schoolsWithCoords.length - pending.length;
+  if (resumed > 0) {
+    console.log(`Resuming: ${resumed} schools already in journal, ${pending.length} left to fetch`);
+  }
+
   let processed = 0;
-  let withGrundskoleData = 0;
-  let withGymnasiumData = 0;
+  const failed: string[] = [];
 
   console.log('\nFetching details, grundskola stats, and gymnasium stats...');
   console.log('(This will take several minutes for ~6500 schools)\n');
 
   const batchSize = 10;
-  for (let i = 0; i < schoolsWithCoords.length; i += batchSize) {
-    const batch = schoolsWithCoords.slice(i, i + batchSize);
+  for (let i = 0; i < pending.length; i += batchSize) {
+    const batch = pending.slice(i, i + batchSize);
 
-    const results = await Promise.all(
-      batch.map(async (school) => {
+    const settled = await Promise.allSettled(
+      batch.map(async (school): Promise<JournalEntry> => {
         const [details, statistics, gymnasiumStatistics] = await Promise.all([
-          fetchSchoolDetails(school.schoolUnitCode),
-          fetchGrundskoleStatistics(school.schoolUnitCode),
-          fetchGymnasiumStatistics(school.schoolUnitCode),
+          fetchSchoolDetails(school.schoolUnitCode, options.apiBase),
+          fetchGrundskoleStatistics(school.schoolUnitCode, options.apiBase),
+          fetchGymnasiumStatistics(school.schoolUnitCode, options.apiBase),
         ]);
         return {
           schoolUnitCode: school.schoolUnitCode,
@@ -230,34 +260,78 @@ async function main() {
           details,
           statistics,
           gymnasiumStatistics,
+          fetchedAt: new Date().toISOString(),
         };
       })
     );
 
-    for (const raw of results) {
-      processed++;
-      rawData.push(raw);
-
-      // Count schools with data
-      if (raw.statistics && Object.keys(raw.statistics).length > 0) {
-        withGrundskoleData++;
-      }
-      if (raw.gymnasiumStatistics && raw.gymnasiumStatistics.programMetrics && raw.gymnasiumStatistics.programMetrics.length > 0) {
-        withGymnasiumData++;
+    // Schools that failed stay out of the journal, so the next run retries them
+    const results: JournalEntry[] = [];
+    settled.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        results.push(result.value);
+      } else {
+        const code = batch[index].schoolUnitCode;
+        console.log(`  Failed to fetch ${code}: ${result.reason instanceof Error ? result.reason.message : result.reason}`);
+        failed.push(code);
       }
+    });
+
+    // Persist the batch before moving on so a crash loses at most one batch
+    appendToJournal(journalPath, results);
+    for (const entry of results) {
+      journal.set(entry.schoolUnitCode, entry);
     }
+    processed += batch.length;
 
-    if (processed % 500 === 0 || processed === schoolsWithCoords.length) {
-      console.log(`  Processed ${processed}/${schoolsWithCoords.length} - GR: ${withGrundskoleData}, GY: ${withGymnasiumData}`);
+    if (processed % 500 === 0 || processed === pending.length) {
+      console.log(`  Processed ${processed}/${pending.length}`);
     }
 
     await new Promise(resolve => setTimeout(resolve, 100));
   }
 
+  // Don't write a dataset with schools missing; what was fetched is kept in the journal
+  if (failed.length > 0) {
+    throw new Error(`${failed.length} schools could not be fetched. Run again to retry them.`);
+  }
+
+  // Assemble the full dataset from the journal, using the fresh compact data
+  const rawData: RawSchoolData[] = [];
+  let withGrundskoleData = 0;
+  let withGymnasiumData = 0;
+
+  for (const school of schoolsWithCoords) {
+    const entry = journal.get(school.schoolUnitCode);
+    if (!entry) continue;
+    const raw: RawSchoolData = {
+      schoolUnitCode: entry.schoolUnitCode,
+      compactData: school,
+      details: entry.details,
+      statistics: entry.statistics,
+      gymnasiumStatistics: entry.gymnasiumStatistics,
+    };
+    rawData.push(raw);
+
+    // Count schools with data
+    if (raw.statistics && Object.keys(raw.statistics).length > 0) {
+      withGrundskoleData++;
+    }
+    if (raw.gymnasiumStatistics && raw.gymnasiumStatistics.programMetrics && raw.gymnasiumStatistics.programMetrics.length > 0) {
+      withGymnasiumData++;
+    }
+  }
+
   console.log(`\nFetch complete!`);
   console.log(`  Schools with grundskola stats: ${withGrundskoleData}`);
   console.log(`  Schools with gymnasium stats: ${withGymnasiumData}`);
 
+  // Compact the journal so it only holds schools that are still listed
+  const compacted = schoolsWithCoords
+    .map(school => journal.get(school.schoolUnitCode))
+    .filter((entry): entry is JournalEntry => entry !== undefined);
+  fs.writeFileSync(journalPath, compacted.map(e => JSON.stringify(e)).join('\n') + '\n');
+
   // Save all raw data for offline processing
   fs.writeFileSync(
     path.join(rawDataDir, 'all-school-data.json'),
@@ -269,6 +343,7 @@ async function main() {
   const metadata = {
     fetchedAt: new Date().toISOString(),
     totalSchools: rawData.length,
+    fetchedThisRun: pending.length,
     withGrundskoleStats: withGrundskoleData,
     withGymnasiumStats: withGymnasiumData,
   };
@@ -281,4 +356,9 @@ async function main() {
   console.log(`\nRun "pnpm run process-data" to process the raw data into schools.json`);
 }
 
-main().catch(console.error);
+if (require.main === module) {
+  main(parseArgs(process.argv.slice(2))).catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,164 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import {
+  RawSchoolData,
+  StatValue,
+  createDataQualityResponses,
+  parseSwedishNumber,
+  validateRawSchoolData,
+} from './raw-schema';
+
+function stat(value: string, timePeriod = '2024', valueType = 'EXISTS'): StatValue {
+  return { value, valueType, timePeriod };
+}
+
+function createRaw(overrides: Partial<RawSchoolData> = {}): RawSchoolData {
+  const schoolUnitCode = overrides.schoolUnitCode ?? '10000001';
+  return {
+    schoolUnitCode,
+    compactData: {
+      schoolUnitCode,
+      schoolUnitName: 'Vasaskolan',
+      wgs84Latitude: '59.33',
+      wgs84Longitude: '18.06',
+      abroadSchool: false,
+    },
+    details: null,
+    statistics: null,
+    ...overrides,
+  };
+}
+
+function validate(...records: RawSchoolData[]) {
+  const responses = createDataQualityResponses();
+  for (const raw of records) validateRawSchoolData(raw, responses);
+  return responses;
+}
+
+describe('parseSwedishNumber', () => {
+  it('reads a decimal comma', () => {
+    expect(parseSwedishNumber('217,6')).toBe(217.6);
+    expect(parseSwedishNumber('12')).toBe(12);
+  });
+
+  it('treats the placeholders as missing', () => {
+    expect(parseSwedishNumber('.')).toBeNull();
+    expect(parseSwedishNumber('-')).toBeNull();
+    expect(parseSwedishNumber('')).toBeNull();
+    expect(parseSwedishNumber('~100')).toBeNull();
+  });
+});
+
+describe('validateRawSchoolData', () => {
+  it('finds nothing in a well-formed record', () => {
+    const quality = validate(createRaw()).compactSchoolUnit;
+    expect(quality).toEqual({
+      validated: 1,
+      unknownFields: {},
+      missingFields: {},
+      typeMismatches: {},
+      unparseableValues: {},
+      nonExistsValueTypes: {},
+    });
+  });
+
+  it('only validates the responses that were captured', () => {
+    const responses = validate(createRaw());
+    expect(responses.schoolDetail.validated).toBe(0);
+    expect(responses.grundskoleStatistics.validated).toBe(0);
+  });
+
+  it('records unknown fields but not the HAL metadata', () => {
+    const raw = createRaw();
+    Object.assign(raw.compactData, { schoolUnitNameShort: 'Vasa', _links: {} });
+
+    expect(validate(raw).compactSchoolUnit.unknownFields).toEqual({
+      schoolUnitNameShort: { count: 1, examples: ['10000001'] },
+    });
+  });
+
+  it('records missing and null fields', () => {
+    const raw = createRaw({
+      details: { code: '10000001', name: 'Vasaskolan', principalOrganizerType: null as unknown as string },
+    });
+
+    const { missingFields } = validate(raw).schoolDetail;
+
+    expect(Object.keys(missingFields).sort()).toEqual([
+      'contactInfo', 'geographicalAreaCode', 'principalOrganizerType', 'typeOfSchooling',
+    ]);
+  });
+
+  it('records type mismatches, including a body that is not an object', () => {
+    const raw = createRaw({
+      statistics: { totalNumberOfPupils: '300' as unknown as StatValue[], certifiedTeachersQuota: [{ value: '80' }] as StatValue[] },
+      gymnasiumStatistics: [] as never,
+    });
+    Object.assign(raw.compactData, { abroadSchool: 'false' });
+
+    const responses = validate(raw);
+
+    expect(Object.keys(responses.compactSchoolUnit.typeMismatches)).toEqual(['abroadSchool']);
+    expect(Object.keys(responses.grundskoleStatistics.typeMismatches).sort()).toEqual([
+      'certifiedTeachersQuota', 'totalNumberOfPupils',
+    ]);
+    expect(Object.keys(responses.gymnasiumStatistics.typeMismatches)).toEqual(['(body)']);
+  });
+
+  it('counts the value types other than EXISTS per field', () => {
+    const raw = createRaw({
+      statistics: {
+        averageGradesMeritRating9thGrade: [
+          stat('.', '2024', 'MISSING'),
+          stat('.', '2023', 'MISSING'),
+          stat('~', '2022', 'SMALL'),
+          stat('230,5', '2021'),
+        ],
+      },
+    });
+
+    expect(validate(raw).grundskoleStatistics.nonExistsValueTypes).toEqual({
+      averageGradesMeritRating9thGrade: { MISSING: 2, SMALL: 1 },
+    });
+  });
+
+  it('records EXISTS values that do not parse, with the distinct values', () => {
+    const first = createRaw({ statistics: { totalNumberOfPupils: [stat('n/a'), stat('n/a', '2023')] } });
+    const second = createRaw({ schoolUnitCode: '10000002', statistics: { totalNumberOfPupils: [stat('ca 300')] } });
+
+    expect(validate(first, second).grundskoleStatistics.unparseableValues).toEqual({
+      totalNumberOfPupils: { count: 3, examples: ['10000001', '10000002'], values: ['n/a', 'ca 300'] },
+    });
+  });
+
+  it('caps the examples', () => {
+    const records = Array.from({ length: 8 }, (_, i) => {
+      const raw = createRaw({ schoolUnitCode: String(10000001 + i) });
+      Object.assign(raw.compactData, { extra: true });
+      return raw;
+    });
+
+    const finding = validate(...records).compactSchoolUnit.unknownFields.extra;
+
+    expect(finding.count).toBe(8);
+    expect(finding.examples).toHaveLength(5);
+  });
+
+  it('validates each gymnasium program on its own', () => {
+    const raw = createRaw({
+      gymnasiumStatistics: {
+        programMetrics: [
+          { programCode: 'NA', gradesPointsForStudents: [stat('14,2')] },
+          { programCode: 'EK', gradesPointsForStudents: [stat('x')], newMetric: [] } as never,
+        ],
+      },
+    });
+
+    const programs = validate(raw).gymnasiumProgramMetric;
+
+    expect(programs.validated).toBe(2);
+    expect(Object.keys(programs.unknownFields)).toEqual(['newMetric']);
+    expect(programs.unparseableValues.gradesPointsForStudents.values).toEqual(['x']);
+    expect(programs.missingFields.admissionPointsMin.count).toBe(2);
+  });
+});
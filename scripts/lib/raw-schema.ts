@@ -0,0 +1,326 @@
+// Raw Skolverket response types plus runtime validators for them.
+// The API changes field names without notice, so instead of trusting these
+// shapes blindly the process step runs every record through validateRawSchoolData
+// and writes the collected findings to a data-quality report.
+
+export interface StatValue {
+  value: string;
+  valueType: string;
+  timePeriod: string;
+}
+
+export interface CompactSchoolUnit {
+  schoolUnitCode: string;
+  schoolUnitName: string;
+  wgs84Latitude: string;
+  wgs84Longitude: string;
+  abroadSchool: boolean;
+}
+
+export interface GrundskoleStatisticsBody {
+  // Grade 9 stats
+  averageGradesMeritRating9thGrade?: StatValue[];
+  ratioOfPupilsIn9thGradeWithAllSubjectsPassed?: StatValue[];
+  // Grade 6 stats
+  ratioOfPupilsIn6thGradeWithAllSubjectsPassed?: StatValue[];
+  averageResultNationalTestsSubjectSVE6thGrade?: StatValue[];
+  averageResultNationalTestsSubjectENG6thGrade?: StatValue[];
+  averageResultNationalTestsSubjectMA6thGrade?: StatValue[];
+  // Common stats
+  studentsPerTeacherQuota?: StatValue[];
+  certifiedTeachersQuota?: StatValue[];
+  totalNumberOfPupils?: StatValue[];
+}
+
+export interface GymnasiumProgramMetric {
+  programCode: string;
+  ratioOfStudentsEligibleForUndergraduateEducation?: StatValue[];
+  gradesPointsForStudents?: StatValue[];
+  gradesPointsForStudentsWithExam?: StatValue[];
+  ratioOfPupilsWithExamWithin3Years?: StatValue[];
+  admissionPointsMin?: StatValue[];
+  admissionPointsAverage?: StatValue[];
+  totalNumberOfPupils?: StatValue[];
+}
+
+export interface GymnasiumStatisticsBody {
+  programMetrics?: GymnasiumProgramMetric[];
+  studentsPerTeacherQuota?: StatValue[];
+  certifiedTeachersQuota?: StatValue[];
+  totalNumberOfPupils?: StatValue[];
+}
+
+export interface TypeOfSchooling {
+  code: string;
+  displayName: string;
+  schoolYears: string[];
+}
+
+export interface SchoolAddressBody {
+  type: string;
+  street?: string;
+  zipCode?: string;
+  city?: string;
+}
+
+export interface SchoolDetailBody {
+  code: string;
+  name: string;
+  principalOrganizerType?: string;
+  typeOfSchooling?: TypeOfSchooling[];
+  contactInfo?: {
+    addresses?: SchoolAddressBody[];
+  };
+  geographicalAreaCode?: string;
+}
+
+export interface RawSchoolData {
+  schoolUnitCode: string;
+  compactData: CompactSchoolUnit;
+  details: SchoolDetailBody | null;
+  statistics: GrundskoleStatisticsBody | null;
+  gymnasiumStatistics?: GymnasiumStatisticsBody | null;
+}
+
+// Parse Swedish decimal format "217,6" to 217.6
+export function parseSwedishNumber(value: string | undefined): number | null {
+  if (!value || value === '.' || value === '-') return null;
+  const parsed = parseFloat(value.replace(',', '.'));
+  return isNaN(parsed) ? null : parsed;
+}
+
+type FieldKind =
+  | 'string'
+  | 'boolean'
+  | 'statValues'
+  | 'programMetrics'
+  | 'typeOfSchooling'
+  | 'contactInfo';
+
+type ObjectSchema<T> = Record<keyof T, FieldKind>;
+
+export type ResponseType =
+  | 'compactSchoolUnit'
+  | 'schoolDetail'
+  | 'grundskoleStatistics'
+  | 'gymnasiumStatistics'
+  | 'gymnasiumProgramMetric';
+
+const COMPACT_SCHOOL_UNIT_SCHEMA: ObjectSchema<CompactSchoolUnit> = {
+  schoolUnitCode: 'string',
+  schoolUnitName: 'string',
+  wgs84Latitude: 'string',
+  wgs84Longitude: 'string',
+  abroadSchool: 'boolean',
+};
+
+const SCHOOL_DETAIL_SCHEMA: ObjectSchema<SchoolDetailBody> = {
+  code: 'string',
+  name: 'string',
+  principalOrganizerType: 'string',
+  typeOfSchooling: 'typeOfSchooling',
+  contactInfo: 'contactInfo',
+  geographicalAreaCode: 'string',
+};
+
+const GRUNDSKOLE_STATISTICS_SCHEMA: ObjectSchema<GrundskoleStatisticsBody> = {
+  averageGradesMeritRating9thGrade: 'statValues',
+  ratioOfPupilsIn9thGradeWithAllSubjectsPassed: 'statValues',
+  ratioOfPupilsIn6thGradeWithAllSubjectsPassed: 'statValues',
+  averageResultNationalTestsSubjectSVE6thGrade: 'statValues',
+  averageResultNationalTestsSubjectENG6thGrade: 'statValues',
+  averageResultNationalTestsSubjectMA6thGrade: 'statValues',
+  studentsPerTeacherQuota: 'statValues',
+  certifiedTeachersQuota: 'statValues',
+  totalNumberOfPupils: 'statValues',
+};
+
+const GYMNASIUM_STATISTICS_SCHEMA: ObjectSchema<GymnasiumStatisticsBody> = {
+  programMetrics: 'programMetrics',
+  studentsPerTeacherQuota: 'statValues',
+  certifiedTeachersQuota: 'statValues',
+  totalNumberOfPupils: 'statValues',
+};
+
+const GYMNASIUM_PROGRAM_METRIC_SCHEMA: ObjectSchema<GymnasiumProgramMetric> = {
+  programCode: 'string',
+  ratioOfStudentsEligibleForUndergraduateEducation: 'statValues',
+  gradesPointsForStudents: 'statValues',
+  gradesPointsForStudentsWithExam: 'statValues',
+  ratioOfPupilsWithExamWithin3Years: 'statValues',
+  admissionPointsMin: 'statValues',
+  admissionPointsAverage: 'statValues',
+  totalNumberOfPupils: 'statValues',
+};
+
+// HAL metadata that is present on most bodies but never used
+const IGNORED_FIELDS = new Set(['_links', '_embedded']);
+
+const MAX_EXAMPLES = 5;
+
+export interface FieldFinding {
+  count: number;
+  examples: string[]; // schoolUnitCodes, capped at MAX_EXAMPLES
+}
+
+export interface UnparseableFinding extends FieldFinding {
+  values: string[]; // distinct offending values, capped at MAX_EXAMPLES
+}
+
+export interface ResponseQuality {
+  validated: number;
+  unknownFields: Record<string, FieldFinding>;
+  missingFields: Record<string, FieldFinding>;
+  typeMismatches: Record<string, FieldFinding>;
+  unparseableValues: Record<string, UnparseableFinding>;
+  // field -> valueType -> count, for every valueType other than EXISTS
+  nonExistsValueTypes: Record<string, Record<string, number>>;
+}
+
+export type DataQualityResponses = Record<ResponseType, ResponseQuality>;
+
+function emptyQuality(): ResponseQuality {
+  return {
+    validated: 0,
+    unknownFields: {},
+    missingFields: {},
+    typeMismatches: {},
+    unparseableValues: {},
+    nonExistsValueTypes: {},
+  };
+}
+
+export function createDataQualityResponses(): DataQualityResponses {
+  return {
+    compactSchoolUnit: emptyQuality(),
+    schoolDetail: emptyQuality(),
+    grundskoleStatistics: emptyQuality(),
+    gymnasiumStatistics: emptyQuality(),
+    gymnasiumProgramMetric: emptyQuality(),
+  };
+}
+
+function record(findings: Record<string, FieldFinding>, field: string, schoolUnitCode: string): FieldFinding {
+  const finding = findings[field] || (findings[field] = { count: 0, examples: [] });
+  finding.count++;
+  if (finding.examples.length < MAX_EXAMPLES && !finding.examples.includes(schoolUnitCode)) {
+    finding.examples.push(schoolUnitCode);
+  }
+  return finding;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStatValue(value: unknown): value is StatValue {
+  return isPlainObject(value) &&
+    typeof value.value === 'string' &&
+    typeof value.valueType === 'string' &&
+    typeof value.timePeriod === 'string';
+}
+
+function validateStatValues(
+  values: unknown[],
+  field: string,
+  quality: ResponseQuality,
+  schoolUnitCode: string
+): boolean {
+  for (const entry of values) {
+    if (!isStatValue(entry)) return false;
+
+    if (entry.valueType !== 'EXISTS') {
+      const counts = quality.nonExistsValueTypes[field] || (quality.nonExistsValueTypes[field] = {});
+      counts[entry.valueType] = (counts[entry.valueType] || 0) + 1;
+    } else if (parseSwedishNumber(entry.value) === null) {
+      const finding = quality.unparseableValues[field] ||
+        (quality.unparseableValues[field] = { count: 0, examples: [], values: [] });
+      record(quality.unparseableValues, field, schoolUnitCode);
+      if (finding.values.length < MAX_EXAMPLES && !finding.values.includes(entry.value)) {
+        finding.values.push(entry.value);
+      }
+    }
+  }
+  return true;
+}
+
+function validateObject<T>(
+  body: unknown,
+  schema: ObjectSchema<T>,
+  type: ResponseType,
+  responses: DataQualityResponses,
+  schoolUnitCode: string
+): void {
+  const quality = responses[type];
+  quality.validated++;
+
+  if (!isPlainObject(body)) {
+    record(quality.typeMismatches, '(body)', schoolUnitCode);
+    return;
+  }
+
+  for (const field of Object.keys(body)) {
+    if (!(field in schema) && !IGNORED_FIELDS.has(field)) {
+      record(quality.unknownFields, field, schoolUnitCode);
+    }
+  }
+
+  for (const [field, kind] of Object.entries(schema) as [string, FieldKind][]) {
+    const value = body[field];
+    if (value === undefined || value === null) {
+      record(quality.missingFields, field, schoolUnitCode);
+      continue;
+    }
+
+    let valid: boolean;
+    switch (kind) {
+      case 'string':
+        valid = typeof value === 'string';
+        break;
+      case 'boolean':
+        valid = typeof value === 'boolean';
+        break;
+      case 'statValues':
+        valid = Array.isArray(value) && validateStatValues(value, field, quality, schoolUnitCode);
+        break;
+      case 'programMetrics':
+        valid = Array.isArray(value);
+        if (valid) {
+          for (const metric of value as unknown[]) {
+            validateObject(metric, GYMNASIUM_PROGRAM_METRIC_SCHEMA, 'gymnasiumProgramMetric', responses, schoolUnitCode);
+          }
+        }
+        break;
+      case 'typeOfSchooling':
+        valid = Array.isArray(value) && value.every(s =>
+          isPlainObject(s) && typeof s.code === 'string' && Array.isArray(s.schoolYears)
+        );
+        break;
+      case 'contactInfo':
+        valid = isPlainObject(value) &&
+          (value.addresses === undefined || (Array.isArray(value.addresses) &&
+            value.addresses.every(a => isPlainObject(a) && typeof a.type === 'string')));
+        break;
+    }
+
+    if (!valid) {
+      record(quality.typeMismatches, field, schoolUnitCode);
+    }
+  }
+}
+
+// Validate every response captured for one school unit, accumulating into `responses`
+export function validateRawSchoolData(raw: RawSchoolData, responses: DataQualityResponses): void {
+  const code = raw.schoolUnitCode;
+
+  validateObject(raw.compactData, COMPACT_SCHOOL_UNIT_SCHEMA, 'compactSchoolUnit', responses, code);
+  if (raw.details) {
+    validateObject(raw.details, SCHOOL_DETAIL_SCHEMA, 'schoolDetail', responses, code);
+  }
+  if (raw.statistics) {
+    validateObject(raw.statistics, GRUNDSKOLE_STATISTICS_SCHEMA, 'grundskoleStatistics', responses, code);
+  }
+  if (raw.gymnasiumStatistics) {
+    validateObject(raw.gymnasiumStatistics, GYMNASIUM_STATISTICS_SCHEMA, 'gymnasiumStatistics', responses, code);
+  }
+}
@@ -0,0 +1,105 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { diffSchoolData, formatChangelog } from './school-diff';
+import { createSchool } from '../../src/test/fixtures';
+import type { School, SchoolData } from '../../src/lib/types';
+
+function createData(processedAt: string, schools: School[]): SchoolData {
+  return {
+    metadata: {
+      fetchedAt: processedAt,
+      processedAt,
+      totalSchools: schools.length,
+      byCategory: {},
+      withMeritData: 0,
+      withGrade6Data: 0,
+      withGymnasiumData: 0,
+    },
+    schools,
+  };
+}
+
+const unchanged = createSchool({ id: '1', name: 'Vasaskolan', statistics: { meritValue: 240 } });
+const riser = createSchool({ id: '2', name: 'Bergsskolan', statistics: { meritValue: 220, totalPupils: 300 } });
+const mover = createSchool({ id: '3', name: 'Ängsskolan', coordinates: [59.3, 18.0] });
+const closed = createSchool({ id: '4', name: 'Gamla skolan' });
+
+const previous = createData('2024-01-01', [unchanged, riser, mover, closed]);
+const current = createData('2025-01-01', [
+  unchanged,
+  createSchool({
+    ...riser,
+    ownership: 'independent',
+    statistics: { meritValue: 235.5, totalPupils: null },
+  }),
+  createSchool({
+    ...mover,
+    category: '7-9',
+    coordinates: [59.31, 18.0],
+    address: { street: 'Nya vägen 2', postalCode: '111 22', city: 'Stockholm' },
+  }),
+  createSchool({ id: '5', name: 'Nya skolan', coordinates: [0, 0] }),
+]);
+
+describe('diffSchoolData', () => {
+  const changelog = diffSchoolData(previous, current);
+
+  it('lists added and removed schools', () => {
+    expect(changelog.added.map(s => s.id)).toEqual(['5']);
+    expect(changelog.removed.map(s => s.id)).toEqual(['4']);
+  });
+
+  it('leaves out schools that did not change', () => {
+    expect(changelog.changed.map(c => c.id)).toEqual(['2', '3']);
+  });
+
+  it('gives a delta for metrics with a value on both sides', () => {
+    const [riserChange] = changelog.changed;
+    expect(riserChange.metrics).toEqual({
+      meritValue: { previous: 220, current: 235.5, delta: 15.5 },
+      totalPupils: { previous: 300, current: null, delta: null },
+    });
+    expect(riserChange.ownershipChange).toEqual({ previous: 'municipal', current: 'independent' });
+  });
+
+  it('records category, address and position changes', () => {
+    const moverChange = changelog.changed[1];
+    expect(moverChange.categoryChange).toEqual({ previous: 'F-9', current: '7-9' });
+    expect(moverChange.addressChange?.current.street).toBe('Nya vägen 2');
+    expect(moverChange.movedKm).toBeCloseTo(1.11, 1);
+    expect(moverChange.lostCoordinates).toBe(false);
+  });
+
+  it('counts merit movers above the threshold', () => {
+    expect(changelog.summary).toEqual({
+      added: 1,
+      removed: 1,
+      changed: 2,
+      categoryChanges: 1,
+      ownershipChanges: 1,
+      addressChanges: 1,
+      meritMovers: 1,
+      lostCoordinates: 0,
+    });
+    expect(diffSchoolData(previous, current, 20).summary.meritMovers).toBe(0);
+  });
+
+  it('flags a school that lost its coordinates', () => {
+    const lost = createSchool({ ...unchanged, coordinates: [0, 0] });
+    const [change] = diffSchoolData(previous, createData('2025-01-01', [lost])).changed;
+    expect(change.lostCoordinates).toBe(true);
+    expect(change.movedKm).toBeNull();
+  });
+});
+
+describe('formatChangelog', () => {
+  it('summarizes the changes and lists the merit movers', () => {
+    const text = formatChangelog(diffSchoolData(previous, current));
+    expect(text).toContain('Compared 2024-01-01 (4 schools)');
+    expect(text).toContain('New schools: 1');
+    expect(text).toContain('  Merit moved more than 10 points: 1');
+    expect(text).toContain('Bergsskolan (2, Stockholm, F-9): 220 -> 235.5 (+15.5)');
+    expect(text).toContain('Ängsskolan (3, Stockholm, 7-9): F-9 -> 7-9');
+    expect(text).not.toContain('Vasaskolan');
+  });
+});
@@ -0,0 +1,261 @@
+import type { School, SchoolAddress, SchoolData, SchoolStatistics } from '../../src/lib/types';
+
+// Compares two processed datasets (previous vs new schools.json), keyed by School.id
+
+type ScalarMetric = {
+  [K in keyof SchoolStatistics]: SchoolStatistics[K] extends number | null ? K : never;
+}[keyof SchoolStatistics];
+
+const SCALAR_METRICS: ScalarMetric[] = [
+  'meritValue',
+  'passRateGrade9',
+  'passRateGrade6',
+  'avgTestSwedish6',
+  'avgTestEnglish6',
+  'avgTestMath6',
+  'universityEligibilityRate',
+  'gradePoints',
+  'graduationRate',
+  'studentsPerTeacher',
+  'certifiedTeachersRatio',
+  'totalPupils',
+];
+
+export interface SchoolSummary {
+  id: string;
+  name: string;
+  municipality: string;
+  category: School['category'];
+}
+
+export interface MetricDelta {
+  previous: number | null;
+  current: number | null;
+  delta: number | null; // null when either side has no value
+}
+
+export interface ValueChange<T> {
+  previous: T;
+  current: T;
+}
+
+export interface SchoolChange extends SchoolSummary {
+  metrics: Partial<Record<ScalarMetric, MetricDelta>>;
+  nameChange?: ValueChange<string>;
+  categoryChange?: ValueChange<School['category']>;
+  ownershipChange?: ValueChange<School['ownership']>;
+  municipalityChange?: ValueChange<string>;
+  addressChange?: ValueChange<SchoolAddress>;
+  lostCoordinates: boolean;
+  movedKm: number | null; // set when both sides have coordinates and they differ
+}
+
+export interface SchoolChangelog {
+  previous: { processedAt: string; totalSchools: number };
+  current: { processedAt: string; totalSchools: number };
+  meritThreshold: number;
+  added: SchoolSummary[];
+  removed: SchoolSummary[];
+  changed: SchoolChange[];
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    categoryChanges: number;
+    ownershipChanges: number;
+    addressChanges: number;
+    meritMovers: number; // |merit delta| > meritThreshold
+    lostCoordinates: number;
+  };
+}
+
+function summarize(school: School): SchoolSummary {
+  return {
+    id: school.id,
+    name: school.name,
+    municipality: school.municipality,
+    category: school.category,
+  };
+}
+
+function hasValidCoordinates(coordinates: [number, number] | null | undefined): boolean {
+  if (!coordinates) return false;
+  const [lat, lng] = coordinates;
+  return Number.isFinite(lat) && Number.isFinite(lng) && lat !== 0 && lng !== 0;
+}
+
+// Equirectangular approximation is plenty for "did this school move"
+function approximateDistanceKm(a: [number, number], b: [number, number]): number {
+  const toRad = Math.PI / 180;
+  const x = (b[1] - a[1]) * toRad * Math.cos(((a[0] + b[0]) / 2) * toRad);
+  const y = (b[0] - a[0]) * toRad;
+  return Math.sqrt(x * x + y * y) * 6371;
+}
+
+function sameAddress(a: SchoolAddress, b: SchoolAddress): boolean {
+  return a.street === b.street && a.postalCode === b.postalCode && a.city === b.city;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function compareSchools(previous: School, current: School): SchoolChange | null {
+  const change: SchoolChange = {
+    ...summarize(current),
+    metrics: {},
+    lostCoordinates: false,
+    movedKm: null,
+  };
+  let changed = false;
+
+  for (const metric of SCALAR_METRICS) {
+    const before = previous.statistics[metric] ?? null;
+    const after = current.statistics[metric] ?? null;
+    if (before === after) continue;
+    change.metrics[metric] = {
+      previous: before,
+      current: after,
+      delta: before !== null && after !== null ? round(after - before) : null,
+    };
+    changed = true;
+  }
+
+  if (previous.name !== current.name) {
+    change.nameChange = { previous: previous.name, current: current.name };
+    changed = true;
+  }
+  if (previous.category !== current.category) {
+    change.categoryChange = { previous: previous.category, current: current.category };
+    changed = true;
+  }
+  if (previous.ownership !== current.ownership) {
+    change.ownershipChange = { previous: previous.ownership, current: current.ownership };
+    changed = true;
+  }
+  if (previous.municipality !== current.municipality) {
+    change.municipalityChange = { previous: previous.municipality, current: current.municipality };
+    changed = true;
+  }
+  if (!sameAddress(previous.address, current.address)) {
+    change.addressChange = { previous: previous.address, current: current.address };
+    changed = true;
+  }
+
+  const hadCoordinates = hasValidCoordinates(previous.coordinates);
+  const hasCoordinates = hasValidCoordinates(current.coordinates);
+  if (hadCoordinates && !hasCoordinates) {
+    change.lostCoordinates = true;
+    changed = true;
+  } else if (hadCoordinates && hasCoordinates) {
+    const moved = approximateDistanceKm(previous.coordinates, current.coordinates);
+    if (moved > 0) {
+      change.movedKm = round(moved);
+      changed = true;
+    }
+  }
+
+  return changed ? change : null;
+}
+
+export function diffSchoolData(
+  previous: SchoolData,
+  current: SchoolData,
+  meritThreshold = 10
+): SchoolChangelog {
+  const previousById = new Map(previous.schools.map(s => [s.id, s]));
+  const currentById = new Map(current.schools.map(s => [s.id, s]));
+
+  const added = current.schools.filter(s => !previousById.has(s.id)).map(summarize);
+  const removed = previous.schools.filter(s => !currentById.has(s.id)).map(summarize);
+
+  const changed: SchoolChange[] = [];
+  for (const school of current.schools) {
+    const before = previousById.get(school.id);
+    if (!before) continue;
+    const change = compareSchools(before, school);
+    if (change) changed.push(change);
+  }
+
+  return {
+    previous: { processedAt: previous.metadata.processedAt, totalSchools: previous.schools.length },
+    current: { processedAt: current.metadata.processedAt, totalSchools: current.schools.length },
+    meritThreshold,
+    added,
+    removed,
+    changed,
+    summary: {
+      added: added.length,
+      removed: removed.length,
+      changed: changed.length,
+      categoryChanges: changed.filter(c => c.categoryChange).length,
+      ownershipChanges: changed.filter(c => c.ownershipChange).length,
+      addressChanges: changed.filter(c => c.addressChange).length,
+      meritMovers: changed.filter(c => isMeritMover(c, meritThreshold)).length,
+      lostCoordinates: changed.filter(c => c.lostCoordinates).length,
+    },
+  };
+}
+
+export function isMeritMover(change: SchoolChange, meritThreshold: number): boolean {
+  const delta = change.metrics.meritValue?.delta;
+  return delta !== null && delta !== undefined && Math.abs(delta) > meritThreshold;
+}
+
+function formatSchool(school: SchoolSummary): string {
+  return `${school.name} (${school.id}, ${school.municipality}, ${school.category})`;
+}
+
+function formatDelta(delta: number): string {
+  return `${delta >= 0 ? '+' : ''}${delta.toFixed(1)}`;
+}
+
+// Human-readable changelog; the JSON form carries every per-metric delta
+export function formatChangelog(changelog: SchoolChangelog): string {
+  const { summary, meritThreshold } = changelog;
+  const lines: string[] = [];
+
+  lines.push(`Compared ${changelog.previous.processedAt} (${changelog.previous.totalSchools} schools)`);
+  lines.push(`    with ${changelog.current.processedAt} (${changelog.current.totalSchools} schools)`);
+  lines.push('');
+  lines.push(`New schools: ${summary.added}`);
+  lines.push(`Removed schools: ${summary.removed}`);
+  lines.push(`Changed schools: ${summary.changed}`);
+  lines.push(`  Category changes: ${summary.categoryChanges}`);
+  lines.push(`  Ownership changes: ${summary.ownershipChanges}`);
+  lines.push(`  Address changes: ${summary.addressChanges}`);
+  lines.push(`  Merit moved more than ${meritThreshold} points: ${summary.meritMovers}`);
+  lines.push(`  Lost coordinates: ${summary.lostCoordinates}`);
+
+  const section = (title: string, entries: string[]) => {
+    if (entries.length === 0) return;
+    lines.push('');
+    lines.push(`${title}:`);
+    for (const entry of entries) lines.push(`  ${entry}`);
+  };
+
+  section('New', changelog.added.map(formatSchool));
+  section('Removed', changelog.removed.map(formatSchool));
+  section('Category changed', changelog.changed
+    .filter(c => c.categoryChange)
+    .map(c => `${formatSchool(c)}: ${c.categoryChange!.previous} -> ${c.categoryChange!.current}`));
+  section('Ownership changed', changelog.changed
+    .filter(c => c.ownershipChange)
+    .map(c => `${formatSchool(c)}: ${c.ownershipChange!.previous} -> ${c.ownershipChange!.current}`));
+  section(`Merit moved more than ${meritThreshold}`, changelog.changed
+    .filter(c => isMeritMover(c, meritThreshold))
+    .sort((a, b) => Math.abs(b.metrics.meritValue!.delta!) - Math.abs(a.metrics.meritValue!.delta!))
+    .map(c => {
+      const merit = c.metrics.meritValue!;
+      return `${formatSchool(c)}: ${merit.previous} -> ${merit.current} (${formatDelta(merit.delta!)})`;
+    }));
+  section('Address changed', changelog.changed
+    .filter(c => c.addressChange)
+    .map(c => {
+      const { previous, current } = c.addressChange!;
+      return `${formatSchool(c)}: ${previous.street}, ${previous.city} -> ${current.street}, ${current.city}`;
+    }));
+  section('Lost coordinates', changelog.changed.filter(c => c.lostCoordinates).map(formatSchool));
+
+  return lines.join('\n');
+}
@@ -0,0 +1,207 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { CompactSchoolUnit } from './lib/raw-schema';
+
+// Local stand-in for the Skolverket Planned Educations API.
+// Serves recorded HAL+JSON responses from scripts/fixtures/skolverket so the
+// fetch → process pipeline can run without network access:
+//
+//   pnpm run mock-api --scenario=rate-limit
+//   SKOLVERKET_API_BASE=http://localhost:4010/planned-educations/v3 \
+//   SCHOOL_DATA_DIR=/tmp/school-data pnpm run fetch-data
+
+const API_PREFIX = '/planned-educations/v3';
+const CONTENT_TYPE = 'application/vnd.skolverket.plannededucations.api.v3.hal+json';
+const DEFAULT_FIXTURES_DIR = path.join(__dirname, 'fixtures/skolverket');
+
+// ok: every fixture is served as recorded
+// rate-limit: the first request to each path gets a 429
+// flaky: the first request to each path gets a 500
+export type MockScenario = 'ok' | 'rate-limit' | 'flaky';
+
+export interface MockServerOptions {
+  port?: number;
+  scenario?: MockScenario;
+  fixturesDir?: string;
+  // Caps the compact-school-units page size to exercise pagination with few fixtures
+  pageSize?: number;
+  log?: boolean;
+}
+
+export interface MockServer {
+  url: string;
+  apiBase: string;
+  requests: string[];
+  close: () => Promise<void>;
+}
+
+function readFixture(fixturesDir: string, relativePath: string): unknown | null {
+  const filePath = path.join(fixturesDir, relativePath);
+  if (!fs.existsSync(filePath)) return null;
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+function compactSchoolUnitsPage(
+  fixturesDir: string,
+  params: URLSearchParams,
+  pageSizeCap: number | undefined
+): unknown {
+  const units = (readFixture(fixturesDir, 'compact-school-units.json') as CompactSchoolUnit[] | null) || [];
+  const requestedSize = parseInt(params.get('size') || '20', 10);
+  const size = Math.max(1, pageSizeCap ? Math.min(requestedSize, pageSizeCap) : requestedSize);
+  const page = parseInt(params.get('page') || '0', 10);
+  const totalPages = Math.max(1, Math.ceil(units.length / size));
+
+  return {
+    status: 'OK',
+    message: '',
+    body: {
+      _embedded: {
+        compactSchoolUnits: units.slice(page * size, (page + 1) * size),
+      },
+      page: {
+        size,
+        totalElements: units.length,
+        totalPages,
+        number: page,
+      },
+    },
+  };
+}
+
+// Map an API path onto its recorded response, or null for a 404
+function resolveFixture(fixturesDir: string, apiPath: string, params: URLSearchParams, pageSize?: number): unknown | null {
+  if (apiPath === '/compact-school-units') {
+    return compactSchoolUnitsPage(fixturesDir, params, pageSize);
+  }
+
+  const statsMatch = apiPath.match(/^\/school-units\/(\d+)\/statistics\/(gr|gy)$/);
+  if (statsMatch) {
+    return readFixture(fixturesDir, `school-units/${statsMatch[1]}/statistics-${statsMatch[2]}.json`);
+  }
+
+  const detailMatch = apiPath.match(/^\/school-units\/(\d+)$/);
+  if (detailMatch) {
+    return readFixture(fixturesDir, `school-units/${detailMatch[1]}/details.json`);
+  }
+
+  return null;
+}
+
+export function startMockSkolverketServer(options: MockServerOptions = {}): Promise<MockServer> {
+  const {
+    port = 0,
+    scenario = 'ok',
+    fixturesDir = DEFAULT_FIXTURES_DIR,
+    pageSize,
+    log = false,
+  } = options;
+
+  const requests: string[] = [];
+  const seenPaths = new Set<string>();
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    requests.push(url.pathname + url.search);
+
+    const send = (status: number, body: unknown) => {
+      if (log) console.log(`${status} ${req.method} ${url.pathname}${url.search}`);
+      res.writeHead(status, { 'Content-Type': CONTENT_TYPE });
+      res.end(JSON.stringify(body));
+    };
+
+    if (!url.pathname.startsWith(API_PREFIX)) {
+      send(404, { status: 'NOT_FOUND', message: 'Unknown API prefix' });
+      return;
+    }
+
+    // Scenarios key on path + query so each page/school fails exactly once
+    const requestKey = url.pathname + url.search;
+    const firstRequest = !seenPaths.has(requestKey);
+    seenPaths.add(requestKey);
+
+    if (firstRequest && scenario === 'rate-limit') {
+      send(429, { status: 'TOO_MANY_REQUESTS', message: 'Rate limit exceeded' });
+      return;
+    }
+    if (firstRequest && scenario === 'flaky') {
+      send(500, { status: 'INTERNAL_SERVER_ERROR', message: 'Simulated failure' });
+      return;
+    }
+
+    const apiPath = url.pathname.slice(API_PREFIX.length);
+    const fixture = resolveFixture(fixturesDir, apiPath, url.searchParams, pageSize);
+    if (fixture === null) {
+      send(404, { status: 'NOT_FOUND', message: `No fixture for ${apiPath}` });
+      return;
+    }
+
+    send(200, fixture);
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const address = server.address();
+      const actualPort = typeof address === 'object' && address ? address.port : port;
+      const url = `http://127.0.0.1:${actualPort}`;
+      resolve({
+        url,
+        apiBase: `${url}${API_PREFIX}`,
+        requests,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+function parseArgs(argv: string[]): MockServerOptions {
+  const options: MockServerOptions = { port: 4010, log: true };
+
+  for (const arg of argv) {
+    const [key, value] = arg.split('=');
+    switch (key) {
+      case '--port':
+        options.port = parseInt(value, 10);
+        break;
+      case '--scenario':
+        if (value !== 'ok' && value !== 'rate-limit' && value !== 'flaky') {
+          throw new Error(`Unknown scenario "${value}" (expected ok, rate-limit or flaky)`);
+        }
+        options.scenario = value;
+        break;
+      case '--fixtures':
+        options.fixturesDir = path.resolve(value);
+        break;
+      case '--page-size':
+        options.pageSize = parseInt(value, 10);
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const server = await startMockSkolverketServer(options);
+
+  console.log(`Mock Skolverket API listening (scenario: ${options.scenario || 'ok'})`);
+  console.log(`  SKOLVERKET_API_BASE=${server.apiBase}`);
+
+  const shutdown = () => {
+    server.close().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,159 @@
+// @vitest-environment node
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { main as processData } from './process-raw-data';
+import type { GymnasiumProgramMetric, RawSchoolData, StatValue } from './lib/raw-schema';
+import type { SchoolData } from '../src/lib/types';
+
+let dataDir: string;
+
+function createRaw(schoolUnitCode: string, meritValue: string | null): RawSchoolData {
+  return {
+    schoolUnitCode,
+    compactData: {
+      schoolUnitCode,
+      schoolUnitName: `Skola ${schoolUnitCode}`,
+      wgs84Latitude: '59.33',
+      wgs84Longitude: '18.06',
+      abroadSchool: false,
+    },
+    details: null,
+    statistics: meritValue === null ? null : {
+      averageGradesMeritRating9thGrade: [{ value: meritValue, valueType: 'EXISTS', timePeriod: '2024' }],
+    },
+  };
+}
+
+function series(values: Record<string, string>): StatValue[] {
+  return Object.entries(values).map(([timePeriod, value]) => ({ value, valueType: 'EXISTS', timePeriod }))
+    .sort((a, b) => b.timePeriod.localeCompare(a.timePeriod));
+}
+
+function createProgram(programCode: string, gradePoints: Record<string, string>, pupils: Record<string, string>): GymnasiumProgramMetric {
+  return { programCode, gradesPointsForStudents: series(gradePoints), totalNumberOfPupils: series(pupils) };
+}
+
+function createGymnasium(programMetrics: GymnasiumProgramMetric[]): RawSchoolData {
+  return { ...createRaw('1', null), gymnasiumStatistics: { programMetrics } };
+}
+
+function writeRaw(records: RawSchoolData[]) {
+  fs.writeFileSync(path.join(dataDir, 'raw/all-school-data.json'), JSON.stringify(records));
+}
+
+function readJson<T>(file: string): T {
+  return JSON.parse(fs.readFileSync(path.join(dataDir, file), 'utf-8'));
+}
+
+const CODES = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'];
+const options = () => ({ maxCoverageDrop: 0.1, allowCoverageDrop: false, dataDir });
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'school-data-'));
+  fs.mkdirSync(path.join(dataDir, 'raw'));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+describe('coverage check', () => {
+  beforeEach(async () => {
+    writeRaw(CODES.map(code => createRaw(code, '230,5')));
+    await processData(options());
+  });
+
+  it('keeps the previous schools.json when coverage drops too much', async () => {
+    // Eight of ten schools lost their merit values
+    writeRaw(CODES.map(code => createRaw(code, code === '1' || code === '2' ? '230,5' : null)));
+    const previous = fs.readFileSync(path.join(dataDir, 'schools.json'), 'utf-8');
+
+    await expect(processData(options())).rejects.toThrow('Not writing schools.json');
+
+    expect(fs.readFileSync(path.join(dataDir, 'schools.json'), 'utf-8')).toBe(previous);
+    const report = readJson<{ coverage: { checks: { metric: string; change: number; failed: boolean }[] } }>(
+      'raw/data-quality-report.json'
+    );
+    expect(report.coverage.checks.filter(c => c.failed)).toEqual([
+      expect.objectContaining({ metric: 'withMeritData', change: -0.8 }),
+    ]);
+  });
+
+  it('writes schools.json anyway when the drop is allowed', async () => {
+    writeRaw([createRaw('1', '230,5')]);
+
+    await processData({ ...options(), allowCoverageDrop: true });
+
+    expect(readJson<SchoolData>('schools.json').metadata.totalSchools).toBe(1);
+  });
+
+  it('passes a drop of exactly the limit', async () => {
+    writeRaw(CODES.map(code => createRaw(code, code === '1' ? null : '230,5')));
+
+    await processData(options());
+
+    expect(readJson<SchoolData>('schools.json').metadata.withMeritData).toBe(9);
+  });
+});
+
+describe('gymnasium aggregates', () => {
+  // More pupils in NA in 2024 and in EK in 2023
+  const na = createProgram('NA', { 2024: '15', 2023: '14' }, { 2024: '300', 2023: '100' });
+  const ek = createProgram('EK', { 2024: '12', 2023: '11' }, { 2024: '100', 2023: '300' });
+
+  async function processGymnasium(programs: GymnasiumProgramMetric[]) {
+    writeRaw([createGymnasium(programs)]);
+    await processData(options());
+    return readJson<SchoolData>('schools.json').schools[0].statistics;
+  }
+
+  it('weights the programs by their pupils, year by year', async () => {
+    const statistics = await processGymnasium([na, ek]);
+
+    expect(statistics.gradePoints).toBe(14.25);
+    expect(statistics.programPupils).toBe(400);
+    expect(statistics.history.gradePoints).toEqual({ 2024: 14.25, 2023: 11.75 });
+  });
+
+  it('falls back to a plain mean in the years a program lacks a pupil count', async () => {
+    // TE only reports 2024, without pupils
+    const te = { programCode: 'TE', gradesPointsForStudents: series({ 2024: '10' }) };
+
+    const statistics = await processGymnasium([na, ek, te]);
+
+    expect(statistics.gradePoints).toBeCloseTo(37 / 3);
+    expect(statistics.programPupils).toBeNull();
+    expect(statistics.history.gradePoints).toEqual({ 2024: 12.33, 2023: 11.75 });
+  });
+
+  it('uses the latest pupil count for years without one', async () => {
+    const latestOnly = createProgram('SA', { 2024: '16', 2023: '16' }, { 2024: '100' });
+
+    const statistics = await processGymnasium([ek, latestOnly]);
+
+    // 2023: EK 300 pupils at 11, SA 100 at 16
+    expect(statistics.history.gradePoints?.[2023]).toBe(12.25);
+  });
+});
+
+describe('yearly averages', () => {
+  it('averages each metric per year over the schools reporting it', async () => {
+    const withHistory = (code: string, merit: Record<string, string>): RawSchoolData => ({
+      ...createRaw(code, null),
+      statistics: { averageGradesMeritRating9thGrade: series(merit) },
+    });
+    writeRaw([
+      withHistory('1', { 2024: '240', 2023: '230' }),
+      withHistory('2', { 2024: '220' }),
+    ]);
+
+    await processData(options());
+
+    expect(readJson<SchoolData>('schools.json').metadata.yearlyAverages?.meritValue).toEqual({ 2024: 230, 2023: 230 });
+  });
+});
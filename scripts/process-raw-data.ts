@@ -1,88 +1,40 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+  DataQualityResponses,
+  GymnasiumStatisticsBody,
+  RawSchoolData,
+  StatValue,
+  createDataQualityResponses,
+  parseSwedishNumber,
+  validateRawSchoolData,
+} from './lib/raw-schema';
+import { resolveMunicipality } from '../src/lib/municipalities';
+import type { Benchmark, Benchmarks, DataChanges, SchoolData, YearlyAverages } from '../src/lib/types';
+import { diffSchoolData } from './lib/school-diff';
+
+const DATA_DIR = process.env.SCHOOL_DATA_DIR || path.join(__dirname, '../src/data');
 
-interface StatValue {
-  value: string;
-  valueType: string;
-  timePeriod: string;
-}
-
-interface GrundskoleStatisticsBody {
-  // Grade 9 stats
-  averageGradesMeritRating9thGrade?: StatValue[];
-  ratioOfPupilsIn9thGradeWithAllSubjectsPassed?: StatValue[];
-  // Grade 6 stats
-  ratioOfPupilsIn6thGradeWithAllSubjectsPassed?: StatValue[];
-  averageResultNationalTestsSubjectSVE6thGrade?: StatValue[];
-  averageResultNationalTestsSubjectENG6thGrade?: StatValue[];
-  averageResultNationalTestsSubjectMA6thGrade?: StatValue[];
-  // Common stats
-  studentsPerTeacherQuota?: StatValue[];
-  certifiedTeachersQuota?: StatValue[];
-  totalNumberOfPupils?: StatValue[];
-  [key: string]: unknown;
-}
-
-interface GymnasiumProgramMetric {
-  programCode: string;
-  ratioOfStudentsEligibleForUndergraduateEducation?: StatValue[];
-  gradesPointsForStudents?: StatValue[];
-  gradesPointsForStudentsWithExam?: StatValue[];
-  ratioOfPupilsWithExamWithin3Years?: StatValue[];
-  admissionPointsMin?: StatValue[];
-  admissionPointsAverage?: StatValue[];
-  totalNumberOfPupils?: StatValue[];
-  [key: string]: unknown;
-}
-
-interface GymnasiumStatisticsBody {
-  programMetrics?: GymnasiumProgramMetric[];
-  studentsPerTeacherQuota?: StatValue[];
-  certifiedTeachersQuota?: StatValue[];
-  totalNumberOfPupils?: StatValue[];
-  [key: string]: unknown;
-}
-
-interface CompactSchoolUnit {
-  schoolUnitCode: string;
-  schoolUnitName: string;
-  wgs84Latitude: string;
-  wgs84Longitude: string;
-  abroadSchool: boolean;
-}
+type SchoolCategory = 'F-6' | 'F-9' | '7-9' | 'gymnasium' | 'anpassad' | 'other';
 
-interface TypeOfSchooling {
-  code: string;
-  displayName: string;
-  schoolYears: string[];
-}
+// Year -> value, keyed by timePeriod
+type TimeSeries = Record<string, number>;
 
-interface SchoolDetailBody {
-  code: string;
-  name: string;
-  principalOrganizerType?: string;
-  typeOfSchooling?: TypeOfSchooling[];
-  contactInfo?: {
-    addresses?: Array<{
-      type: string;
-      street?: string;
-      zipCode?: string;
-      city?: string;
-    }>;
-  };
-  geographicalAreaCode?: string;
-  [key: string]: unknown;
-}
+type GymnasiumAggregateField = 'universityEligibilityRate' | 'gradePoints' | 'graduationRate';
 
-interface RawSchoolData {
-  schoolUnitCode: string;
-  compactData: CompactSchoolUnit;
-  details: SchoolDetailBody | null;
-  statistics: GrundskoleStatisticsBody | null;
-  gymnasiumStatistics?: GymnasiumStatisticsBody | null;
-}
+type ProgramHistoryMetric = GymnasiumAggregateField | 'admissionPointsAvg' | 'admissionPointsMin' | 'totalPupils';
 
-type SchoolCategory = 'F-6' | 'F-9' | '7-9' | 'gymnasium' | 'anpassad' | 'other';
+type HistoryMetric =
+  | 'meritValue'
+  | 'passRateGrade9'
+  | 'passRateGrade6'
+  | 'avgTestSwedish6'
+  | 'avgTestEnglish6'
+  | 'avgTestMath6'
+  | GymnasiumAggregateField
+  | 'studentsPerTeacher'
+  | 'certifiedTeachersRatio'
+  | 'totalPupils';
 
 interface GymnasiumProgram {
   code: string;
@@ -91,6 +43,8 @@ interface GymnasiumProgram {
   graduationRate: number | null;
   admissionPointsAvg: number | null;
   admissionPointsMin: number | null;
+  totalPupils: number | null;
+  history: Partial<Record<ProgramHistoryMetric, TimeSeries>>;
 }
 
 interface School {
@@ -98,6 +52,9 @@ interface School {
   name: string;
   coordinates: [number, number];
   municipality: string;
+  municipalityCode: string | null;
+  county: string | null;
+  postalCity: string;
   ownership: 'municipal' | 'independent';
   category: SchoolCategory;
   schoolTypes: string[]; // e.g., ["Grundskolan", "Gymnasieskolan"]
@@ -110,32 +67,27 @@ interface School {
   statistics: {
     // Grundskola Grade 9 data
     meritValue: number | null;
-    meritHistory: { year: string; value: number }[];
     passRateGrade9: number | null;
     // Grundskola Grade 6 data
     passRateGrade6: number | null;
     avgTestSwedish6: number | null;
     avgTestEnglish6: number | null;
     avgTestMath6: number | null;
-    // Gymnasium data (aggregated across programs)
+    // Gymnasium data (aggregated across programs, weighted by program pupils)
     universityEligibilityRate: number | null; // % eligible for university
     gradePoints: number | null; // average grade points (0-20 scale)
     graduationRate: number | null; // % graduating within 3 years
     programs: GymnasiumProgram[]; // per-program data
+    programPupils: number | null; // pupils behind the weighted aggregates above
     // Common data
     studentsPerTeacher: number | null;
     certifiedTeachersRatio: number | null;
     totalPupils: number | null;
+    // All years per metric; metrics without data are left out to keep the output small
+    history: Partial<Record<HistoryMetric, TimeSeries>>;
   };
 }
 
-// Parse Swedish decimal format "217,6" to 217.6
-function parseSwedishNumber(value: string | undefined): number | null {
-  if (!value || value === '.' || value === '-') return null;
-  const parsed = parseFloat(value.replace(',', '.'));
-  return isNaN(parsed) ? null : parsed;
-}
-
 // Get most recent value from StatValue array
 function getMostRecentValue(data: StatValue[] | undefined): number | null {
   if (!data || data.length === 0) return null;
@@ -147,16 +99,30 @@ function getMostRecentValue(data: StatValue[] | undefined): number | null {
   return null;
 }
 
-// Get merit history from StatValue array
-function getMeritHistory(data: StatValue[] | undefined): { year: string; value: number }[] {
-  if (!data) return [];
-  return data
-    .filter(entry => entry.valueType === 'EXISTS')
-    .map(entry => ({
-      year: entry.timePeriod,
-      value: parseSwedishNumber(entry.value) || 0,
-    }))
-    .slice(0, 5);
+// Get every year's value from StatValue array
+function getTimeSeries(data: StatValue[] | undefined): TimeSeries {
+  const series: TimeSeries = {};
+  if (!data) return series;
+  for (const entry of data) {
+    if (entry.valueType !== 'EXISTS' || entry.timePeriod in series) continue;
+    const value = parseSwedishNumber(entry.value);
+    if (value !== null) series[entry.timePeriod] = value;
+  }
+  return series;
+}
+
+// Prefer the first series that has any data (grundskola before gymnasium)
+function firstNonEmptySeries(...candidates: TimeSeries[]): TimeSeries {
+  return candidates.find(series => Object.keys(series).length > 0) || {};
+}
+
+// Drop metrics without any years so the processed output stays compact
+function compactHistory<K extends string>(series: Record<K, TimeSeries>): Partial<Record<K, TimeSeries>> {
+  const history: Partial<Record<K, TimeSeries>> = {};
+  for (const [metric, values] of Object.entries(series) as [K, TimeSeries][]) {
+    if (Object.keys(values).length > 0) history[metric] = values;
+  }
+  return history;
 }
 
 // Determine school category based on available data, typeOfSchooling, and name
@@ -235,6 +201,15 @@ function processGymnasiumPrograms(gymStats: GymnasiumStatisticsBody | null | und
     graduationRate: getMostRecentValue(pm.ratioOfPupilsWithExamWithin3Years),
     admissionPointsAvg: getMostRecentValue(pm.admissionPointsAverage),
     admissionPointsMin: getMostRecentValue(pm.admissionPointsMin),
+    totalPupils: getMostRecentValue(pm.totalNumberOfPupils),
+    history: compactHistory<ProgramHistoryMetric>({
+      universityEligibilityRate: getTimeSeries(pm.ratioOfStudentsEligibleForUndergraduateEducation),
+      gradePoints: getTimeSeries(pm.gradesPointsForStudents),
+      graduationRate: getTimeSeries(pm.ratioOfPupilsWithExamWithin3Years),
+      admissionPointsAvg: getTimeSeries(pm.admissionPointsAverage),
+      admissionPointsMin: getTimeSeries(pm.admissionPointsMin),
+      totalPupils: getTimeSeries(pm.totalNumberOfPupils),
+    }),
   })).filter(p =>
     // Only include programs with at least some data
     p.universityEligibilityRate !== null ||
@@ -243,14 +218,56 @@ function processGymnasiumPrograms(gymStats: GymnasiumStatisticsBody | null | und
   );
 }
 
-// Calculate weighted average for gymnasium stats across programs
-function calculateGymnasiumAverage(programs: GymnasiumProgram[], field: keyof GymnasiumProgram): number | null {
-  const validValues = programs
-    .map(p => p[field] as number | null)
-    .filter((v): v is number => v !== null);
+// Average a per-program value across programs, weighted by each program's pupils.
+// If any contributing program lacks a pupil count the weights are unreliable,
+// so fall back to a plain mean rather than silently dropping that program.
+function averageAcrossPrograms(
+  programs: GymnasiumProgram[],
+  getValue: (program: GymnasiumProgram) => number | null | undefined,
+  getPupils: (program: GymnasiumProgram) => number | null | undefined
+): number | null {
+  const entries = programs
+    .map(p => ({ value: getValue(p), pupils: getPupils(p) }))
+    .filter((e): e is { value: number; pupils: number | null | undefined } =>
+      e.value !== null && e.value !== undefined
+    );
+
+  if (entries.length === 0) return null;
+
+  const fullyWeighted = entries.every(e => typeof e.pupils === 'number' && e.pupils > 0);
+  if (!fullyWeighted) {
+    return entries.reduce((sum, e) => sum + e.value, 0) / entries.length;
+  }
+
+  const totalPupils = entries.reduce((sum, e) => sum + (e.pupils as number), 0);
+  return entries.reduce((sum, e) => sum + e.value * (e.pupils as number), 0) / totalPupils;
+}
+
+// Calculate pupil-weighted average for gymnasium stats across programs
+function calculateGymnasiumAverage(programs: GymnasiumProgram[], field: GymnasiumAggregateField): number | null {
+  return averageAcrossPrograms(programs, p => p[field], p => p.totalPupils);
+}
+
+// Pupils the aggregates are based on; null when a program has no pupil count
+function calculateProgramPupils(programs: GymnasiumProgram[]): number | null {
+  if (programs.length === 0 || programs.some(p => p.totalPupils === null)) return null;
+  return programs.reduce((sum, p) => sum + (p.totalPupils as number), 0);
+}
 
-  if (validValues.length === 0) return null;
-  return validValues.reduce((a, b) => a + b, 0) / validValues.length;
+// Same aggregate as calculateGymnasiumAverage, for every year any program reports
+function calculateGymnasiumHistory(programs: GymnasiumProgram[], field: GymnasiumAggregateField): TimeSeries {
+  const years = new Set(programs.flatMap(p => Object.keys(p.history[field] || {})));
+  const series: TimeSeries = {};
+  for (const year of years) {
+    const average = averageAcrossPrograms(
+      programs,
+      p => p.history[field]?.[year],
+      p => p.history.totalPupils?.[year] ?? p.totalPupils
+    );
+    // Rounded so derived series don't bloat schools.json with long fractions
+    if (average !== null) series[year] = Math.round(average * 100) / 100;
+  }
+  return series;
 }
 
 function processSchoolData(raw: RawSchoolData): School {
@@ -269,6 +286,10 @@ function processSchoolData(raw: RawSchoolData): School {
     return numA - numB;
   });
 
+  // Resolve the official kommun; fall back to the postal city if the code is unknown
+  const resolved = resolveMunicipality(details?.geographicalAreaCode);
+  const postalCity = visitingAddress?.city || '';
+
   // Process gymnasium programs
   const programs = processGymnasiumPrograms(gymnasiumStatistics);
 
@@ -287,7 +308,10 @@ function processSchoolData(raw: RawSchoolData): School {
       parseFloat(compactData.wgs84Latitude),
       parseFloat(compactData.wgs84Longitude),
     ],
-    municipality: visitingAddress?.city || 'Unknown',
+    municipality: resolved?.municipality.name || postalCity || 'Unknown',
+    municipalityCode: resolved?.municipality.code ?? null,
+    county: resolved?.county.name ?? null,
+    postalCity,
     ownership: details?.principalOrganizerType === 'Kommunal' ? 'municipal' : 'independent',
     category: determineCategory(raw),
     schoolTypes,
@@ -295,39 +319,211 @@ function processSchoolData(raw: RawSchoolData): School {
     address: {
       street: visitingAddress?.street || '',
       postalCode: visitingAddress?.zipCode || '',
-      city: visitingAddress?.city || '',
+      city: postalCity,
     },
     statistics: {
       // Grundskola Grade 9 data
       meritValue: getMostRecentValue(statistics?.averageGradesMeritRating9thGrade),
-      meritHistory: getMeritHistory(statistics?.averageGradesMeritRating9thGrade),
       passRateGrade9: getMostRecentValue(statistics?.ratioOfPupilsIn9thGradeWithAllSubjectsPassed),
       // Grundskola Grade 6 data
       passRateGrade6: getMostRecentValue(statistics?.ratioOfPupilsIn6thGradeWithAllSubjectsPassed),
       avgTestSwedish6: getMostRecentValue(statistics?.averageResultNationalTestsSubjectSVE6thGrade),
       avgTestEnglish6: getMostRecentValue(statistics?.averageResultNationalTestsSubjectENG6thGrade),
       avgTestMath6: getMostRecentValue(statistics?.averageResultNationalTestsSubjectMA6thGrade),
-      // Gymnasium data (aggregated across programs)
+      // Gymnasium data (aggregated across programs, weighted by program pupils)
       universityEligibilityRate: calculateGymnasiumAverage(programs, 'universityEligibilityRate'),
       gradePoints: calculateGymnasiumAverage(programs, 'gradePoints'),
       graduationRate: calculateGymnasiumAverage(programs, 'graduationRate'),
       programs,
+      programPupils: calculateProgramPupils(programs),
       // Common data
       studentsPerTeacher,
       certifiedTeachersRatio,
       totalPupils,
+      history: compactHistory<HistoryMetric>({
+        meritValue: getTimeSeries(statistics?.averageGradesMeritRating9thGrade),
+        passRateGrade9: getTimeSeries(statistics?.ratioOfPupilsIn9thGradeWithAllSubjectsPassed),
+        passRateGrade6: getTimeSeries(statistics?.ratioOfPupilsIn6thGradeWithAllSubjectsPassed),
+        avgTestSwedish6: getTimeSeries(statistics?.averageResultNationalTestsSubjectSVE6thGrade),
+        avgTestEnglish6: getTimeSeries(statistics?.averageResultNationalTestsSubjectENG6thGrade),
+        avgTestMath6: getTimeSeries(statistics?.averageResultNationalTestsSubjectMA6thGrade),
+        universityEligibilityRate: calculateGymnasiumHistory(programs, 'universityEligibilityRate'),
+        gradePoints: calculateGymnasiumHistory(programs, 'gradePoints'),
+        graduationRate: calculateGymnasiumHistory(programs, 'graduationRate'),
+        studentsPerTeacher: firstNonEmptySeries(
+          getTimeSeries(statistics?.studentsPerTeacherQuota),
+          getTimeSeries(gymnasiumStatistics?.studentsPerTeacherQuota)
+        ),
+        certifiedTeachersRatio: firstNonEmptySeries(
+          getTimeSeries(statistics?.certifiedTeachersQuota),
+          getTimeSeries(gymnasiumStatistics?.certifiedTeachersQuota)
+        ),
+        totalPupils: firstNonEmptySeries(
+          getTimeSeries(statistics?.totalNumberOfPupils),
+          getTimeSeries(gymnasiumStatistics?.totalNumberOfPupils)
+        ),
+      }),
     },
   };
 }
 
-async function main() {
+const BENCHMARK_METRICS: HistoryMetric[] = [
+  'meritValue',
+  'passRateGrade9',
+  'passRateGrade6',
+  'avgTestSwedish6',
+  'avgTestEnglish6',
+  'avgTestMath6',
+  'universityEligibilityRate',
+  'gradePoints',
+  'graduationRate',
+  'studentsPerTeacher',
+  'certifiedTeachersRatio',
+  'totalPupils',
+];
+
+// Linear-interpolated percentile of an ascending array
+function percentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function roundBenchmark(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// National average (mean across schools) and percentile breakpoints per metric
+function computeBenchmarks(schools: School[]): Benchmarks {
+  const benchmarks: Benchmarks = {};
+
+  for (const metric of BENCHMARK_METRICS) {
+    const values = schools
+      .map(s => s.statistics[metric])
+      .filter((v): v is number => v !== null)
+      .sort((a, b) => a - b);
+    if (values.length === 0) continue;
+
+    const benchmark: Benchmark = {
+      avg: roundBenchmark(values.reduce((a, b) => a + b, 0) / values.length),
+      p10: roundBenchmark(percentile(values, 0.1)),
+      p25: roundBenchmark(percentile(values, 0.25)),
+      p50: roundBenchmark(percentile(values, 0.5)),
+      p75: roundBenchmark(percentile(values, 0.75)),
+      p90: roundBenchmark(percentile(values, 0.9)),
+      count: values.length,
+    };
+    benchmarks[metric] = benchmark;
+  }
+
+  return benchmarks;
+}
+
+// Mean of every metric per year, for the national average line in history charts
+function computeYearlyAverages(schools: School[]): YearlyAverages {
+  const averages: YearlyAverages = {};
+
+  for (const metric of BENCHMARK_METRICS) {
+    const totals = new Map<string, { sum: number; count: number }>();
+    for (const school of schools) {
+      for (const [year, value] of Object.entries(school.statistics.history[metric] ?? {})) {
+        const total = totals.get(year) ?? { sum: 0, count: 0 };
+        total.sum += value;
+        total.count += 1;
+        totals.set(year, total);
+      }
+    }
+    if (totals.size === 0) continue;
+
+    const series: TimeSeries = {};
+    for (const [year, { sum, count }] of totals) {
+      series[year] = roundBenchmark(sum / count);
+    }
+    averages[metric] = series;
+  }
+
+  return averages;
+}
+
+export interface ProcessOptions {
+  maxCoverageDrop: number; // fraction, e.g. 0.1 for 10%
+  allowCoverageDrop: boolean;
+  dataDir: string;
+}
+
+type CoverageMetric = 'totalSchools' | 'withMeritData' | 'withGrade6Data' | 'withGymnasiumData';
+
+interface CoverageCheck {
+  metric: CoverageMetric;
+  previous: number;
+  current: number;
+  change: number; // relative change, negative for a drop
+  failed: boolean;
+}
+
+interface DataQualityReport {
+  generatedAt: string;
+  totalRecords: number;
+  responses: DataQualityResponses;
+  coverage: {
+    maxDrop: number;
+    previousProcessedAt: string | null;
+    checks: CoverageCheck[];
+  };
+}
+
+function parseArgs(argv: string[]): ProcessOptions {
+  const options: ProcessOptions = { maxCoverageDrop: 0.1, allowCoverageDrop: false, dataDir: DATA_DIR };
+
+  for (const arg of argv) {
+    if (arg === '--allow-coverage-drop') {
+      options.allowCoverageDrop = true;
+    } else if (arg.startsWith('--max-coverage-drop=')) {
+      const percent = parseFloat(arg.split('=')[1]);
+      if (isNaN(percent) || percent < 0) throw new Error(`Invalid ${arg} (expected a percentage)`);
+      options.maxCoverageDrop = percent / 100;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+// Compare coverage counts against the previously processed dataset
+function checkCoverage(
+  previous: Record<CoverageMetric, number> | null,
+  current: Record<CoverageMetric, number>,
+  maxDrop: number
+): CoverageCheck[] {
+  if (!previous) return [];
+
+  return (Object.keys(current) as CoverageMetric[])
+    .filter(metric => typeof previous[metric] === 'number' && previous[metric] > 0)
+    .map(metric => {
+      const change = (current[metric] - previous[metric]) / previous[metric];
+      return {
+        metric,
+        previous: previous[metric],
+        current: current[metric],
+        change,
+        failed: change < -maxDrop,
+      };
+    });
+}
+
+function countEntries(findings: Record<string, unknown>): number {
+  return Object.keys(findings).length;
+}
+
+export async function main(options: ProcessOptions) {
   console.log('Processing raw school data...\n');
 
-  const rawDataPath = path.join(__dirname, '../src/data/raw/all-school-data.json');
+  const rawDataPath = path.join(options.dataDir, 'raw/all-school-data.json');
 
   if (!fs.existsSync(rawDataPath)) {
-    console.error('Raw data file not found. Run "pnpm run fetch-data" first.');
-    process.exit(1);
+    throw new Error('Raw data file not found. Run "pnpm run fetch-data" first.');
   }
 
   const rawData: RawSchoolData[] = JSON.parse(fs.readFileSync(rawDataPath, 'utf-8'));
@@ -343,7 +539,10 @@ async function main() {
     'other': 0,
   };
 
+  const qualityResponses = createDataQualityResponses();
+
   for (const raw of rawData) {
+    validateRawSchoolData(raw, qualityResponses);
     const school = processSchoolData(raw);
     schools.push(school);
     categoryCount[school.category]++;
@@ -361,9 +560,64 @@ async function main() {
   const withGymnasium = schools.filter(s => s.statistics.programs.length > 0).length;
   const totalPrograms = schools.reduce((sum, s) => sum + s.statistics.programs.length, 0);
 
+  const unresolvedMunicipality = schools.filter(s => s.municipalityCode === null).length;
+
   console.log(`\nSchools with grade 9 merit data: ${withMerit}`);
   console.log(`Schools with grade 6 data: ${withGrade6}`);
   console.log(`Schools with gymnasium data: ${withGymnasium} (${totalPrograms} programs total)`);
+  console.log(`Schools without a resolvable kommun code: ${unresolvedMunicipality}`);
+
+  // Compare coverage with the previous output before overwriting it
+  const outputPath = path.join(options.dataDir, 'schools.json');
+  let previousData: SchoolData | null = null;
+  if (fs.existsSync(outputPath)) {
+    previousData = JSON.parse(fs.readFileSync(outputPath, 'utf-8'));
+  }
+  const previousMetadata = previousData?.metadata ?? null;
+
+  const coverageChecks = checkCoverage(previousMetadata, {
+    totalSchools: schools.length,
+    withMeritData: withMerit,
+    withGrade6Data: withGrade6,
+    withGymnasiumData: withGymnasium,
+  }, options.maxCoverageDrop);
+
+  const report: DataQualityReport = {
+    generatedAt: new Date().toISOString(),
+    totalRecords: rawData.length,
+    responses: qualityResponses,
+    coverage: {
+      maxDrop: options.maxCoverageDrop,
+      previousProcessedAt: previousMetadata?.processedAt ?? null,
+      checks: coverageChecks,
+    },
+  };
+
+  const reportPath = path.join(options.dataDir, 'raw/data-quality-report.json');
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+
+  console.log('\nData quality:');
+  for (const [type, quality] of Object.entries(qualityResponses)) {
+    console.log(
+      `  ${type}: ${quality.validated} validated, ` +
+      `${countEntries(quality.unknownFields)} unknown fields, ` +
+      `${countEntries(quality.typeMismatches)} type mismatches, ` +
+      `${countEntries(quality.unparseableValues)} fields with unparseable values`
+    );
+  }
+  console.log(`  Report saved to ${reportPath}`);
+
+  const failedChecks = coverageChecks.filter(c => c.failed);
+  if (failedChecks.length > 0) {
+    console.error(`\nCoverage dropped by more than ${(options.maxCoverageDrop * 100).toFixed(0)}% compared to the previous schools.json:`);
+    for (const check of failedChecks) {
+      console.error(`  ${check.metric}: ${check.previous} -> ${check.current} (${(check.change * 100).toFixed(1)}%)`);
+    }
+    if (!options.allowCoverageDrop) {
+      throw new Error('Not writing schools.json. Check the data-quality report, or rerun with --allow-coverage-drop.');
+    }
+    console.error('Continuing anyway (--allow-coverage-drop)');
+  }
 
   // Sort by category, then by merit/performance
   schools.sort((a, b) => {
@@ -379,7 +633,7 @@ async function main() {
   });
 
   // Read fetch metadata if available
-  const metadataPath = path.join(__dirname, '../src/data/raw/fetch-metadata.json');
+  const metadataPath = path.join(options.dataDir, 'raw/fetch-metadata.json');
   let fetchedAt: string | null = null;
   if (fs.existsSync(metadataPath)) {
     const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
@@ -387,7 +641,7 @@ async function main() {
   }
 
   // Output data with metadata
-  const output = {
+  const output: SchoolData = {
     metadata: {
       fetchedAt: fetchedAt || new Date().toISOString(),
       processedAt: new Date().toISOString(),
@@ -396,14 +650,38 @@ async function main() {
       withMeritData: withMerit,
       withGrade6Data: withGrade6,
       withGymnasiumData: withGymnasium,
+      benchmarks: computeBenchmarks(schools),
+      yearlyAverages: computeYearlyAverages(schools),
     },
     schools,
   };
 
-  const outputPath = path.join(__dirname, '../src/data/schools.json');
+  // Record new/closed schools relative to the previous fetch. Reprocessing the
+  // same fetch keeps the earlier comparison instead of diffing against itself.
+  let changes: DataChanges | undefined;
+  if (previousData && previousData.metadata.fetchedAt === output.metadata.fetchedAt) {
+    changes = previousData.metadata.changes;
+  } else if (previousData) {
+    const changelog = diffSchoolData(previousData, output);
+    changes = {
+      comparedWith: previousData.metadata.fetchedAt,
+      newSchoolIds: changelog.added.map(s => s.id),
+      closedSchools: changelog.removed.map(({ id, name, municipality }) => ({ id, name, municipality })),
+    };
+  }
+  if (changes) {
+    output.metadata.changes = changes;
+    console.log(`\nCompared with previous fetch: ${changes.newSchoolIds.length} new, ${changes.closedSchools.length} closed`);
+  }
+
   fs.writeFileSync(outputPath, JSON.stringify(output, null, 2));
   console.log(`\nSaved processed data to ${outputPath}`);
 
+  const merit = output.metadata.benchmarks?.meritValue;
+  if (merit) {
+    console.log(`Merit benchmarks: avg ${merit.avg}, p10 ${merit.p10}, p25 ${merit.p25}, p50 ${merit.p50}, p75 ${merit.p75}, p90 ${merit.p90}`);
+  }
+
   // Print top schools by category
   console.log('\nTop schools by category:');
   for (const cat of ['F-9', '7-9', 'F-6'] as SchoolCategory[]) {
@@ -416,4 +694,9 @@ async function main() {
   }
 }
 
-main().catch(console.error);
+if (require.main === module) {
+  main(parseArgs(process.argv.slice(2))).catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
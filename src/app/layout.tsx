@@ -6,6 +6,7 @@ import "@fontsource/geist-mono/400.css";
 import "./globals.css";
 
 export const metadata: Metadata = {
+  metadataBase: new URL('https://skolkarta.albertoprietolofkrantz.dev'),
   title: "Skolkarta - Swedish School Merit Visualizer",
   description: "Interactive map of 6,500+ Swedish schools with performance data from Skolverket. Compare grundskola merit values, grade 6 test scores, and gymnasium statistics.",
   alternates: {
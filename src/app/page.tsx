@@ -22,7 +22,11 @@ const data = schoolData as SchoolData;
 export default function Home() {
   return (
     <main className="h-screen w-full">
-      <SchoolMap schools={data.schools as School[]} dataFetchedAt={data.metadata.fetchedAt} />
+      <SchoolMap
+        schools={data.schools as School[]}
+        dataFetchedAt={data.metadata.fetchedAt}
+        dataChanges={data.metadata.changes}
+      />
     </main>
   );
 }
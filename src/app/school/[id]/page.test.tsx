@@ -0,0 +1,72 @@
+import { render, screen, within } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import SchoolPage, { generateMetadata, generateStaticParams } from './page';
+
+vi.mock('@/data/schools.json', async () => {
+  const { createSchool } = await import('@/test/fixtures');
+  return {
+    default: {
+      metadata: { fetchedAt: '2026-09-01T00:00:00Z' },
+      schools: [
+        createSchool({
+          id: 'vasa',
+          name: 'Vasaskolan',
+          coordinates: [59.33, 18.06],
+          statistics: {
+            meritValue: 251.4,
+            certifiedTeachersRatio: 82,
+            totalPupils: 450,
+            history: { meritValue: { 2023: 240, 2024: 251.4 } },
+          },
+        }),
+        createSchool({ id: 'berg', name: 'Bergsskolan', coordinates: [59.34, 18.06], statistics: { meritValue: 230 } }),
+      ],
+    },
+  };
+});
+
+// Leaflet isn't needed to test the page itself
+vi.mock('@/components/SchoolMiniMap', () => ({ default: () => null }));
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+describe('school page', () => {
+  it('is generated for every school', () => {
+    expect(generateStaticParams()).toEqual([{ id: 'vasa' }, { id: 'berg' }]);
+  });
+
+  it('describes the school for search engines', async () => {
+    const metadata = await generateMetadata(params('vasa'));
+
+    expect(metadata.title).toBe('Vasaskolan – Stockholm | Skolkarta');
+    expect(metadata.description).toBe(
+      'Kommunal grundskola f-9 i Stockholm, meritvärde 251.4, 82% behöriga lärare. Statistik från Skolverket.'
+    );
+    expect(metadata.alternates?.canonical).toBe('/school/vasa');
+  });
+
+  it('shows the key figures the school has, with charts for those with history', async () => {
+    render(await SchoolPage(params('vasa')));
+
+    expect(screen.getByRole('heading', { level: 1 }).textContent).toBe('Vasaskolan');
+    const keyFigures = screen.getByText('Nyckeltal').parentElement!;
+    expect(within(keyFigures).getByText('251.4')).toBeTruthy();
+    expect(within(keyFigures).getByText('82%')).toBeTruthy();
+    expect(within(keyFigures).queryByText('Godkänt i alla ämnen åk 9')).toBeNull();
+
+    const charts = screen.getByText('Utveckling över tid').parentElement!;
+    expect(within(charts).getAllByRole('heading', { level: 3 }).map(h => h.textContent)).toEqual(['Meritvärde åk 9']);
+  });
+
+  it('links back to the school on the map and to nearby schools', async () => {
+    render(await SchoolPage(params('vasa')));
+
+    expect(screen.getByText('Visa på kartan').closest('a')?.getAttribute('href')).toBe('/?school=vasa&map=59.3300,18.0600,15');
+    expect(screen.getByText('Bergsskolan').getAttribute('href')).toBe('/school/berg');
+  });
+
+  it('is a 404 for an unknown school', async () => {
+    await expect(SchoolPage(params('missing'))).rejects.toThrow();
+    expect(await generateMetadata(params('missing'))).toEqual({});
+  });
+});
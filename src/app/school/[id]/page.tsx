@@ -0,0 +1,248 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import {
+  HISTORY_METRIC_INFO,
+  HistoryMetric,
+  School,
+  formatDistance,
+  formatMetricValue,
+  getBenchmarkLabel,
+  getBenchmarkLevel,
+  getCategoryLabel,
+  getPerformanceColor,
+  getProgramName,
+  getTimeSeriesYears,
+} from '@/lib/types';
+import { BENCHMARKS, YEARLY_AVERAGES } from '@/lib/benchmarks';
+import { getAllSchools, getDataMetadata, getNearbySchools, getSchoolById } from '@/lib/school-data';
+import HistoryChart from '@/components/HistoryChart';
+import SchoolMiniMap from '@/components/SchoolMiniMap';
+import { ArrowLeft, MapPin } from 'lucide-react';
+
+// Every school is rendered at build time; unknown ids are a 404
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getAllSchools().map((school) => ({ id: school.id }));
+}
+
+interface SchoolPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Metrics shown as key figures and charts, in display order
+const METRICS: HistoryMetric[] = [
+  'meritValue',
+  'passRateGrade9',
+  'passRateGrade6',
+  'avgTestSwedish6',
+  'avgTestEnglish6',
+  'avgTestMath6',
+  'universityEligibilityRate',
+  'gradePoints',
+  'graduationRate',
+  'certifiedTeachersRatio',
+  'studentsPerTeacher',
+  'totalPupils',
+];
+
+// Where "higher is better" doesn't hold, a benchmark label would mislead
+const UNRANKED_METRICS = new Set<HistoryMetric>(['studentsPerTeacher', 'totalPupils']);
+
+function describeSchool(school: School): string {
+  const parts = [
+    `${school.ownership === 'municipal' ? 'Kommunal' : 'Fristående'} ${getCategoryLabel(school.category).toLowerCase()} i ${school.municipality}`,
+  ];
+  const { statistics } = school;
+  if (statistics.meritValue !== null) parts.push(`meritvärde ${statistics.meritValue.toFixed(1)}`);
+  if (statistics.universityEligibilityRate !== null) parts.push(`${statistics.universityEligibilityRate.toFixed(0)}% högskolebehöriga`);
+  if (statistics.passRateGrade6 !== null) parts.push(`${statistics.passRateGrade6.toFixed(0)}% godkända i åk 6`);
+  if (statistics.certifiedTeachersRatio !== null) parts.push(`${statistics.certifiedTeachersRatio.toFixed(0)}% behöriga lärare`);
+  return `${parts.join(', ')}. Statistik från Skolverket.`;
+}
+
+export async function generateMetadata({ params }: SchoolPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const school = getSchoolById(id);
+  if (!school) return {};
+
+  const title = `${school.name} – ${school.municipality} | Skolkarta`;
+  const description = describeSchool(school);
+
+  return {
+    title,
+    description,
+    alternates: { canonical: `/school/${school.id}` },
+    openGraph: {
+      title,
+      description,
+      type: 'website',
+      url: `/school/${school.id}`,
+      siteName: 'Skolkarta',
+      locale: 'sv_SE',
+    },
+  };
+}
+
+export default async function SchoolPage({ params }: SchoolPageProps) {
+  const { id } = await params;
+  const school = getSchoolById(id);
+  if (!school) notFound();
+
+  const { statistics } = school;
+  const nearby = getNearbySchools(school);
+  const metadata = getDataMetadata();
+
+  const keyFigures = METRICS.filter((metric) => statistics[metric] !== null);
+  const charts = METRICS.filter((metric) => getTimeSeriesYears(statistics.history[metric]).length >= 2);
+  const mapLink = `/?school=${school.id}&map=${school.coordinates[0].toFixed(4)},${school.coordinates[1].toFixed(4)},15`;
+
+  return (
+    <main className="max-w-4xl mx-auto px-4 py-8 space-y-8 print:py-0">
+      {/* Header */}
+      <header className="space-y-2">
+        <Link href={mapLink} className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-800 print:hidden">
+          <ArrowLeft className="w-4 h-4" />
+          Visa på kartan
+        </Link>
+        <h1 className="text-3xl font-semibold leading-tight">{school.name}</h1>
+        <p className="text-gray-600">
+          {getCategoryLabel(school.category)} · {school.ownership === 'municipal' ? 'Kommunal' : 'Fristående'}
+          {school.grades.length > 0 && ` · Årskurs ${school.grades[0]}–${school.grades[school.grades.length - 1]}`}
+        </p>
+        <p className="text-sm text-gray-500 flex items-center gap-1">
+          <MapPin className="w-4 h-4" />
+          {school.address.street && `${school.address.street}, ${school.address.postalCode} ${school.address.city} · `}
+          {school.municipality}
+          {school.county && `, ${school.county}`}
+        </p>
+      </header>
+
+      {/* Key figures */}
+      {keyFigures.length > 0 && (
+        <section>
+          <h2 className="text-lg font-medium mb-3">Nyckeltal</h2>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {keyFigures.map((metric) => {
+              const value = statistics[metric]!;
+              const ranked = !UNRANKED_METRICS.has(metric);
+              const level = ranked ? getBenchmarkLevel(value, BENCHMARKS[metric]) : null;
+              return (
+                <div
+                  key={metric}
+                  className="rounded-lg border-2 p-3"
+                  style={{ borderColor: level ? getPerformanceColor(level) : 'hsl(0, 0%, 90%)' }}
+                >
+                  <div className="text-xs text-gray-500">{HISTORY_METRIC_INFO[metric].label}</div>
+                  <div className="text-2xl font-bold">{formatMetricValue(metric, value)}</div>
+                  <div className="text-xs text-gray-500">
+                    {ranked && `${getBenchmarkLabel(value, BENCHMARKS[metric])} · `}
+                    Rikssnitt {formatMetricValue(metric, BENCHMARKS[metric].avg)}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
+      {/* History */}
+      {charts.length > 0 && (
+        <section>
+          <h2 className="text-lg font-medium mb-3">Utveckling över tid</h2>
+          <div className="grid sm:grid-cols-2 gap-4">
+            {charts.map((metric) => (
+              <div key={metric} className="rounded-lg border border-gray-100 p-3 break-inside-avoid">
+                <h3 className="text-sm font-medium mb-1">{HISTORY_METRIC_INFO[metric].label}</h3>
+                <HistoryChart
+                  series={statistics.history[metric]!}
+                  unit={HISTORY_METRIC_INFO[metric].unit}
+                  benchmark={YEARLY_AVERAGES[metric] ?? BENCHMARKS[metric].avg}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400 mt-2">Streckad linje: rikssnitt för varje år.</p>
+        </section>
+      )}
+
+      {/* Gymnasium programs */}
+      {statistics.programs.length > 0 && (
+        <section>
+          <h2 className="text-lg font-medium mb-3">Program</h2>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-3 font-medium">Program</th>
+                  <th className="py-2 px-3 font-medium text-right">Elever</th>
+                  <th className="py-2 px-3 font-medium text-right">Högskolebehörighet</th>
+                  <th className="py-2 px-3 font-medium text-right">Betygspoäng</th>
+                  <th className="py-2 px-3 font-medium text-right">Examen inom 3 år</th>
+                  <th className="py-2 pl-3 font-medium text-right">Antagning min / snitt</th>
+                </tr>
+              </thead>
+              <tbody>
+                {statistics.programs.map((program) => (
+                  <tr key={program.code} className="border-b border-gray-100">
+                    <td className="py-2 pr-3">
+                      {getProgramName(program.code)}
+                      <span className="text-xs text-gray-400 ml-1">{program.code}</span>
+                    </td>
+                    <td className="py-2 px-3 text-right">{program.totalPupils ?? '–'}</td>
+                    <td className="py-2 px-3 text-right">
+                      {program.universityEligibilityRate !== null ? `${program.universityEligibilityRate.toFixed(0)}%` : '–'}
+                    </td>
+                    <td className="py-2 px-3 text-right">{program.gradePoints?.toFixed(1) ?? '–'}</td>
+                    <td className="py-2 px-3 text-right">
+                      {program.graduationRate !== null ? `${program.graduationRate.toFixed(0)}%` : '–'}
+                    </td>
+                    <td className="py-2 pl-3 text-right">
+                      {program.admissionPointsMin?.toFixed(0) ?? '–'} / {program.admissionPointsAvg?.toFixed(0) ?? '–'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {/* Map and nearby schools */}
+      <section className="grid sm:grid-cols-2 gap-6 break-inside-avoid">
+        <div>
+          <h2 className="text-lg font-medium mb-3">Karta</h2>
+          <SchoolMiniMap school={school} nearby={nearby.map((n) => n.school)} />
+        </div>
+        <div>
+          <h2 className="text-lg font-medium mb-3">Skolor i närheten</h2>
+          <ul className="divide-y divide-gray-100">
+            {nearby.map(({ school: other, distance }) => (
+              <li key={other.id} className="py-2 flex items-baseline justify-between gap-3">
+                <div>
+                  <Link href={`/school/${other.id}`} className="text-sm font-medium hover:underline">
+                    {other.name}
+                  </Link>
+                  <div className="text-xs text-gray-500">
+                    {getCategoryLabel(other.category)}
+                    {other.statistics.meritValue !== null && ` · meritvärde ${other.statistics.meritValue.toFixed(1)}`}
+                  </div>
+                </div>
+                <span className="text-xs text-gray-500 shrink-0">{formatDistance(distance)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </section>
+
+      <footer className="text-xs text-gray-400 border-t border-gray-100 pt-4">
+        Data från Skolverket, hämtad {new Date(metadata.fetchedAt).toLocaleDateString('sv-SE', {
+          year: 'numeric',
+          month: 'short',
+          day: 'numeric',
+        })}
+      </footer>
+    </main>
+  );
+}
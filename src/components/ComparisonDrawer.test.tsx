@@ -0,0 +1,121 @@
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { createSchool } from '@/test/fixtures';
+import { SavedLocations } from '@/lib/locations';
+import ComparisonDrawer from './ComparisonDrawer';
+
+const NO_LOCATIONS: SavedLocations = { locations: [], primaryId: null, distanceMode: 'primary' };
+
+const vasa = createSchool({
+  id: 'vasa',
+  name: 'Vasaskolan',
+  statistics: {
+    meritValue: 250,
+    studentsPerTeacher: 12,
+    certifiedTeachersRatio: 80,
+    history: { meritValue: { 2019: 240, 2020: 241, 2021: 242, 2022: 243, 2023: 244, 2024: 250 } },
+  },
+});
+const berg = createSchool({
+  id: 'berg',
+  name: 'Bergsskolan',
+  coordinates: [59.4, 18.1],
+  statistics: { meritValue: 230, studentsPerTeacher: 10, certifiedTeachersRatio: 80 },
+});
+const gymnasium = createSchool({ id: 'gy', name: 'Stadsgymnasiet', category: 'gymnasium' });
+
+function renderDrawer(schools = [vasa, berg], savedLocations = NO_LOCATIONS) {
+  const onRemove = vi.fn();
+  const onClear = vi.fn();
+  render(<ComparisonDrawer schools={schools} savedLocations={savedLocations} onRemove={onRemove} onClear={onClear} />);
+  return { onRemove, onClear };
+}
+
+// The value cells of the row with the given label, one per school
+function getRow(label: string): HTMLElement[] {
+  const row = screen.getByText(label, { exact: true }).parentElement!.parentElement!;
+  return Array.from(row.children).slice(1) as HTMLElement[];
+}
+
+const isBest = (cell: HTMLElement) => cell.className.includes('text-green-700');
+
+describe('ComparisonDrawer', () => {
+  it('renders nothing without schools', () => {
+    const { container } = render(
+      <ComparisonDrawer schools={[]} savedLocations={NO_LOCATIONS} onRemove={() => {}} onClear={() => {}} />
+    );
+    expect(container.innerHTML).toBe('');
+  });
+
+  it('highlights the best value in the direction of the row', () => {
+    renderDrawer();
+
+    expect(getRow('Meritvärde').map(isBest)).toEqual([true, false]);
+    expect(getRow('Elever per lärare').map(isBest)).toEqual([false, true]);
+  });
+
+  it('highlights nothing when the values are tied or only one school has one', () => {
+    renderDrawer();
+
+    expect(getRow('Behöriga lärare').map(isBest)).toEqual([false, false]);
+    expect(getRow('Meritvärde 2024').map(isBest)).toEqual([false, false]);
+  });
+
+  it('tells missing values apart from ones that do not apply', () => {
+    renderDrawer([vasa, gymnasium]);
+
+    const [, gymnasiumMerit] = getRow('Meritvärde');
+    expect(gymnasiumMerit.textContent).toBe('Ej aktuellt');
+    const [vasaPupils] = getRow('Elever totalt');
+    expect(vasaPupils.textContent).toBe('Saknas');
+  });
+
+  it('only shows the sections that apply to a compared school', () => {
+    renderDrawer();
+
+    expect(screen.getByText('Åk 9')).toBeTruthy();
+    expect(screen.queryByText('Gymnasium')).toBeNull();
+    expect(screen.queryByText('Program')).toBeNull();
+  });
+
+  it('lists the five most recent merit years', () => {
+    renderDrawer();
+
+    expect(screen.getByText('Meritvärde 2024')).toBeTruthy();
+    expect(screen.getByText('Meritvärde 2020')).toBeTruthy();
+    expect(screen.queryByText('Meritvärde 2019')).toBeNull();
+  });
+
+  it('adds the distance when there are saved locations', () => {
+    renderDrawer([vasa, berg], {
+      locations: [{
+        id: 'home',
+        name: 'Hem',
+        icon: 'home',
+        lat: vasa.coordinates[0],
+        lng: vasa.coordinates[1],
+        address: null,
+        included: true,
+        weight: 1,
+      }],
+      primaryId: 'home',
+      distanceMode: 'primary',
+    });
+
+    expect(getRow('Avstånd').map(isBest)).toEqual([true, false]);
+  });
+
+  it('removes a school, clears and collapses', () => {
+    const { onRemove, onClear } = renderDrawer();
+
+    const bergColumn = screen.getByText('Bergsskolan').parentElement!;
+    fireEvent.click(within(bergColumn).getByTitle('Ta bort från jämförelsen'));
+    expect(onRemove).toHaveBeenCalledWith('berg');
+
+    fireEvent.click(screen.getByText('Rensa'));
+    expect(onClear).toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText(/Jämför skolor \(2\/4\)/));
+    expect(screen.queryByText('Meritvärde')).toBeNull();
+  });
+});
@@ -0,0 +1,334 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  School,
+  formatDistance,
+  getCategoryLabel,
+  getProgramName,
+  getTimeSeriesYears,
+} from '@/lib/types';
+import { GYMNASIUM_BENCHMARKS, TEST_BENCHMARKS, getTestPerformanceLabel } from '@/lib/benchmarks';
+import { SavedLocations, getCombinedDistance, hasCombinedDistance } from '@/lib/locations';
+import { ChevronDown, ChevronUp, Columns3, X } from 'lucide-react';
+
+export const MAX_COMPARED_SCHOOLS = 4;
+
+const MERIT_HISTORY_YEARS = 5;
+
+interface ComparisonRow {
+  label: string;
+  hint?: string; // benchmark or unit shown under the label
+  applies: (school: School) => boolean; // false renders "not applicable" rather than "missing"
+  getValue: (school: School) => number | null;
+  format: (value: number) => string;
+  better?: 'higher' | 'lower'; // rows without a direction get no highlight
+  describe?: (value: number) => string; // small text under the value
+}
+
+interface ComparisonSection {
+  title: string;
+  rows: ComparisonRow[];
+}
+
+const hasGrade9 = (school: School) => school.category === 'F-9' || school.category === '7-9';
+const hasGrade6 = (school: School) => school.category === 'F-6' || school.category === 'F-9';
+const isGymnasium = (school: School) => school.category === 'gymnasium';
+const always = () => true;
+
+const percent = (value: number) => `${value.toFixed(0)}%`;
+const decimal = (value: number) => value.toFixed(1);
+
+function buildSections(schools: School[], savedLocations: SavedLocations): ComparisonSection[] {
+  // Merit history uses the most recent years any of the compared schools report
+  const meritYears = [...new Set(
+    schools.filter(hasGrade9).flatMap(s => getTimeSeriesYears(s.statistics.history.meritValue))
+  )].sort((a, b) => b.localeCompare(a)).slice(0, MERIT_HISTORY_YEARS);
+
+  const sections: ComparisonSection[] = [
+    {
+      title: 'Åk 9',
+      rows: [
+        {
+          label: 'Meritvärde',
+          hint: 'Senaste året',
+          applies: hasGrade9,
+          getValue: s => s.statistics.meritValue,
+          format: decimal,
+          better: 'higher',
+        },
+        ...meritYears.map((year): ComparisonRow => ({
+          label: `Meritvärde ${year}`,
+          applies: hasGrade9,
+          getValue: s => s.statistics.history.meritValue?.[year] ?? null,
+          format: decimal,
+          better: 'higher',
+        })),
+        {
+          label: 'Godkänt i alla ämnen',
+          applies: hasGrade9,
+          getValue: s => s.statistics.passRateGrade9,
+          format: percent,
+          better: 'higher',
+        },
+      ],
+    },
+    {
+      title: 'Åk 6',
+      rows: [
+        {
+          label: 'Godkänt i alla ämnen',
+          applies: hasGrade6,
+          getValue: s => s.statistics.passRateGrade6,
+          format: percent,
+          better: 'higher',
+        },
+        {
+          label: 'Nationellt prov svenska',
+          hint: `Snitt ${TEST_BENCHMARKS.swedish.avg}`,
+          applies: hasGrade6,
+          getValue: s => s.statistics.avgTestSwedish6,
+          format: decimal,
+          better: 'higher',
+          describe: value => getTestPerformanceLabel(value, 'swedish'),
+        },
+        {
+          label: 'Nationellt prov engelska',
+          hint: `Snitt ${TEST_BENCHMARKS.english.avg}`,
+          applies: hasGrade6,
+          getValue: s => s.statistics.avgTestEnglish6,
+          format: decimal,
+          better: 'higher',
+          describe: value => getTestPerformanceLabel(value, 'english'),
+        },
+        {
+          label: 'Nationellt prov matematik',
+          hint: `Snitt ${TEST_BENCHMARKS.math.avg}`,
+          applies: hasGrade6,
+          getValue: s => s.statistics.avgTestMath6,
+          format: decimal,
+          better: 'higher',
+          describe: value => getTestPerformanceLabel(value, 'math'),
+        },
+      ],
+    },
+    {
+      title: 'Gymnasium',
+      rows: [
+        {
+          label: 'Högskolebehörighet',
+          hint: `Snitt ${GYMNASIUM_BENCHMARKS.universityEligibilityRate.avg}%`,
+          applies: isGymnasium,
+          getValue: s => s.statistics.universityEligibilityRate,
+          format: percent,
+          better: 'higher',
+        },
+        {
+          label: 'Betygspoäng',
+          hint: `Snitt ${GYMNASIUM_BENCHMARKS.gradePoints.avg}`,
+          applies: isGymnasium,
+          getValue: s => s.statistics.gradePoints,
+          format: decimal,
+          better: 'higher',
+        },
+        {
+          label: 'Examen inom 3 år',
+          hint: `Snitt ${GYMNASIUM_BENCHMARKS.graduationRate.avg}%`,
+          applies: isGymnasium,
+          getValue: s => s.statistics.graduationRate,
+          format: percent,
+          better: 'higher',
+        },
+      ],
+    },
+    {
+      title: 'Skolan',
+      rows: [
+        {
+          label: 'Behöriga lärare',
+          applies: always,
+          getValue: s => s.statistics.certifiedTeachersRatio,
+          format: percent,
+          better: 'higher',
+        },
+        {
+          label: 'Elever per lärare',
+          applies: always,
+          getValue: s => s.statistics.studentsPerTeacher,
+          format: decimal,
+          better: 'lower',
+        },
+        {
+          label: 'Elever totalt',
+          applies: always,
+          getValue: s => s.statistics.totalPupils,
+          format: value => value.toFixed(0),
+        },
+      ],
+    },
+  ];
+
+  if (savedLocations.locations.length > 0) {
+    sections[sections.length - 1].rows.push({
+      label: hasCombinedDistance(savedLocations) ? 'Kombinerat avstånd' : 'Avstånd',
+      applies: always,
+      getValue: s => getCombinedDistance(savedLocations, s.coordinates),
+      format: formatDistance,
+      better: 'lower',
+    });
+  }
+
+  // Hide sections that apply to none of the compared schools
+  return sections.filter(section => section.rows.some(row => schools.some(row.applies)));
+}
+
+// Indexes holding the best value of a row; needs at least two values to compare
+function getBestIndexes(values: (number | null)[], better: 'higher' | 'lower' | undefined): Set<number> {
+  const present = values.filter((v): v is number => v !== null);
+  if (!better || present.length < 2) return new Set();
+
+  const best = better === 'higher' ? Math.max(...present) : Math.min(...present);
+  if (present.every(v => v === best)) return new Set();
+  return new Set(values.flatMap((v, i) => (v === best ? [i] : [])));
+}
+
+interface ComparisonDrawerProps {
+  schools: School[];
+  savedLocations: SavedLocations;
+  onRemove: (schoolId: string) => void;
+  onClear: () => void;
+}
+
+export default function ComparisonDrawer({ schools, savedLocations, onRemove, onClear }: ComparisonDrawerProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const sections = useMemo(() => buildSections(schools, savedLocations), [schools, savedLocations]);
+  const showPrograms = schools.some(isGymnasium);
+
+  if (schools.length === 0) return null;
+
+  const gridStyle = { gridTemplateColumns: `10rem repeat(${schools.length}, minmax(8rem, 1fr))` };
+
+  return (
+    <div className="absolute bottom-12 left-1/2 -translate-x-1/2 w-[min(56rem,calc(100%-2rem))] bg-white rounded-lg shadow-card z-[1000] overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-2 text-sm font-medium"
+        >
+          <Columns3 className="w-4 h-4 text-gray-500" />
+          Jämför skolor ({schools.length}/{MAX_COMPARED_SCHOOLS})
+          {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+        </button>
+        <button onClick={onClear} className="text-xs text-red-600 hover:text-red-800">
+          Rensa
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="max-h-[50vh] overflow-auto text-xs">
+          {/* School columns */}
+          <div className="grid sticky top-0 bg-white border-b border-gray-100" style={gridStyle}>
+            <div />
+            {schools.map(school => (
+              <div key={school.id} className="p-2">
+                <div className="flex items-start justify-between gap-1">
+                  <span className="font-semibold text-sm leading-tight">{school.name}</span>
+                  <button
+                    onClick={() => onRemove(school.id)}
+                    className="text-gray-400 hover:text-gray-600 shrink-0"
+                    title="Ta bort från jämförelsen"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                <p className="text-gray-500 mt-0.5">
+                  {getCategoryLabel(school.category)} · {school.ownership === 'municipal' ? 'Kommunal' : 'Fristående'}
+                </p>
+                <p className="text-gray-400">{school.municipality}</p>
+              </div>
+            ))}
+          </div>
+
+          {sections.map(section => (
+            <div key={section.title}>
+              <div className="px-2 pt-3 pb-1 font-medium text-gray-600">{section.title}</div>
+              {section.rows.map(row => {
+                const values = schools.map(s => (row.applies(s) ? row.getValue(s) : null));
+                const best = getBestIndexes(values, row.better);
+
+                return (
+                  <div key={row.label} className="grid border-t border-gray-50" style={gridStyle}>
+                    <div className="p-2">
+                      <div className="text-gray-700">{row.label}</div>
+                      {row.hint && <div className="text-[10px] text-gray-400">{row.hint}</div>}
+                    </div>
+                    {schools.map((school, i) => {
+                      const value = values[i];
+                      if (!row.applies(school)) {
+                        return (
+                          <div key={school.id} className="p-2 text-gray-300" title="Gäller inte för skoltypen">
+                            Ej aktuellt
+                          </div>
+                        );
+                      }
+                      if (value === null) {
+                        return (
+                          <div key={school.id} className="p-2 text-gray-400 italic">
+                            Saknas
+                          </div>
+                        );
+                      }
+                      return (
+                        <div
+                          key={school.id}
+                          className={`p-2 ${best.has(i) ? 'bg-green-50 text-green-700 font-semibold' : ''}`}
+                        >
+                          {row.format(value)}
+                          {row.describe && (
+                            <div className="text-[10px] font-normal opacity-80">{row.describe(value)}</div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+
+          {/* Gymnasium programs */}
+          {showPrograms && (
+            <div className="grid border-t border-gray-100" style={gridStyle}>
+              <div className="p-2">
+                <div className="text-gray-700">Program</div>
+                <div className="text-[10px] text-gray-400">Behörighet · intagningspoäng</div>
+              </div>
+              {schools.map(school => (
+                <div key={school.id} className="p-2 space-y-1">
+                  {!isGymnasium(school) ? (
+                    <span className="text-gray-300">Ej aktuellt</span>
+                  ) : school.statistics.programs.length === 0 ? (
+                    <span className="text-gray-400 italic">Saknas</span>
+                  ) : (
+                    school.statistics.programs.map(program => (
+                      <div key={program.code} className="bg-gray-50 px-1.5 py-1 rounded">
+                        <div className="font-medium">{getProgramName(program.code)}</div>
+                        <div className="text-gray-500">
+                          {program.universityEligibilityRate !== null ? percent(program.universityEligibilityRate) : '-'}
+                          {' · '}
+                          {program.admissionPointsAvg !== null ? `${program.admissionPointsAvg.toFixed(0)}p` : '-'}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
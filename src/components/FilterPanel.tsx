@@ -1,28 +1,59 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useMemo } from 'react';
 import { School, SchoolCategory, getCategoryColor } from '@/lib/types';
-import { Search, Home, X, ChevronDown, ChevronUp, MapPin, Palette } from 'lucide-react';
-import AddressSearch from './AddressSearch';
+import { ADMISSION_POINTS_LIMIT, ALL_CATEGORIES, SchoolFilters } from '@/lib/filters';
+import { getProgramOptions } from '@/lib/admission';
+import { Isochrone, TRAVEL_MINUTES_LIMITS, TRAVEL_MODES, getTravelModeLabel } from '@/lib/routing';
+import { ShortlistStatus } from '@/lib/shortlist';
+import { SavedLocations, hasCombinedDistance } from '@/lib/locations';
+import { SavedLocationsActions } from '@/lib/use-saved-locations';
+import { ScoreWeights } from '@/lib/score';
+import { createQueryVocabulary } from '@/lib/search-query';
+import { CHOROPLETH_METRICS, ChoroplethMetric, getChoroplethMetricLabel } from '@/lib/municipality-stats';
+import {
+  DEFAULT_HEATMAP_SETTINGS,
+  HEATMAP_METRICS,
+  HEATMAP_RADIUS_LIMITS,
+  HeatmapMetric,
+  HeatmapSettings,
+  getHeatmapMetricLabel,
+} from '@/lib/heatmap';
+import { ChevronDown, ChevronUp, Palette, Star } from 'lucide-react';
+import SavedLocationsEditor from './SavedLocationsEditor';
+import QuerySearchBox from './QuerySearchBox';
+import ScoreWeightsEditor from './ScoreWeightsEditor';
 
-type ColorMode = 'performance' | 'category';
+type ColorMode = 'performance' | 'category' | 'score' | 'admission';
 
 interface FilterPanelProps {
   schools: School[];
-  onFilter: (schools: School[]) => void;
-  homePosition: { lat: number; lng: number } | null;
-  isSettingHome: boolean;
-  onSetHomeClick: () => void;
-  onClearHome: () => void;
-  onHomePositionChange: (lat: number, lng: number, displayName?: string) => void;
-  sortBy: 'merit' | 'distance';
-  onSortChange: (sort: 'merit' | 'distance') => void;
+  filters: SchoolFilters;
+  onFiltersChange: (filters: SchoolFilters) => void;
+  filteredCount: number;
+  savedLocations: SavedLocations;
+  locationActions: SavedLocationsActions;
+  isAddingLocation: boolean;
+  onAddLocationClick: () => void;
+  onLocationSearchSelect: (lat: number, lng: number, displayName: string) => void;
+  isochrone: Isochrone | null; // the loaded travel time area
   colorMode: ColorMode;
   onColorModeChange: (mode: ColorMode) => void;
+  scoreWeights: ScoreWeights;
+  onScoreWeightsChange: (weights: ScoreWeights) => void;
+  clusterMarkers: boolean;
+  onClusterMarkersChange: (cluster: boolean) => void;
+  choroplethMetric: ChoroplethMetric | null;
+  onChoroplethMetricChange: (metric: ChoroplethMetric | null) => void;
+  choroplethError: string | null; // why the shading can't be shown
+  heatmap: HeatmapSettings | null;
+  onHeatmapChange: (settings: HeatmapSettings | null) => void;
+  shortlistStatuses: Record<string, ShortlistStatus>;
+  isShortlistOpen: boolean;
+  onShortlistToggle: () => void;
+  onSelectSchool: (school: School) => void; // a school picked from the search results
 }
 
-const ALL_CATEGORIES: SchoolCategory[] = ['F-6', 'F-9', '7-9', 'gymnasium', 'anpassad', 'other'];
-
 const CATEGORY_SHORT_LABELS: Record<SchoolCategory, string> = {
   'F-6': 'F-6',
   'F-9': 'F-9',
@@ -34,118 +65,93 @@ const CATEGORY_SHORT_LABELS: Record<SchoolCategory, string> = {
 
 export default function FilterPanel({
   schools,
-  onFilter,
-  homePosition,
-  isSettingHome,
-  onSetHomeClick,
-  onClearHome,
-  onHomePositionChange,
-  sortBy,
-  onSortChange,
+  filters,
+  onFiltersChange,
+  filteredCount,
+  savedLocations,
+  locationActions,
+  isAddingLocation,
+  onAddLocationClick,
+  onLocationSearchSelect,
+  isochrone,
   colorMode,
   onColorModeChange,
+  scoreWeights,
+  onScoreWeightsChange,
+  clusterMarkers,
+  onClusterMarkersChange,
+  choroplethMetric,
+  onChoroplethMetricChange,
+  choroplethError,
+  heatmap,
+  onHeatmapChange,
+  shortlistStatuses,
+  isShortlistOpen,
+  onShortlistToggle,
+  onSelectSchool,
 }: FilterPanelProps) {
-  const [homeDisplayName, setHomeDisplayName] = useState<string | null>(null);
   const [isExpanded, setIsExpanded] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedMunicipality, setSelectedMunicipality] = useState<string>('all');
-  const [selectedOwnership, setSelectedOwnership] = useState<'all' | 'municipal' | 'independent'>('all');
-  const [selectedCategories, setSelectedCategories] = useState<Set<SchoolCategory>>(new Set(ALL_CATEGORIES));
-  const [meritRange, setMeritRange] = useState<[number, number]>([0, 340]);
+  const [showScoreWeights, setShowScoreWeights] = useState(false);
+  const shortlistCount = Object.keys(shortlistStatuses).length;
 
-  // Get unique municipalities
-  const municipalities = useMemo(() => {
-    const unique = [...new Set(schools.map((s) => s.municipality))].sort();
-    return unique;
+  // Get unique counties
+  const counties = useMemo(() => {
+    const unique = [...new Set(schools.map((s) => s.county).filter((c): c is string => c !== null))];
+    return unique.sort((a, b) => a.localeCompare(b, 'sv'));
   }, [schools]);
 
-  // Filter schools based on criteria
-  useEffect(() => {
-    let filtered = schools;
-
-    // Search filter
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        (s) =>
-          s.name.toLowerCase().includes(query) ||
-          s.municipality.toLowerCase().includes(query) ||
-          s.address.city.toLowerCase().includes(query)
-      );
-    }
-
-    // Municipality filter
-    if (selectedMunicipality !== 'all') {
-      filtered = filtered.filter((s) => s.municipality === selectedMunicipality);
-    }
-
-    // Ownership filter
-    if (selectedOwnership !== 'all') {
-      filtered = filtered.filter((s) => s.ownership === selectedOwnership);
-    }
-
-    // Category filter
-    filtered = filtered.filter((s) => selectedCategories.has(s.category));
-
-    // Merit/performance range filter (only apply to schools with grade 9 data)
-    filtered = filtered.filter((s) => {
-      // For F-9 and 7-9 schools, filter by merit range
-      if (s.category === 'F-9' || s.category === '7-9') {
-        const merit = s.statistics.meritValue;
-        if (merit === null) return true; // Show schools without data
-        return merit >= meritRange[0] && merit <= meritRange[1];
-      }
-      // For other categories, always show
-      return true;
-    });
-
-    onFilter(filtered);
-  }, [schools, searchQuery, selectedMunicipality, selectedOwnership, selectedCategories, meritRange, onFilter]);
+  // Get unique municipalities, limited to the selected county
+  const municipalities = useMemo(() => {
+    const inCounty = filters.county === 'all'
+      ? schools
+      : schools.filter((s) => s.county === filters.county);
+    const unique = [...new Set(inCounty.map((s) => s.municipality))];
+    return unique.sort((a, b) => a.localeCompare(b, 'sv'));
+  }, [schools, filters.county]);
 
-  const filteredCount = useMemo(() => {
-    let filtered = schools;
+  const programOptions = useMemo(() => getProgramOptions(schools), [schools]);
 
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        (s) =>
-          s.name.toLowerCase().includes(query) ||
-          s.municipality.toLowerCase().includes(query)
-      );
-    }
+  const updateFilters = (changes: Partial<SchoolFilters>) => {
+    onFiltersChange({ ...filters, ...changes });
+  };
 
-    if (selectedMunicipality !== 'all') {
-      filtered = filtered.filter((s) => s.municipality === selectedMunicipality);
-    }
+  const queryVocabulary = useMemo(() => createQueryVocabulary(schools), [schools]);
 
-    if (selectedOwnership !== 'all') {
-      filtered = filtered.filter((s) => s.ownership === selectedOwnership);
-    }
+  // Picking a program switches the map to admission colors, clearing them switches back
+  const updateColorModeForPrograms = (programs: string[]) => {
+    if (programs.length > 0 && filters.programs.length === 0) onColorModeChange('admission');
+    if (programs.length === 0 && colorMode === 'admission') onColorModeChange('category');
+  };
 
-    filtered = filtered.filter((s) => selectedCategories.has(s.category));
+  const toggleProgram = (family: string) => {
+    const programs = filters.programs.includes(family)
+      ? filters.programs.filter(p => p !== family)
+      : [...filters.programs, family];
+    updateFilters({ programs });
+    updateColorModeForPrograms(programs);
+  };
 
-    filtered = filtered.filter((s) => {
-      if (s.category === 'F-9' || s.category === '7-9') {
-        const merit = s.statistics.meritValue;
-        if (merit === null) return true;
-        return merit >= meritRange[0] && merit <= meritRange[1];
-      }
-      return true;
-    });
+  // Passed on as is, so the search box recognizes its own filters
+  const handleQueryChange = (next: SchoolFilters) => {
+    onFiltersChange(next);
+    updateColorModeForPrograms(next.programs);
+  };
 
-    return filtered.length;
-  }, [schools, searchQuery, selectedMunicipality, selectedOwnership, selectedCategories, meritRange]);
+  const handleCountyChange = (county: string) => {
+    updateFilters({ county, municipality: 'all' });
+  };
 
   const toggleCategory = (cat: SchoolCategory) => {
-    const newCategories = new Set(selectedCategories);
-    if (newCategories.has(cat)) {
-      newCategories.delete(cat);
-    } else {
-      newCategories.add(cat);
-    }
-    setSelectedCategories(newCategories);
+    const categories = filters.categories.includes(cat)
+      ? filters.categories.filter((c) => c !== cat)
+      : [...filters.categories, cat];
+    updateFilters({ categories });
   };
 
+  const { meritRange } = filters;
+  // A weighted sum adds up several trips, so it needs a longer scale
+  const maxDistanceLimit = hasCombinedDistance(savedLocations) && savedLocations.distanceMode === 'sum' ? 100 : 30;
+
   return (
     <div className="absolute top-4 left-4 bg-white rounded-lg shadow-soft z-[1000] w-72">
       {/* Header */}
@@ -168,60 +174,134 @@ export default function FilterPanel({
 
       {isExpanded && (
         <div className="p-3 pt-0 space-y-4 border-t border-gray-100">
-          {/* Home Location */}
+          {/* Saved locations */}
           <div>
             <label className="text-xs font-medium text-gray-600 mb-1.5 block">
-              Home Location
+              Locations
             </label>
-            {homePosition ? (
-              <div className="space-y-2">
-                <div className="flex items-center gap-2">
-                  <div className="flex-1 text-sm text-gray-700 flex items-center gap-1.5">
-                    <MapPin className="w-4 h-4 text-gray-400" />
-                    <span className="truncate">
-                      {homeDisplayName || `${homePosition.lat.toFixed(4)}, ${homePosition.lng.toFixed(4)}`}
-                    </span>
-                  </div>
-                  <button
-                    onClick={() => {
-                      onClearHome();
-                      setHomeDisplayName(null);
-                    }}
-                    className="p-1 text-gray-400 hover:text-red-500"
-                    title="Remove home"
-                  >
-                    <X className="w-4 h-4" />
-                  </button>
-                </div>
-                <p className="text-xs text-gray-400">Drag marker on map to adjust</p>
-              </div>
-            ) : (
-              <div className="space-y-2">
-                <AddressSearch
-                  placeholder="Search address in Sweden..."
-                  onLocationSelect={(lat, lng, displayName) => {
-                    onHomePositionChange(lat, lng, displayName);
-                    setHomeDisplayName(displayName);
-                  }}
-                />
-                <div className="flex items-center gap-2">
-                  <div className="flex-1 h-px bg-gray-200" />
-                  <span className="text-xs text-gray-400">or</span>
-                  <div className="flex-1 h-px bg-gray-200" />
-                </div>
+            <SavedLocationsEditor
+              saved={savedLocations}
+              actions={locationActions}
+              isAddingOnMap={isAddingLocation}
+              onAddOnMapClick={onAddLocationClick}
+              onAddressSelect={onLocationSearchSelect}
+            />
+          </div>
+
+          {/* Distance */}
+          {savedLocations.locations.length > 0 && (
+            <div>
+              <label className="text-xs font-medium text-gray-600 mb-1.5 block">
+                Max {hasCombinedDistance(savedLocations) ? 'combined distance' : 'distance'}:{' '}
+                {filters.maxDistance === null ? 'Any' : `${filters.maxDistance} km`}
+              </label>
+              <input
+                type="range"
+                min="1"
+                max={maxDistanceLimit + 1}
+                value={filters.maxDistance ?? maxDistanceLimit + 1}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value);
+                  // The far end of the slider means no limit
+                  updateFilters({ maxDistance: value > maxDistanceLimit ? null : value });
+                }}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+          )}
+
+          {/* Travel time from the primary location */}
+          {savedLocations.locations.length > 0 && (
+            <div>
+              <label className="text-xs font-medium text-gray-600 mb-1.5 block">
+                Travel time from primary location:{' '}
+                {filters.travelTime === null ? 'Any' : `${filters.travelTime.minutes} min`}
+              </label>
+              <div className="flex gap-1">
                 <button
-                  onClick={onSetHomeClick}
-                  className={`w-full flex items-center justify-center gap-2 py-2 px-3 rounded-md text-sm transition-colors ${
-                    isSettingHome
+                  onClick={() => updateFilters({ travelTime: null })}
+                  className={`flex-1 py-1 px-1.5 text-xs rounded-md transition-colors ${
+                    filters.travelTime === null
                       ? 'bg-primary text-primary-foreground'
                       : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
                   }`}
                 >
-                  <Home className="w-4 h-4" />
-                  {isSettingHome ? 'Click on map...' : 'Click on Map'}
+                  Any
                 </button>
+                {TRAVEL_MODES.map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => updateFilters({ travelTime: { mode, minutes: filters.travelTime?.minutes ?? 15 } })}
+                    className={`flex-1 py-1 px-1.5 text-xs rounded-md transition-colors ${
+                      filters.travelTime?.mode === mode
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                    }`}
+                  >
+                    {getTravelModeLabel(mode)}
+                  </button>
+                ))}
               </div>
-            )}
+              {filters.travelTime && (
+                <>
+                  <input
+                    type="range"
+                    min={TRAVEL_MINUTES_LIMITS[0]}
+                    max={TRAVEL_MINUTES_LIMITS[1]}
+                    step={5}
+                    value={filters.travelTime.minutes}
+                    onChange={(e) => updateFilters({
+                      travelTime: { ...filters.travelTime!, minutes: parseInt(e.target.value) },
+                    })}
+                    className="mt-2 w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                  />
+                  {isochrone?.fallbackFrom ? (
+                    <p className="text-xs text-red-500">
+                      {isochrone.fallbackFrom.toUpperCase()} routing failed, estimated from typical speeds and detours
+                    </p>
+                  ) : (
+                    <p className="text-xs text-gray-400">
+                      {isochrone === null
+                        ? 'Calculating area...'
+                        : isochrone.source === 'offline'
+                          ? 'Estimated from typical speeds and detours'
+                          : `Routed with ${isochrone.source.toUpperCase()}`}
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Shortlist */}
+          <div>
+            <label className="text-xs font-medium text-gray-600 mb-1.5 block">
+              Shortlist
+            </label>
+            <div className="flex gap-2">
+              <button
+                onClick={() => updateFilters({ onlyShortlisted: !filters.onlyShortlisted })}
+                disabled={shortlistCount === 0 && !filters.onlyShortlisted}
+                className={`flex-1 py-1.5 px-2 text-xs rounded-md transition-colors flex items-center justify-center gap-1 disabled:opacity-50 ${
+                  filters.onlyShortlisted
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                }`}
+              >
+                <Star className="w-3 h-3" />
+                Only shortlisted ({shortlistCount})
+              </button>
+              <button
+                onClick={onShortlistToggle}
+                className={`py-1.5 px-2 text-xs rounded-md transition-colors ${
+                  isShortlistOpen
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                }`}
+              >
+                {isShortlistOpen ? 'Hide list' : 'Show list'}
+              </button>
+            </div>
           </div>
 
           {/* Search */}
@@ -229,34 +309,41 @@ export default function FilterPanel({
             <label className="text-xs font-medium text-gray-600 mb-1.5 block">
               Search
             </label>
-            <div className="relative">
-              <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
-              <input
-                type="text"
-                placeholder="School name or area..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="w-full pl-8 pr-3 py-2 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-200"
-              />
-              {searchQuery && (
-                <button
-                  onClick={() => setSearchQuery('')}
-                  className="absolute right-2.5 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                >
-                  <X className="w-4 h-4" />
-                </button>
-              )}
-            </div>
+            <QuerySearchBox
+              schools={schools}
+              filters={filters}
+              onFiltersChange={handleQueryChange}
+              vocabulary={queryVocabulary}
+              onSelectSchool={onSelectSchool}
+            />
+          </div>
+
+          {/* County & Municipality */}
+          <div>
+            <label className="text-xs font-medium text-gray-600 mb-1.5 block">
+              County
+            </label>
+            <select
+              value={filters.county}
+              onChange={(e) => handleCountyChange(e.target.value)}
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-200 bg-white"
+            >
+              <option value="all">All counties</option>
+              {counties.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
           </div>
 
-          {/* Municipality */}
           <div>
             <label className="text-xs font-medium text-gray-600 mb-1.5 block">
               Municipality
             </label>
             <select
-              value={selectedMunicipality}
-              onChange={(e) => setSelectedMunicipality(e.target.value)}
+              value={filters.municipality}
+              onChange={(e) => updateFilters({ municipality: e.target.value })}
               className="w-full px-3 py-2 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-200 bg-white"
             >
               <option value="all">All municipalities</option>
@@ -279,7 +366,7 @@ export default function FilterPanel({
                   key={cat}
                   onClick={() => toggleCategory(cat)}
                   className={`py-1 px-2 text-xs rounded-md transition-colors flex items-center gap-1 ${
-                    selectedCategories.has(cat)
+                    filters.categories.includes(cat)
                       ? 'bg-gray-800 text-white'
                       : 'bg-gray-100 text-gray-400 hover:bg-gray-200'
                   }`}
@@ -303,9 +390,9 @@ export default function FilterPanel({
               {(['all', 'municipal', 'independent'] as const).map((type) => (
                 <button
                   key={type}
-                  onClick={() => setSelectedOwnership(type)}
+                  onClick={() => updateFilters({ ownership: type })}
                   className={`flex-1 py-1.5 px-2 text-xs rounded-md transition-colors ${
-                    selectedOwnership === type
+                    filters.ownership === type
                       ? 'bg-primary text-primary-foreground'
                       : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
                   }`}
@@ -316,6 +403,49 @@ export default function FilterPanel({
             </div>
           </div>
 
+          {/* Gymnasium program finder */}
+          {programOptions.length > 0 && (
+            <div>
+              <label className="text-xs font-medium text-gray-600 mb-1.5 block">
+                Gymnasium Programs
+              </label>
+              <div className="flex flex-wrap gap-1.5">
+                {programOptions.map(option => (
+                  <button
+                    key={option.family}
+                    onClick={() => toggleProgram(option.family)}
+                    title={`${option.schoolCount} schools`}
+                    className={`py-1 px-2 text-xs rounded-md transition-colors ${
+                      filters.programs.includes(option.family)
+                        ? 'bg-gray-800 text-white'
+                        : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                    }`}
+                  >
+                    {option.name}
+                  </button>
+                ))}
+              </div>
+              {filters.programs.length > 0 && (
+                <label className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+                  Expected merit points
+                  <input
+                    type="number"
+                    min={0}
+                    max={ADMISSION_POINTS_LIMIT}
+                    value={filters.admissionPoints ?? ''}
+                    placeholder="e.g. 260"
+                    onChange={(e) => updateFilters({
+                      admissionPoints: e.target.value === ''
+                        ? null
+                        : Math.min(ADMISSION_POINTS_LIMIT, Math.max(0, Number(e.target.value))),
+                    })}
+                    className="w-20 px-2 py-1 text-xs border border-gray-200 rounded-md"
+                  />
+                </label>
+              )}
+            </div>
+          )}
+
           {/* Color Mode */}
           <div>
             <label className="text-xs font-medium text-gray-600 mb-1.5 block">
@@ -343,11 +473,125 @@ export default function FilterPanel({
               >
                 Performance
               </button>
+              <button
+                onClick={() => onColorModeChange('score')}
+                className={`flex-1 py-1.5 px-2 text-xs rounded-md transition-colors ${
+                  colorMode === 'score'
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                }`}
+              >
+                Score
+              </button>
+              {filters.programs.length > 0 && (
+                <button
+                  onClick={() => onColorModeChange('admission')}
+                  className={`flex-1 py-1.5 px-2 text-xs rounded-md transition-colors ${
+                    colorMode === 'admission'
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                  }`}
+                >
+                  Admission
+                </button>
+              )}
             </div>
+            {colorMode === 'score' || showScoreWeights ? (
+              <div className="mt-2">
+                <p className="text-xs text-gray-500 mb-1">Score weights (ranked against all schools)</p>
+                <ScoreWeightsEditor
+                  weights={scoreWeights}
+                  onChange={onScoreWeightsChange}
+                  hasLocations={savedLocations.locations.length > 0}
+                />
+              </div>
+            ) : (
+              <button
+                onClick={() => setShowScoreWeights(true)}
+                className="mt-1.5 text-xs text-gray-500 hover:text-gray-700 underline"
+              >
+                Adjust score weights
+              </button>
+            )}
+            <label className="mt-2 flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={clusterMarkers}
+                onChange={(e) => onClusterMarkersChange(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Group nearby schools
+            </label>
+            <label className="mt-1.5 flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={choroplethMetric !== null}
+                onChange={(e) => onChoroplethMetricChange(e.target.checked ? CHOROPLETH_METRICS[0] : null)}
+                className="rounded border-gray-300"
+              />
+              Shade municipalities
+            </label>
+            {choroplethMetric && (
+              <>
+                <select
+                  value={choroplethMetric}
+                  onChange={(e) => onChoroplethMetricChange(e.target.value as ChoroplethMetric)}
+                  className="mt-1.5 w-full px-3 py-2 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-200 bg-white"
+                >
+                  {CHOROPLETH_METRICS.map(metric => (
+                    <option key={metric} value={metric}>{getChoroplethMetricLabel(metric)}</option>
+                  ))}
+                </select>
+                {choroplethError && <p className="text-xs text-red-500 mt-1">{choroplethError}</p>}
+              </>
+            )}
+            <label className="mt-1.5 flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={heatmap !== null}
+                onChange={(e) => onHeatmapChange(e.target.checked ? DEFAULT_HEATMAP_SETTINGS : null)}
+                className="rounded border-gray-300"
+              />
+              School quality heatmap
+            </label>
+            {heatmap && (
+              <div className="mt-1.5 space-y-1.5">
+                <select
+                  value={heatmap.metric}
+                  onChange={(e) => onHeatmapChange({ ...heatmap, metric: e.target.value as HeatmapMetric })}
+                  className="w-full px-3 py-2 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-200 bg-white"
+                >
+                  {HEATMAP_METRICS.map(metric => (
+                    <option key={metric} value={metric}>{getHeatmapMetricLabel(metric)}</option>
+                  ))}
+                </select>
+                <label className="block text-xs text-gray-600">
+                  Walking radius: {heatmap.radiusKm} km
+                  <input
+                    type="range"
+                    min={HEATMAP_RADIUS_LIMITS[0]}
+                    max={HEATMAP_RADIUS_LIMITS[1]}
+                    step={0.5}
+                    value={heatmap.radiusKm}
+                    onChange={(e) => onHeatmapChange({ ...heatmap, radiusKm: Number(e.target.value) })}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={heatmap.weightByPupils}
+                    onChange={(e) => onHeatmapChange({ ...heatmap, weightByPupils: e.target.checked })}
+                    className="rounded border-gray-300"
+                  />
+                  Weight by number of pupils
+                </label>
+              </div>
+            )}
           </div>
 
           {/* Merit Range (for F-9 and 7-9 schools) */}
-          {(selectedCategories.has('F-9') || selectedCategories.has('7-9')) && (
+          {(filters.categories.includes('F-9') || filters.categories.includes('7-9')) && (
             <div>
               <label className="text-xs font-medium text-gray-600 mb-1.5 block">
                 Merit Range (Grade 9): {meritRange[0]} - {meritRange[1]}
@@ -359,7 +603,7 @@ export default function FilterPanel({
                   max="340"
                   value={meritRange[0]}
                   onChange={(e) =>
-                    setMeritRange([parseInt(e.target.value), meritRange[1]])
+                    updateFilters({ meritRange: [parseInt(e.target.value), meritRange[1]] })
                   }
                   className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
                 />
@@ -369,7 +613,7 @@ export default function FilterPanel({
                   max="340"
                   value={meritRange[1]}
                   onChange={(e) =>
-                    setMeritRange([meritRange[0], parseInt(e.target.value)])
+                    updateFilters({ meritRange: [meritRange[0], parseInt(e.target.value)] })
                   }
                   className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
                 />
@@ -377,36 +621,26 @@ export default function FilterPanel({
             </div>
           )}
 
-          {/* Sort */}
-          {homePosition && (
-            <div>
-              <label className="text-xs font-medium text-gray-600 mb-1.5 block">
-                Sort By
-              </label>
-              <div className="flex gap-2">
-                <button
-                  onClick={() => onSortChange('merit')}
-                  className={`flex-1 py-1.5 px-2 text-xs rounded-md transition-colors ${
-                    sortBy === 'merit'
-                      ? 'bg-primary text-primary-foreground'
-                      : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
-                  }`}
-                >
-                  Merit
-                </button>
-                <button
-                  onClick={() => onSortChange('distance')}
-                  className={`flex-1 py-1.5 px-2 text-xs rounded-md transition-colors ${
-                    sortBy === 'distance'
-                      ? 'bg-primary text-primary-foreground'
-                      : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
-                  }`}
-                >
-                  Distance
-                </button>
-              </div>
-            </div>
-          )}
+          {/* Certified teachers */}
+          <div>
+            <label className="text-xs font-medium text-gray-600 mb-1.5 block">
+              Min. certified teachers:{' '}
+              {filters.minCertifiedTeachers === null ? 'Any' : `${filters.minCertifiedTeachers}%`}
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              step="5"
+              value={filters.minCertifiedTeachers ?? 0}
+              onChange={(e) => {
+                const value = parseInt(e.target.value);
+                // The low end of the slider means no minimum
+                updateFilters({ minCertifiedTeachers: value === 0 ? null : value });
+              }}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
         </div>
       )}
     </div>
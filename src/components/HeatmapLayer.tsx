@@ -0,0 +1,151 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { School } from '@/lib/types';
+import {
+  HeatPoint,
+  HeatmapSettings,
+  getHeatmapColor,
+  getHeatmapValue,
+  getHeatmapWeight,
+  getMedianPupils,
+  interpolateGrid,
+} from '@/lib/heatmap';
+
+const PANE_NAME = 'schoolHeatmapPane';
+const CELL_SIZE = 6; // pixels per interpolated cell
+const OPACITY = 0.5;
+
+// Web Mercator ground resolution at the given latitude
+function getMetersPerPixel(lat: number, zoom: number): number {
+  return (40075016.686 * Math.cos((lat * Math.PI) / 180)) / 2 ** (zoom + 8);
+}
+
+// Interpolates the metric onto a coarse grid after every move and scales it up
+// to the map size; the browser's smoothing softens the cell edges.
+// Redrawn when the map settles rather than on every frame while panning.
+class SchoolHeatmap extends L.Layer {
+  private schools: School[] = [];
+  private settings: HeatmapSettings | null = null;
+  private scores: Record<string, number> | null = null;
+  private medianPupils = 1;
+
+  private canvas: HTMLCanvasElement | null = null;
+  private grid: HTMLCanvasElement = document.createElement('canvas');
+
+  setData(schools: School[], settings: HeatmapSettings, scores: Record<string, number> | null) {
+    this.schools = schools;
+    this.medianPupils = getMedianPupils(schools);
+    this.settings = settings;
+    this.scores = scores;
+    this.redraw();
+  }
+
+  onAdd(map: L.Map): this {
+    if (!map.getPane(PANE_NAME)) {
+      // Above the municipality shading, below the school markers
+      const pane = map.createPane(PANE_NAME);
+      pane.style.zIndex = '420';
+      pane.style.pointerEvents = 'none';
+    }
+
+    this.canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide');
+    map.getPane(PANE_NAME)!.appendChild(this.canvas);
+    map.on('moveend zoomend viewreset resize', this.redraw, this);
+
+    this.redraw();
+    return this;
+  }
+
+  onRemove(map: L.Map): this {
+    map.off('moveend zoomend viewreset resize', this.redraw, this);
+    this.canvas?.remove();
+    this.canvas = null;
+    return this;
+  }
+
+  private redraw() {
+    const map = this._map;
+    const canvas = this.canvas;
+    const settings = this.settings;
+    if (!map || !canvas || !settings) return;
+
+    const size = map.getSize();
+    canvas.width = size.x;
+    canvas.height = size.y;
+    canvas.style.width = `${size.x}px`;
+    canvas.style.height = `${size.y}px`;
+    L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, size.x, size.y);
+
+    // Zoomed far out the walking radius is below a cell; keep it at least
+    // a cell and a half so schools still show up as spots
+    const metersPerPixel = getMetersPerPixel(map.getCenter().lat, map.getZoom());
+    const radius = Math.max((settings.radiusKm * 1000) / metersPerPixel, CELL_SIZE * 1.5);
+
+    const points: HeatPoint[] = [];
+    for (const school of this.schools) {
+      const value = getHeatmapValue(school, settings.metric, this.scores);
+      if (value === null) continue;
+      const point = map.latLngToContainerPoint(school.coordinates);
+      // Schools just outside the view still color its edges
+      if (point.x < -radius || point.y < -radius || point.x > size.x + radius || point.y > size.y + radius) {
+        continue;
+      }
+      points.push({ x: point.x, y: point.y, value, weight: getHeatmapWeight(school, settings, this.medianPupils) });
+    }
+    if (points.length === 0) return;
+
+    const columns = Math.ceil(size.x / CELL_SIZE);
+    const rows = Math.ceil(size.y / CELL_SIZE);
+    const values = interpolateGrid(points, size.x, size.y, CELL_SIZE, radius);
+
+    this.grid.width = columns;
+    this.grid.height = rows;
+    const gridCtx = this.grid.getContext('2d');
+    if (!gridCtx) return;
+    gridCtx.clearRect(0, 0, columns, rows);
+    for (let i = 0; i < values.length; i++) {
+      const value = values[i];
+      if (value === null) continue;
+      gridCtx.fillStyle = getHeatmapColor(settings.metric, value);
+      gridCtx.fillRect(i % columns, Math.floor(i / columns), 1, 1);
+    }
+
+    ctx.globalAlpha = OPACITY;
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(this.grid, 0, 0, columns * CELL_SIZE, rows * CELL_SIZE);
+  }
+}
+
+interface HeatmapLayerProps {
+  schools: School[];
+  settings: HeatmapSettings;
+  scores: Record<string, number> | null; // needed for the composite score metric
+}
+
+export default function HeatmapLayer({ schools, settings, scores }: HeatmapLayerProps) {
+  const map = useMap();
+  const layerRef = useRef<SchoolHeatmap | null>(null);
+
+  useEffect(() => {
+    const layer = new SchoolHeatmap();
+    layerRef.current = layer;
+    layer.addTo(map);
+    return () => {
+      layer.remove();
+      layerRef.current = null;
+    };
+  }, [map]);
+
+  useEffect(() => {
+    layerRef.current?.setData(schools, settings, scores);
+  }, [schools, settings, scores]);
+
+  return null;
+}
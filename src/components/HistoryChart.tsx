@@ -0,0 +1,153 @@
+import { TimeSeries, getTimeSeriesYears } from '@/lib/types';
+
+interface HistoryChartProps {
+  series: TimeSeries;
+  unit?: string;
+  // National average, drawn as a dashed line: per year, or one value for all years
+  benchmark?: number | TimeSeries;
+  color?: string;
+  width?: number;
+  height?: number;
+}
+
+const PADDING = { top: 10, right: 10, bottom: 22, left: 36 };
+const TOOLTIP_HEIGHT = 16;
+
+function formatValue(value: number, unit: string): string {
+  return `${Number.isInteger(value) ? value : value.toFixed(1)}${unit}`;
+}
+
+// Small SVG line chart of one metric over the years, oldest to newest.
+// Plain SVG so it renders on the server as well as inside popups; the hover
+// tooltips are pure CSS for the same reason.
+export default function HistoryChart({
+  series,
+  unit = '',
+  benchmark,
+  color = 'hsl(210, 80%, 45%)',
+  width = 320,
+  height = 140,
+}: HistoryChartProps) {
+  const years = getTimeSeriesYears(series).reverse();
+  if (years.length === 0) return null;
+
+  const values = years.map(year => series[year]);
+  const averages = years.map(year =>
+    typeof benchmark === 'number' ? benchmark : benchmark?.[year] ?? null
+  );
+  const domain = [...values, ...averages.filter((v): v is number => v !== null)];
+  const min = Math.min(...domain);
+  const max = Math.max(...domain);
+  // Keep flat series off the chart edges
+  const margin = (max - min) * 0.1 || Math.abs(max) * 0.05 || 1;
+  const yMin = min - margin;
+  const yMax = max + margin;
+
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const x = (i: number) => PADDING.left + (years.length === 1 ? plotWidth / 2 : (i / (years.length - 1)) * plotWidth);
+  const y = (value: number) => PADDING.top + (1 - (value - yMin) / (yMax - yMin)) * plotHeight;
+
+  const path = values.map((value, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(value).toFixed(1)}`).join(' ');
+  // Years without an average break the dashed line
+  const averagePath = averages
+    .map((value, i) => value === null ? '' : `${i === 0 || averages[i - 1] === null ? 'M' : 'L'}${x(i).toFixed(1)},${y(value).toFixed(1)}`)
+    .join(' ');
+  // Label every year when few, otherwise only the first, middle and last
+  const labelled = new Set(years.length <= 5 ? years.map((_, i) => i) : [0, Math.floor((years.length - 1) / 2), years.length - 1]);
+  // Each year's hover area reaches halfway to its neighbours
+  const step = years.length === 1 ? plotWidth : plotWidth / (years.length - 1);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img">
+      {/* Y axis extremes */}
+      <text x={PADDING.left - 4} y={y(max) + 3} textAnchor="end" className="fill-gray-400 text-[9px]">
+        {formatValue(max, unit)}
+      </text>
+      <text x={PADDING.left - 4} y={y(min) + 3} textAnchor="end" className="fill-gray-400 text-[9px]">
+        {formatValue(min, unit)}
+      </text>
+      <line
+        x1={PADDING.left}
+        x2={width - PADDING.right}
+        y1={height - PADDING.bottom}
+        y2={height - PADDING.bottom}
+        className="stroke-gray-200"
+      />
+
+      {/* A single average is a flat line across the whole plot */}
+      {typeof benchmark === 'number' ? (
+        <line
+          x1={PADDING.left}
+          x2={width - PADDING.right}
+          y1={y(benchmark)}
+          y2={y(benchmark)}
+          className="stroke-gray-400"
+          strokeDasharray="4 3"
+        />
+      ) : averagePath && (
+        <path d={averagePath} fill="none" className="stroke-gray-400" strokeDasharray="4 3" />
+      )}
+
+      <path d={path} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" />
+
+      {values.map((value, i) => (
+        <circle key={years[i]} cx={x(i)} cy={y(value)} r={3.5} fill={color} stroke="white" strokeWidth={1.5} />
+      ))}
+
+      {years.map((year, i) => labelled.has(i) && (
+        <text
+          key={year}
+          x={x(i)}
+          y={height - 6}
+          textAnchor={years.length === 1 ? 'middle' : i === 0 ? 'start' : i === years.length - 1 ? 'end' : 'middle'}
+          className="fill-gray-500 text-[9px]"
+        >
+          {year}
+        </text>
+      ))}
+
+      {/* Hover areas and tooltips, after everything else so they draw on top */}
+      {values.map((value, i) => {
+        const average = averages[i];
+        const label = `${years[i]}: ${formatValue(value, unit)}${average !== null ? ` · snitt ${formatValue(average, unit)}` : ''}`;
+        // Rough width for a 9px font, clamped to the chart
+        const tooltipWidth = label.length * 5 + 10;
+        const tooltipX = Math.min(Math.max(x(i) - tooltipWidth / 2, 0), width - tooltipWidth);
+        const above = y(value) - TOOLTIP_HEIGHT - 6;
+        const tooltipY = above >= 0 ? above : y(value) + 6;
+
+        return (
+          <g key={years[i]} className="group">
+            <rect
+              x={x(i) - step / 2}
+              y={PADDING.top}
+              width={step}
+              height={plotHeight}
+              fill="transparent"
+            />
+            <g className="opacity-0 group-hover:opacity-100 pointer-events-none transition-opacity">
+              <circle cx={x(i)} cy={y(value)} r={5} fill={color} stroke="white" strokeWidth={1.5} />
+              <rect
+                x={tooltipX}
+                y={tooltipY}
+                width={tooltipWidth}
+                height={TOOLTIP_HEIGHT}
+                rx={3}
+                className="fill-gray-800"
+              />
+              <text
+                x={tooltipX + tooltipWidth / 2}
+                y={tooltipY + TOOLTIP_HEIGHT / 2 + 3}
+                textAnchor="middle"
+                className="fill-white text-[9px]"
+              >
+                {label}
+              </text>
+            </g>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -1,23 +1,121 @@
 'use client';
 
-import { getMeritColor, MeritLevel, SchoolCategory, getCategoryColor, getCategoryLabel } from '@/lib/types';
+import {
+  ADMISSION_CHANCES,
+  getAdmissionChanceColor,
+  getAdmissionChanceLabel,
+  getMeritColor,
+  MeritLevel,
+  PerformanceLevel,
+  SchoolCategory,
+  getCategoryColor,
+  getCategoryLabel,
+  getPerformanceColor,
+} from '@/lib/types';
+import { BENCHMARKS } from '@/lib/benchmarks';
+import { ChoroplethMetric, OWNERSHIP_GAP_LEGEND } from '@/lib/municipality-stats';
+import { HeatmapMetric } from '@/lib/heatmap';
 
+// Ranges follow the merit benchmarks computed from the data (see getMeritLevel)
+const merit = BENCHMARKS.meritValue;
 const meritLevels: { level: MeritLevel | null; label: string; range: string }[] = [
-  { level: 'high', label: 'Topp', range: '> 280' },
-  { level: 'above-avg', label: 'Hög', range: '250-280' },
-  { level: 'avg', label: 'Medel', range: '230-250' },
-  { level: 'below-avg', label: 'Under medel', range: '200-230' },
-  { level: 'low', label: 'Låg', range: '< 200' },
+  { level: 'high', label: 'Topp', range: `> ${Math.round(merit.p90)}` },
+  { level: 'above-avg', label: 'Hög', range: `${Math.round(merit.p75)}-${Math.round(merit.p90)}` },
+  { level: 'avg', label: 'Medel', range: `${Math.round(merit.avg)}-${Math.round(merit.p75)}` },
+  { level: 'below-avg', label: 'Under medel', range: `${Math.round(merit.p25)}-${Math.round(merit.avg)}` },
+  { level: 'low', label: 'Låg', range: `< ${Math.round(merit.p25)}` },
   { level: null, label: 'Ingen data', range: '' },
 ];
 
+// Composite scores are percentile based, so the bands are quintiles (see getScoreLevel)
+const scoreLevels: { level: PerformanceLevel | null; range: string }[] = [
+  { level: 'high', range: '80-100' },
+  { level: 'above-avg', range: '60-79' },
+  { level: 'avg', range: '40-59' },
+  { level: 'below-avg', range: '20-39' },
+  { level: 'low', range: '0-19' },
+  { level: null, range: 'Ingen data' },
+];
+
+// Swatches for the municipality shading, same scales as getChoroplethColor
+function getChoroplethLegend(metric: ChoroplethMetric): { color: string; label: string }[] {
+  switch (metric) {
+    case 'avgMerit':
+      return meritLevels.map(({ level, label, range }) => ({ color: getMeritColor(level), label: range || label }));
+    case 'aboveAverageShare':
+      return scoreLevels.map(({ level, range }) => ({
+        color: getPerformanceColor(level),
+        label: level ? `${range}%` : range,
+      }));
+    case 'ownershipGap':
+      return [...OWNERSHIP_GAP_LEGEND, { color: getPerformanceColor(null), label: 'Ingen data' }];
+  }
+}
+
+const choroplethTitles: Record<ChoroplethMetric, string> = {
+  avgMerit: 'Kommuner: meritvärde',
+  aboveAverageShare: 'Kommuner: andel över rikssnittet',
+  ownershipGap: 'Kommuner: fristående vs kommunala',
+};
+
+// Grade 6 pass rate bands from the benchmarks (see getPassRateGrade6Level)
+const passRate = BENCHMARKS.passRateGrade6;
+const passRateLevels: { level: PerformanceLevel; range: string }[] = [
+  { level: 'high', range: `> ${Math.round(passRate.p90)}%` },
+  { level: 'above-avg', range: `${Math.round(passRate.p75)}-${Math.round(passRate.p90)}%` },
+  { level: 'avg', range: `${Math.round(passRate.avg)}-${Math.round(passRate.p75)}%` },
+  { level: 'below-avg', range: `${Math.round(passRate.p25)}-${Math.round(passRate.avg)}%` },
+  { level: 'low', range: `< ${Math.round(passRate.p25)}%` },
+];
+
+// Swatches for the heatmap, same scales as getHeatmapColor
+function getHeatmapLegend(metric: HeatmapMetric): { color: string; label: string }[] {
+  switch (metric) {
+    case 'merit':
+      return meritLevels
+        .filter(({ level }) => level !== null)
+        .map(({ level, range }) => ({ color: getMeritColor(level), label: range }));
+    case 'passRateGrade6':
+      return passRateLevels.map(({ level, range }) => ({ color: getPerformanceColor(level), label: range }));
+    case 'score':
+      return scoreLevels
+        .filter(({ level }) => level !== null)
+        .map(({ level, range }) => ({ color: getPerformanceColor(level), label: range }));
+  }
+}
+
+const heatmapTitles: Record<HeatmapMetric, string> = {
+  merit: 'Skolområden: meritvärde',
+  passRateGrade6: 'Skolområden: godkänt åk 6',
+  score: 'Skolområden: sammanvägd poäng',
+};
+
+// Extra section for a map overlay, below the marker legend
+function OverlaySection({ title, items }: { title: string; items: { color: string; label: string }[] }) {
+  return (
+    <div className="mt-3 pt-2 border-t border-gray-100">
+      <h4 className="text-xs font-medium text-gray-600 mb-2">{title}</h4>
+      <div className="space-y-1.5">
+        {items.map(({ color, label }) => (
+          <div key={label} className="flex items-center gap-2 text-xs">
+            <div className="w-4 h-3 rounded-sm opacity-80" style={{ backgroundColor: color }} />
+            <span className="text-gray-700">{label}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 const categories: SchoolCategory[] = ['F-6', 'F-9', '7-9', 'gymnasium', 'anpassad', 'other'];
 
 interface LegendProps {
-  colorMode?: 'category' | 'performance';
+  colorMode?: 'category' | 'performance' | 'score' | 'admission';
+  choroplethMetric?: ChoroplethMetric | null;
+  heatmapMetric?: HeatmapMetric | null;
 }
 
-export default function Legend({ colorMode = 'category' }: LegendProps) {
+export default function Legend({ colorMode = 'category', choroplethMetric = null, heatmapMetric = null }: LegendProps) {
   return (
     <div className="absolute bottom-4 right-4 bg-white rounded-lg shadow-card p-3 z-[1000]">
       {colorMode === 'category' ? (
@@ -35,6 +133,36 @@ export default function Legend({ colorMode = 'category' }: LegendProps) {
             ))}
           </div>
         </>
+      ) : colorMode === 'admission' ? (
+        <>
+          <h4 className="text-xs font-medium text-gray-600 mb-2">Antagningschans</h4>
+          <div className="space-y-1.5">
+            {ADMISSION_CHANCES.map(chance => (
+              <div key={chance} className="flex items-center gap-2 text-xs">
+                <div
+                  className="w-4 h-4 rounded border border-white shadow-sm"
+                  style={{ backgroundColor: getAdmissionChanceColor(chance) }}
+                />
+                <span className="text-gray-700">{getAdmissionChanceLabel(chance)}</span>
+              </div>
+            ))}
+          </div>
+        </>
+      ) : colorMode === 'score' ? (
+        <>
+          <h4 className="text-xs font-medium text-gray-600 mb-2">Sammanvägd poäng</h4>
+          <div className="space-y-1.5">
+            {scoreLevels.map(({ level, range }) => (
+              <div key={level ?? 'no-data'} className="flex items-center gap-2 text-xs">
+                <div
+                  className="w-4 h-4 rounded-full border border-white shadow-sm"
+                  style={{ backgroundColor: getPerformanceColor(level) }}
+                />
+                <span className="text-gray-700">{range}</span>
+              </div>
+            ))}
+          </div>
+        </>
       ) : (
         <>
           <h4 className="text-xs font-medium text-gray-600 mb-2">Prestationsnivå</h4>
@@ -52,6 +180,13 @@ export default function Legend({ colorMode = 'category' }: LegendProps) {
           </div>
         </>
       )}
+
+      {heatmapMetric && (
+        <OverlaySection title={heatmapTitles[heatmapMetric]} items={getHeatmapLegend(heatmapMetric)} />
+      )}
+      {choroplethMetric && (
+        <OverlaySection title={choroplethTitles[choroplethMetric]} items={getChoroplethLegend(choroplethMetric)} />
+      )}
     </div>
   );
 }
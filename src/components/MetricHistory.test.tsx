@@ -0,0 +1,49 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import MetricHistory from './MetricHistory';
+
+const METRICS = [
+  { metric: 'meritValue' as const, label: 'Merit' },
+  { metric: 'certifiedTeachersRatio' as const, label: 'Lärare' },
+  { metric: 'totalPupils' as const, label: 'Elever' },
+];
+
+describe('MetricHistory', () => {
+  it('has a tab for each metric with at least two years', () => {
+    render(
+      <MetricHistory
+        history={{
+          meritValue: { 2022: 220, 2023: 224, 2024: 228 },
+          certifiedTeachersRatio: { 2022: 80, 2023: 75, 2024: 70 },
+          totalPupils: { 2024: 300 },
+        }}
+        metrics={METRICS}
+      />
+    );
+
+    expect(screen.getAllByRole('button').map(b => b.textContent)).toEqual(['Merit', 'Lärare']);
+    expect(screen.getByText('Trend 2022–2024: +4.0/år')).toBeTruthy();
+
+    fireEvent.click(screen.getByText('Lärare'));
+    expect(screen.getByText('Trend 2022–2024: -5.0 %-enheter/år')).toBeTruthy();
+  });
+
+  it('calls a change that rounds to zero flat', () => {
+    render(<MetricHistory history={{ meritValue: { 2022: 230, 2023: 230.02, 2024: 230.04 } }} metrics={METRICS} />);
+
+    expect(screen.queryByRole('button')).toBeNull();
+    expect(screen.getByText('Trend 2022–2024: ±0.0/år')).toBeTruthy();
+  });
+
+  it('charts two years without a trend', () => {
+    render(<MetricHistory history={{ meritValue: { 2023: 230, 2024: 240 } }} metrics={METRICS} />);
+
+    expect(screen.getByRole('img')).toBeTruthy();
+    expect(screen.getByText('För få år för en trend')).toBeTruthy();
+  });
+
+  it('renders nothing without a metric to chart', () => {
+    const { container } = render(<MetricHistory history={{ totalPupils: { 2024: 300 } }} metrics={METRICS} />);
+    expect(container.innerHTML).toBe('');
+  });
+});
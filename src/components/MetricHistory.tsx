@@ -0,0 +1,77 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  HISTORY_METRIC_INFO,
+  HistoryMetric,
+  StatisticsHistory,
+  getTimeSeriesTrend,
+  getTimeSeriesYears,
+} from '@/lib/types';
+import { BENCHMARKS, YEARLY_AVERAGES } from '@/lib/benchmarks';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import HistoryChart from './HistoryChart';
+
+interface MetricHistoryProps {
+  history: StatisticsHistory;
+  metrics: { metric: HistoryMetric; label: string }[]; // tab label per metric
+}
+
+// Compact history chart for the popup, with a tab per metric that has at least
+// two years of data and the regression trend underneath
+export default function MetricHistory({ history, metrics }: MetricHistoryProps) {
+  const available = metrics.filter(({ metric }) => getTimeSeriesYears(history[metric]).length >= 2);
+  const [selected, setSelected] = useState<HistoryMetric | null>(null);
+
+  if (available.length === 0) return null;
+
+  const metric = available.find(m => m.metric === selected)?.metric ?? available[0].metric;
+  const series = history[metric]!;
+  const { unit } = HISTORY_METRIC_INFO[metric];
+  const trend = getTimeSeriesTrend(series);
+  // Rounds to zero: call it flat rather than pick a direction
+  const direction = trend === null || Math.abs(trend.slope) < 0.05 ? 0 : Math.sign(trend.slope);
+  const slope = direction === 0 ? '±0.0' : `${direction > 0 ? '+' : ''}${trend!.slope.toFixed(1)}`;
+
+  return (
+    <div className="mt-2">
+      {available.length > 1 && (
+        <div className="flex gap-1 mb-1">
+          {available.map(({ metric: m, label }) => (
+            <button
+              key={m}
+              onClick={() => setSelected(m)}
+              className={`py-0.5 px-1.5 text-[10px] rounded transition-colors ${
+                m === metric ? 'bg-gray-800 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <HistoryChart
+        series={series}
+        unit={unit}
+        benchmark={YEARLY_AVERAGES[metric] ?? BENCHMARKS[metric].avg}
+        width={280}
+        height={100}
+      />
+
+      <div className="flex flex-wrap items-center justify-between gap-x-2 text-[10px] text-gray-500">
+        {trend ? (
+          <span className="flex items-center gap-1">
+            {direction > 0 && <TrendingUp className="w-3 h-3 text-green-600" />}
+            {direction < 0 && <TrendingDown className="w-3 h-3 text-red-600" />}
+            {direction === 0 && <Minus className="w-3 h-3 text-gray-400" />}
+            Trend {trend.from}–{trend.to}: {slope}{unit === '%' ? ' %-enheter' : ''}/år
+          </span>
+        ) : (
+          <span>För få år för en trend</span>
+        )}
+        <span className="text-gray-400">– – rikssnitt</span>
+      </div>
+    </div>
+  );
+}
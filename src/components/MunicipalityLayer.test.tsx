@@ -0,0 +1,113 @@
+import { render, waitFor } from '@testing-library/react';
+import L from 'leaflet';
+import { createRef } from 'react';
+import { MapContainer } from 'react-leaflet';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSchool } from '@/test/fixtures';
+import { MunicipalityBoundaries } from '@/lib/municipality-stats';
+import MunicipalityLayer from './MunicipalityLayer';
+import SchoolCanvasLayer from './SchoolCanvasLayer';
+
+// Roughly Stockholms kommun, as a square
+const STOCKHOLM: MunicipalityBoundaries = {
+  type: 'FeatureCollection',
+  features: [{
+    type: 'Feature',
+    properties: { code: '0180', name: 'Stockholm' },
+    geometry: { type: 'Polygon', coordinates: [[[17.8, 59.2], [18.2, 59.2], [18.2, 59.45], [17.8, 59.45], [17.8, 59.2]]] },
+  }],
+};
+
+const school = createSchool({ coordinates: [59.33, 18.06] });
+
+function mockBoundaries(boundaries: MunicipalityBoundaries) {
+  vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, json: async () => boundaries }));
+}
+
+// jsdom has no layout and no canvas: give the map a size and the canvas a
+// context that draws nothing
+beforeEach(() => {
+  vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(400);
+  vi.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(300);
+  const context = new Proxy({}, { get: () => () => {} });
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(context as CanvasRenderingContext2D);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+async function renderLayers(onMunicipalityClick = vi.fn(), onError = vi.fn()) {
+  const mapRef = createRef<L.Map>();
+  render(
+    <MapContainer ref={mapRef} center={[59.33, 18.0]} zoom={8}>
+      <MunicipalityLayer
+        metric="avgMerit"
+        stats={new Map()}
+        interactive
+        onMunicipalityClick={onMunicipalityClick}
+        onError={onError}
+      />
+      <SchoolCanvasLayer
+        schools={[school]}
+        colorMode="category"
+        shortlistStatuses={{}}
+        scores={null}
+        admissionChances={null}
+        interactive
+        highlightedId={null}
+        onSchoolClick={() => {}}
+      />
+    </MapContainer>
+  );
+  const map = mapRef.current!;
+
+  let polygon: L.Polygon | null = null;
+  await waitFor(() => {
+    map.eachLayer(layer => {
+      if (layer instanceof L.Polygon) polygon = layer;
+    });
+    expect(polygon).not.toBeNull();
+  });
+
+  const clickAt = (coordinates: [number, number]) => {
+    polygon!.fire('click', { containerPoint: map.latLngToContainerPoint(coordinates) });
+  };
+  return { map, clickAt };
+}
+
+describe('MunicipalityLayer', () => {
+  it('filters on the municipality that was clicked', async () => {
+    const onMunicipalityClick = vi.fn();
+    mockBoundaries(STOCKHOLM);
+    const { clickAt } = await renderLayers(onMunicipalityClick);
+
+    clickAt([59.3, 17.9]);
+
+    expect(onMunicipalityClick).toHaveBeenCalledWith('0180');
+  });
+
+  it('leaves a click on a school to the school', async () => {
+    const onMunicipalityClick = vi.fn();
+    mockBoundaries(STOCKHOLM);
+    const { clickAt } = await renderLayers(onMunicipalityClick);
+
+    clickAt(school.coordinates);
+
+    expect(onMunicipalityClick).not.toHaveBeenCalled();
+  });
+
+  it('reports an empty boundary file', async () => {
+    const onError = vi.fn();
+    mockBoundaries({ type: 'FeatureCollection', features: [] });
+
+    render(
+      <MapContainer center={[59.33, 18.0]} zoom={8}>
+        <MunicipalityLayer metric="avgMerit" stats={new Map()} interactive onMunicipalityClick={() => {}} onError={onError} />
+      </MapContainer>
+    );
+
+    await waitFor(() => expect(onError).toHaveBeenCalledWith('No municipality boundaries are available'));
+  });
+});
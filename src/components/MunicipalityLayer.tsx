@@ -0,0 +1,142 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { formatMetricValue } from '@/lib/types';
+import {
+  ChoroplethMetric,
+  MunicipalityBoundaries,
+  MunicipalityStats,
+  getChoroplethColor,
+} from '@/lib/municipality-stats';
+import { isSchoolAt } from './SchoolCanvasLayer';
+
+// Above this zoom the shading fades and stops catching the mouse, so the
+// schools underneath can be hovered and clicked again
+const INTERACTIVE_MAX_ZOOM = 8;
+
+// Written by scripts/fetch-municipality-boundaries.ts
+const BOUNDARIES_URL = '/municipalities.geo.json';
+
+type BoundaryFeature = MunicipalityBoundaries['features'][number];
+
+const BASE_STYLE: L.PathOptions = { color: 'white', weight: 1, opacity: 0.8 };
+const HOVER_STYLE: L.PathOptions = { color: 'hsl(0, 0%, 15%)', weight: 2, opacity: 1 };
+
+function formatMerit(value: number | null): string {
+  return value !== null ? formatMetricValue('meritValue', value) : '–';
+}
+
+function getMunicipalityCard(name: string, stats: MunicipalityStats | undefined): string {
+  if (!stats) {
+    return `<div style="font-size: 12px;"><strong>${name}</strong><div>Inga skolor</div></div>`;
+  }
+  const share = stats.aboveAverageShare !== null ? `${Math.round(stats.aboveAverageShare * 100)}%` : '–';
+  const gap = stats.ownershipGap !== null ? `${stats.ownershipGap > 0 ? '+' : ''}${stats.ownershipGap}` : '–';
+
+  return `<div style="font-size: 12px; line-height: 1.4;">
+    <div style="font-weight: 600; margin-bottom: 2px;">${stats.name} (${stats.schoolCount} skolor)</div>
+    <div>Meritvärde (viktat): <strong>${formatMerit(stats.avgMerit)}</strong></div>
+    <div>Över rikssnittet: <strong>${share}</strong></div>
+    <div>Kommunala: <strong>${formatMerit(stats.municipalMerit)}</strong></div>
+    <div>Fristående: <strong>${formatMerit(stats.independentMerit)}</strong> (${gap})</div>
+    <div style="color: #9ca3af; margin-top: 2px;">Klicka för att filtrera</div>
+  </div>`;
+}
+
+interface MunicipalityLayerProps {
+  metric: ChoroplethMetric;
+  stats: Map<string, MunicipalityStats>;
+  interactive: boolean;
+  onMunicipalityClick: (code: string) => void;
+  onError: (message: string) => void; // the boundaries could not be shown
+}
+
+// Shades each kommun by an aggregate of its schools. The boundaries are a
+// static file served with the app, loaded the first time the layer is shown.
+export default function MunicipalityLayer({
+  metric,
+  stats,
+  interactive,
+  onMunicipalityClick,
+  onError,
+}: MunicipalityLayerProps) {
+  const map = useMap();
+  const [boundaries, setBoundaries] = useState<MunicipalityBoundaries | null>(null);
+  const [zoom, setZoom] = useState(() => map.getZoom());
+  const layerRef = useRef<L.GeoJSON | null>(null);
+  // Read from the path handlers, which only change when the layer is rebuilt
+  const statsRef = useRef(stats);
+  const onClickRef = useRef(onMunicipalityClick);
+  const onErrorRef = useRef(onError);
+
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+
+  useEffect(() => {
+    statsRef.current = stats;
+    onClickRef.current = onMunicipalityClick;
+    onErrorRef.current = onError;
+  }, [stats, onMunicipalityClick, onError]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(BOUNDARIES_URL)
+      .then(response => {
+        if (!response.ok) throw new Error('Could not load the municipality boundaries');
+        return response.json();
+      })
+      .then((data: MunicipalityBoundaries) => {
+        // The file in the repo is empty until fetch-boundaries has been run
+        if (data.features.length === 0) throw new Error('No municipality boundaries are available');
+        if (!cancelled) setBoundaries(data);
+      })
+      .catch((error: Error) => {
+        if (!cancelled) onErrorRef.current(error.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const isInteractive = interactive && zoom <= INTERACTIVE_MAX_ZOOM;
+
+  // Paths can't switch interactivity after creation, so the layer is rebuilt then
+  useEffect(() => {
+    if (!boundaries) return;
+
+    const layer = L.geoJSON(boundaries, {
+      interactive: isInteractive,
+      onEachFeature: (feature, path) => {
+        if (!isInteractive) return;
+        const { code, name } = (feature as BoundaryFeature).properties;
+        path.bindTooltip('', { sticky: true, direction: 'top', offset: [0, -8] });
+        path.on('mouseover', () => {
+          path.setTooltipContent(getMunicipalityCard(name, statsRef.current.get(code)));
+          (path as L.Path).setStyle(HOVER_STYLE).bringToFront();
+        });
+        path.on('mouseout', () => (path as L.Path).setStyle(BASE_STYLE));
+        path.on('click', (e: L.LeafletMouseEvent) => {
+          // A school drawn on top gets the click instead
+          if (!isSchoolAt(map, e.containerPoint)) onClickRef.current(code);
+        });
+      },
+    }).addTo(map);
+    layerRef.current = layer;
+
+    return () => {
+      layer.remove();
+      layerRef.current = null;
+    };
+  }, [map, boundaries, isInteractive]);
+
+  useEffect(() => {
+    layerRef.current?.setStyle(feature => ({
+      ...BASE_STYLE,
+      fillColor: getChoroplethColor(metric, stats.get((feature as BoundaryFeature).properties.code)),
+      fillOpacity: isInteractive ? 0.6 : 0.25,
+    }));
+  }, [boundaries, metric, stats, isInteractive]);
+
+  return null;
+}
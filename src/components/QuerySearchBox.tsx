@@ -0,0 +1,281 @@
+'use client';
+
+import { useState, useRef, useEffect, useMemo, KeyboardEvent } from 'react';
+import { Search, X, Bookmark, MapPin } from 'lucide-react';
+import { School } from '@/lib/types';
+import { SchoolFilters } from '@/lib/filters';
+import {
+  QueryVocabulary,
+  QuerySuggestion,
+  formatSearchQuery,
+  getQuerySuggestions,
+  parseSearchQuery,
+} from '@/lib/search-query';
+import { useSavedQueries } from '@/lib/use-saved-queries';
+import { searchSchools } from '@/lib/fuzzy-search';
+
+interface QuerySearchBoxProps {
+  schools: School[];
+  filters: SchoolFilters;
+  onFiltersChange: (filters: SchoolFilters) => void;
+  vocabulary: QueryVocabulary;
+  onSelectSchool: (school: School) => void;
+}
+
+const INPUT_CLASS = 'w-full pl-8 pr-8 py-2 text-sm';
+const MAX_SCHOOL_HITS = 6;
+
+// Free text or a query (see search-query.ts). A query without errors is
+// applied as it is typed; changes made with the other controls replace the text.
+// The free text also lists the best matching schools to jump to.
+export default function QuerySearchBox({
+  schools,
+  filters,
+  onFiltersChange,
+  vocabulary,
+  onSelectSchool,
+}: QuerySearchBoxProps) {
+  const [draft, setDraft] = useState(() => formatSearchQuery(filters));
+  // The filters the draft was last applied as or written from
+  const [draftFilters, setDraftFilters] = useState(filters);
+  const [cursor, setCursor] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [saveName, setSaveName] = useState<string | null>(null);
+  const [savedQueries, savedQueryActions] = useSavedQueries();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  // Changed elsewhere (panel controls, back/forward): show them as a query
+  if (filters !== draftFilters) {
+    setDraftFilters(filters);
+    setDraft(formatSearchQuery(filters));
+  }
+
+  const { filters: parsedFilters, errors } = useMemo(() => parseSearchQuery(draft, vocabulary), [draft, vocabulary]);
+  const { start, end, suggestions } = useMemo(
+    () => getQuerySuggestions(draft, cursor, vocabulary),
+    [draft, cursor, vocabulary]
+  );
+  const hits = useMemo(
+    () => searchSchools(schools, parsedFilters.search, MAX_SCHOOL_HITS).map(hit => hit.school),
+    [schools, parsedFilters.search]
+  );
+  // Query suggestions first, then schools
+  const optionCount = suggestions.length + hits.length;
+  const showDropdown = isOpen && optionCount > 0;
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  // The highlight layer sits under the input's text and has to scroll with it
+  const syncScroll = () => {
+    if (highlightRef.current && inputRef.current) {
+      highlightRef.current.scrollLeft = inputRef.current.scrollLeft;
+    }
+  };
+
+  const applyDraft = (value: string, cursorAt = value.length) => {
+    setDraft(value);
+    setCursor(cursorAt);
+    setActiveIndex(0);
+    const parsed = parseSearchQuery(value, vocabulary);
+    if (parsed.errors.length > 0) return;
+    const next = { ...filters, ...parsed.filters };
+    setDraftFilters(next);
+    onFiltersChange(next);
+  };
+
+  const acceptSuggestion = (suggestion: QuerySuggestion) => {
+    const value = draft.slice(0, start) + suggestion.insert + draft.slice(end);
+    const position = start + suggestion.insert.length;
+    applyDraft(value, position);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(position, position);
+      syncScroll();
+    });
+  };
+
+  const selectSchool = (school: School) => {
+    setIsOpen(false);
+    inputRef.current?.blur();
+    onSelectSchool(school);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (!showDropdown) return;
+    const index = Math.min(activeIndex, optionCount - 1);
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((index + step + optionCount) % optionCount);
+    } else if (e.key === 'Enter' || (e.key === 'Tab' && index < suggestions.length)) {
+      e.preventDefault();
+      if (index < suggestions.length) acceptSuggestion(suggestions[index]);
+      else selectSchool(hits[index - suggestions.length]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  const handleSave = () => {
+    const name = saveName?.trim();
+    if (name) savedQueryActions.save(name, draft.trim());
+    setSaveName(null);
+  };
+
+  // The draft cut into plain and erroneous stretches
+  const segments: { text: string; error: boolean }[] = [];
+  let position = 0;
+  for (const error of [...errors].sort((a, b) => a.start - b.start)) {
+    // A term with several bad values is reported more than once
+    if (error.start < position) continue;
+    if (error.start > position) segments.push({ text: draft.slice(position, error.start), error: false });
+    segments.push({ text: draft.slice(error.start, error.end), error: true });
+    position = error.end;
+  }
+  segments.push({ text: draft.slice(position), error: false });
+
+  const canSave = draft.trim() !== '' && errors.length === 0;
+
+  return (
+    <div ref={containerRef}>
+      <div className="relative border border-gray-200 rounded-md focus-within:ring-2 focus-within:ring-gray-200">
+        <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <div
+          ref={highlightRef}
+          aria-hidden
+          className={`${INPUT_CLASS} absolute inset-0 overflow-hidden whitespace-pre text-gray-900 pointer-events-none`}
+        >
+          {segments.map((segment, i) => (
+            <span key={i} className={segment.error ? 'underline decoration-wavy decoration-red-500' : undefined}>
+              {segment.text}
+            </span>
+          ))}
+        </div>
+        <input
+          ref={inputRef}
+          type="text"
+          placeholder="Name, area or merit>=250 typ:F-9..."
+          value={draft}
+          spellCheck={false}
+          onChange={(e) => {
+            applyDraft(e.target.value, e.target.selectionStart ?? e.target.value.length);
+            setIsOpen(true);
+          }}
+          onSelect={(e) => {
+            setCursor(e.currentTarget.selectionStart ?? 0);
+            syncScroll();
+          }}
+          onScroll={syncScroll}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          className={`${INPUT_CLASS} relative bg-transparent text-transparent caret-gray-900 placeholder:text-gray-400 focus:outline-none`}
+        />
+        {draft && (
+          <button
+            onClick={() => applyDraft('')}
+            className="absolute right-2.5 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+
+        {showDropdown && (
+          <div className="absolute top-full left-0 right-0 mt-1 bg-white border border-gray-200 rounded-md shadow-lg z-50 max-h-60 overflow-y-auto">
+            {suggestions.map((suggestion, i) => (
+              <button
+                key={suggestion.insert}
+                // Keep the focus in the input
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => acceptSuggestion(suggestion)}
+                className={`w-full px-3 py-1.5 text-left flex items-baseline justify-between gap-2 border-b border-gray-100 last:border-0 ${
+                  i === activeIndex ? 'bg-gray-100' : 'hover:bg-gray-50'
+                }`}
+              >
+                <span className="text-sm text-gray-900 font-mono">{suggestion.label}</span>
+                <span className="text-xs text-gray-500 truncate">{suggestion.detail}</span>
+              </button>
+            ))}
+            {hits.map((school, i) => (
+              <button
+                key={school.id}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => selectSchool(school)}
+                className={`w-full px-3 py-2 text-left flex items-start gap-2 border-b border-gray-100 last:border-0 ${
+                  suggestions.length + i === activeIndex ? 'bg-gray-100' : 'hover:bg-gray-50'
+                }`}
+              >
+                <MapPin className="w-4 h-4 text-gray-400 mt-0.5 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-900 truncate">{school.name}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {school.address.street}, {school.municipality}
+                  </p>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <p className="text-xs text-red-500 mt-1">{errors[0].message}</p>
+      )}
+
+      {/* Saved queries */}
+      <div className="mt-1.5 flex flex-wrap items-center gap-1.5">
+        {savedQueries.map(saved => (
+          <span
+            key={saved.name}
+            className="inline-flex items-center gap-1 py-0.5 pl-2 pr-1 text-xs rounded-md bg-gray-100 text-gray-700"
+          >
+            <button onClick={() => applyDraft(saved.query)} title={saved.query} className="hover:text-gray-900">
+              {saved.name}
+            </button>
+            <button
+              onClick={() => savedQueryActions.remove(saved.name)}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label={`Remove ${saved.name}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        {saveName !== null ? (
+          <input
+            type="text"
+            autoFocus
+            value={saveName}
+            placeholder="Name this query"
+            onChange={(e) => setSaveName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+              if (e.key === 'Escape') setSaveName(null);
+            }}
+            onBlur={handleSave}
+            className="w-32 px-2 py-0.5 text-xs border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-200"
+          />
+        ) : canSave && (
+          <button
+            onClick={() => setSaveName('')}
+            className="inline-flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+          >
+            <Bookmark className="w-3 h-3" />
+            Save query
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
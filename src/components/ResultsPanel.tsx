@@ -0,0 +1,228 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  AdmissionChance,
+  School,
+  formatDistance,
+  formatMetricValue,
+  getCategoryLabel,
+} from '@/lib/types';
+import { getSchoolMarkerColor } from '@/lib/benchmarks';
+import { SORT_KEYS, SORT_OPTIONS, SchoolSort, SortKey, isDistanceSortKey } from '@/lib/sorting';
+import { SavedLocations, getCombinedDistance, hasCombinedDistance } from '@/lib/locations';
+import { List, X, ArrowDown, ArrowUp } from 'lucide-react';
+
+type ColorMode = 'performance' | 'category' | 'score' | 'admission';
+
+// Rows have a fixed height so only the visible ones need to be rendered
+const ROW_HEIGHT = 52;
+const OVERSCAN = 8;
+
+interface ResultsPanelProps {
+  schools: School[]; // filtered and sorted
+  isLoading: boolean; // no schools yet because the query is still running
+  sort: SchoolSort;
+  onSortChange: (sort: SchoolSort) => void;
+  savedLocations: SavedLocations;
+  scores: Record<string, number> | null; // composite scores, when coloring or sorting by them
+  admissionChances: Record<string, AdmissionChance> | null; // in admission color mode
+  colorMode: ColorMode;
+  limitToViewport: boolean;
+  onLimitToViewportChange: (limit: boolean) => void;
+  selectedId: string | null;
+  onHighlightSchool: (school: School | null) => void;
+  onSelectSchool: (school: School) => void;
+  onClose: () => void;
+}
+
+// The figure shown for a school when the list isn't sorted by a statistic
+function getHeadlineKey(school: School): SortKey | null {
+  switch (school.category) {
+    case 'F-9':
+    case '7-9':
+      return 'merit';
+    case 'F-6':
+      return 'passRateGrade6';
+    case 'gymnasium':
+      return 'universityEligibilityRate';
+    default:
+      return null;
+  }
+}
+
+export default function ResultsPanel({
+  schools,
+  isLoading,
+  sort,
+  onSortChange,
+  savedLocations,
+  scores,
+  admissionChances,
+  colorMode,
+  limitToViewport,
+  onLimitToViewportChange,
+  selectedId,
+  onHighlightSchool,
+  onSelectSchool,
+  onClose,
+}: ResultsPanelProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [listHeight, setListHeight] = useState(0);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+    const observer = new ResizeObserver(() => setListHeight(list.clientHeight));
+    observer.observe(list);
+    return () => observer.disconnect();
+  }, []);
+
+  // A new order starts from the top
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: 0 });
+  }, [sort]);
+
+  // Bring the school opened on the map into view, once per selection: a
+  // re-sort doesn't scroll back to it, but a school that only shows up in the
+  // list after it was selected still gets scrolled to
+  const scrolledIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list || !selectedId) {
+      scrolledIdRef.current = null;
+      return;
+    }
+    if (scrolledIdRef.current === selectedId) return;
+    const index = schools.findIndex(s => s.id === selectedId);
+    if (index === -1) return;
+    scrolledIdRef.current = selectedId;
+    const top = index * ROW_HEIGHT;
+    if (top < list.scrollTop || top + ROW_HEIGHT > list.scrollTop + list.clientHeight) {
+      list.scrollTo({ top: top - (list.clientHeight - ROW_HEIGHT) / 2 });
+    }
+  }, [selectedId, schools]);
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(schools.length, Math.ceil((scrollTop + listHeight) / ROW_HEIGHT) + OVERSCAN);
+  const isSortedByMetric = SORT_OPTIONS[sort.key].metric !== undefined;
+  const hasLocations = savedLocations.locations.length > 0;
+
+  const handleKeyChange = (key: SortKey) => {
+    onSortChange({ key, direction: SORT_OPTIONS[key].defaultDirection });
+  };
+
+  const toggleDirection = () => {
+    onSortChange({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' });
+  };
+
+  return (
+    <div className="absolute top-16 right-4 bg-white rounded-lg shadow-soft z-[1000] w-80 max-h-[calc(100%-10rem)] flex flex-col">
+      <div className="p-3 border-b border-gray-100 space-y-2">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-sm flex items-center gap-1.5">
+            <List className="w-4 h-4" />
+            Resultat ({schools.length})
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex gap-2">
+          <select
+            value={sort.key}
+            onChange={(e) => handleKeyChange(e.target.value as SortKey)}
+            className="flex-1 px-2 py-1.5 text-xs border border-gray-200 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-400"
+          >
+            {SORT_KEYS.map(key => (
+              <option
+                key={key}
+                value={key}
+                disabled={isDistanceSortKey(key) && !hasLocations}
+                hidden={key === 'combinedDistance' && !hasCombinedDistance(savedLocations)}
+              >
+                {SORT_OPTIONS[key].label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={toggleDirection}
+            className="px-2 text-xs rounded-md bg-gray-100 hover:bg-gray-200 text-gray-700"
+            title={sort.direction === 'asc' ? 'Stigande' : 'Fallande'}
+          >
+            {sort.direction === 'asc' ? <ArrowUp className="w-3.5 h-3.5" /> : <ArrowDown className="w-3.5 h-3.5" />}
+          </button>
+        </div>
+
+        <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={limitToViewport}
+            onChange={(e) => onLimitToViewportChange(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Bara skolor i kartvyn
+        </label>
+      </div>
+
+      <div
+        ref={listRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        onMouseLeave={() => onHighlightSchool(null)}
+        className="overflow-y-auto min-h-0"
+      >
+        {schools.length === 0 && (
+          <p className="text-xs text-gray-500 p-3">{isLoading ? 'Söker…' : 'Inga skolor matchar filtren.'}</p>
+        )}
+
+        <div className="relative" style={{ height: schools.length * ROW_HEIGHT }}>
+          {schools.slice(start, end).map((school, i) => {
+            const score = scores?.[school.id] ?? null;
+            const shownKey = isSortedByMetric ? sort.key : getHeadlineKey(school);
+            const metric = shownKey ? SORT_OPTIONS[shownKey].metric : undefined;
+            const value = metric ? school.statistics[metric] : null;
+            const distance = hasLocations ? getCombinedDistance(savedLocations, school.coordinates) : null;
+
+            return (
+              <button
+                key={school.id}
+                onClick={() => onSelectSchool(school)}
+                onMouseEnter={() => onHighlightSchool(school)}
+                className={`absolute inset-x-0 px-3 flex items-center gap-2 text-left border-b border-gray-50 hover:bg-gray-50 ${
+                  school.id === selectedId ? 'bg-gray-100' : ''
+                }`}
+                style={{ top: (start + i) * ROW_HEIGHT, height: ROW_HEIGHT }}
+              >
+                <span
+                  className={`w-2.5 h-2.5 shrink-0 ${school.category === 'gymnasium' ? 'rounded-sm' : 'rounded-full'}`}
+                  style={{ background: getSchoolMarkerColor(school, colorMode, score, admissionChances?.[school.id] ?? null) }}
+                />
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm font-medium truncate">{school.name}</span>
+                  <span className="block text-xs text-gray-500 truncate">
+                    {getCategoryLabel(school.category)} · {school.municipality}
+                    {distance !== null && ` · ${formatDistance(distance)}`}
+                  </span>
+                </span>
+                {sort.key === 'score' ? (
+                  <span className="shrink-0 text-sm font-semibold">{score ?? '–'}</span>
+                ) : shownKey && metric && (
+                  <span className="shrink-0 text-right">
+                    <span className="block text-sm font-semibold">
+                      {value !== null ? formatMetricValue(metric, value) : '–'}
+                    </span>
+                    {!isSortedByMetric && (
+                      <span className="block text-[10px] text-gray-400">{SORT_OPTIONS[shownKey].label}</span>
+                    )}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
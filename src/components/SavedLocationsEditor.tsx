@@ -0,0 +1,157 @@
+'use client';
+
+import {
+  DISTANCE_MODES,
+  LOCATION_ICONS,
+  LocationIcon,
+  SavedLocations,
+  getDistanceModeLabel,
+  getLocationIconLabel,
+} from '@/lib/locations';
+import { SavedLocationsActions } from '@/lib/use-saved-locations';
+import { Home, Briefcase, Users, MapPin, Star, X } from 'lucide-react';
+import AddressSearch from './AddressSearch';
+
+const ICON_COMPONENTS: Record<LocationIcon, typeof Home> = {
+  home: Home,
+  work: Briefcase,
+  family: Users,
+  other: MapPin,
+};
+
+interface SavedLocationsEditorProps {
+  saved: SavedLocations;
+  actions: SavedLocationsActions;
+  isAddingOnMap: boolean;
+  onAddOnMapClick: () => void;
+  onAddressSelect: (lat: number, lng: number, displayName: string) => void;
+}
+
+export default function SavedLocationsEditor({
+  saved,
+  actions,
+  isAddingOnMap,
+  onAddOnMapClick,
+  onAddressSelect,
+}: SavedLocationsEditorProps) {
+  const { locations, distanceMode } = saved;
+  const primaryId = saved.primaryId ?? locations[0]?.id;
+  const canCombine = locations.length > 1;
+
+  // Clicking the icon cycles through the available ones
+  const nextIcon = (icon: LocationIcon) => LOCATION_ICONS[(LOCATION_ICONS.indexOf(icon) + 1) % LOCATION_ICONS.length];
+
+  return (
+    <div className="space-y-2">
+      {locations.map(location => {
+        const Icon = ICON_COMPONENTS[location.icon];
+        const isPrimary = location.id === primaryId;
+
+        return (
+          <div key={location.id} className="space-y-1">
+            <div className="flex items-center gap-1.5">
+              <button
+                onClick={() => actions.update(location.id, { icon: nextIcon(location.icon) })}
+                className="p-1 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-600"
+                title={`${getLocationIconLabel(location.icon)} (click to change)`}
+              >
+                <Icon className="w-3.5 h-3.5" />
+              </button>
+              <input
+                type="text"
+                value={location.name}
+                onChange={(e) => actions.update(location.id, { name: e.target.value })}
+                className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-400"
+              />
+              <button
+                onClick={() => actions.setPrimary(location.id)}
+                className={`p-1 ${isPrimary ? 'text-amber-500' : 'text-gray-300 hover:text-gray-500'}`}
+                title={isPrimary ? 'Primary location' : 'Make primary'}
+              >
+                <Star className={`w-4 h-4 ${isPrimary ? 'fill-amber-400' : ''}`} />
+              </button>
+              <button
+                onClick={() => actions.remove(location.id)}
+                className="p-1 text-gray-400 hover:text-red-500"
+                title="Remove location"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            {location.address && (
+              <p className="text-[11px] text-gray-400 truncate pl-8">{location.address}</p>
+            )}
+
+            {canCombine && distanceMode !== 'primary' && (
+              <div className="flex items-center gap-3 pl-8 text-xs text-gray-600">
+                <label className="flex items-center gap-1.5 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={location.included}
+                    onChange={(e) => actions.update(location.id, { included: e.target.checked })}
+                    className="rounded border-gray-300"
+                  />
+                  Include
+                </label>
+                {distanceMode === 'sum' && location.included && (
+                  <label className="flex items-center gap-1.5">
+                    Weight
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={location.weight}
+                      onChange={(e) => actions.update(location.id, { weight: Math.max(0, Number(e.target.value) || 0) })}
+                      className="w-14 px-1.5 py-0.5 text-xs border border-gray-200 rounded-md"
+                    />
+                  </label>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {canCombine && (
+        <div>
+          <p className="text-xs text-gray-500 mb-1">Combined distance</p>
+          <div className="flex gap-1">
+            {DISTANCE_MODES.map(mode => (
+              <button
+                key={mode}
+                onClick={() => actions.setDistanceMode(mode)}
+                className={`flex-1 py-1 px-1.5 text-xs rounded-md transition-colors ${
+                  distanceMode === mode
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                }`}
+              >
+                {getDistanceModeLabel(mode)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <AddressSearch
+        placeholder={locations.length === 0 ? 'Search your home address...' : 'Add another address...'}
+        onLocationSelect={onAddressSelect}
+      />
+      <button
+        onClick={onAddOnMapClick}
+        className={`w-full flex items-center justify-center gap-2 py-1.5 px-3 rounded-md text-sm transition-colors ${
+          isAddingOnMap
+            ? 'bg-primary text-primary-foreground'
+            : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+        }`}
+      >
+        <MapPin className="w-4 h-4" />
+        {isAddingOnMap ? 'Click on map...' : 'Add by clicking the map'}
+      </button>
+      {locations.length > 0 && (
+        <p className="text-xs text-gray-400">Drag markers on the map to adjust</p>
+      )}
+    </div>
+  );
+}
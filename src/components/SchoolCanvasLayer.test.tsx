@@ -0,0 +1,120 @@
+import { render } from '@testing-library/react';
+import L from 'leaflet';
+import { ComponentProps, createRef } from 'react';
+import { MapContainer } from 'react-leaflet';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSchool } from '@/test/fixtures';
+import SchoolCanvasLayer from './SchoolCanvasLayer';
+
+type Props = ComponentProps<typeof SchoolCanvasLayer>;
+
+const vasa = createSchool({ id: 'vasa', name: 'Vasaskolan', coordinates: [59.3, 18.0] });
+// A few pixels from Vasaskolan at zoom 13 and drawn after it, so on top
+const nearby = createSchool({ id: 'nearby', name: 'Grannskolan', coordinates: [59.3, 18.0001] });
+const outside = createSchool({ id: 'outside', name: 'Fjärran skola', coordinates: [65.0, 20.0] });
+
+const defaultProps: Props = {
+  schools: [vasa, outside],
+  colorMode: 'category',
+  shortlistStatuses: {},
+  scores: null,
+  admissionChances: null,
+  interactive: true,
+  highlightedId: null,
+  onSchoolClick: () => {},
+};
+
+// jsdom has no layout and no canvas: give the map a size and the canvas a
+// context that draws nothing
+beforeEach(() => {
+  vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(400);
+  vi.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(300);
+  const context = new Proxy({}, { get: () => () => {} });
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(context as CanvasRenderingContext2D);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function renderLayer(props: Partial<Props> = {}) {
+  const mapRef = createRef<L.Map>();
+  const element = (overrides: Partial<Props>) => (
+    <MapContainer ref={mapRef} center={vasa.coordinates} zoom={13}>
+      <SchoolCanvasLayer {...defaultProps} {...overrides} />
+    </MapContainer>
+  );
+  const { rerender } = render(element(props));
+  const map = mapRef.current!;
+
+  const fireAt = (type: 'click' | 'mousemove', coordinates: [number, number], offsetX = 0) => {
+    const containerPoint = map.latLngToContainerPoint(coordinates).add([offsetX, 0]);
+    map.fire(type, { containerPoint, latlng: map.containerPointToLatLng(containerPoint) });
+  };
+
+  return { map, fireAt, rerender: (overrides: Partial<Props>) => rerender(element({ ...props, ...overrides })) };
+}
+
+describe('SchoolCanvasLayer', () => {
+  it('opens the school under a click', () => {
+    const onSchoolClick = vi.fn();
+    const { fireAt } = renderLayer({ onSchoolClick });
+
+    fireAt('click', vasa.coordinates);
+
+    expect(onSchoolClick).toHaveBeenCalledWith(vasa);
+  });
+
+  it('allows a few pixels beside the marker but not more', () => {
+    const onSchoolClick = vi.fn();
+    const { fireAt } = renderLayer({ onSchoolClick });
+
+    // The radius is 9 pixels at zoom 13, plus 3 pixels of tolerance
+    fireAt('click', vasa.coordinates, 12);
+    expect(onSchoolClick).toHaveBeenCalledTimes(1);
+
+    fireAt('click', vasa.coordinates, 13);
+    expect(onSchoolClick).toHaveBeenCalledTimes(1);
+  });
+
+  it('picks the school drawn on top when markers overlap', () => {
+    const onSchoolClick = vi.fn();
+    const { fireAt } = renderLayer({ schools: [vasa, nearby], onSchoolClick });
+
+    fireAt('click', vasa.coordinates);
+
+    expect(onSchoolClick).toHaveBeenCalledWith(nearby);
+  });
+
+  it('ignores clicks while not interactive', () => {
+    const onSchoolClick = vi.fn();
+    const { fireAt } = renderLayer({ interactive: false, onSchoolClick });
+
+    fireAt('click', vasa.coordinates);
+
+    expect(onSchoolClick).not.toHaveBeenCalled();
+  });
+
+  it('names the hovered school and clears it when the mouse leaves', () => {
+    const { map, fireAt } = renderLayer();
+    const container = map.getContainer();
+
+    fireAt('mousemove', vasa.coordinates);
+    expect(container.classList.contains('school-canvas-hover')).toBe(true);
+    expect(container.querySelector('.leaflet-tooltip')?.textContent).toBe('Vasaskolan');
+
+    fireAt('mousemove', vasa.coordinates, 50);
+    expect(container.classList.contains('school-canvas-hover')).toBe(false);
+    expect(container.querySelector('.leaflet-tooltip')).toBeNull();
+  });
+
+  it('hits the schools from the latest results', () => {
+    const onSchoolClick = vi.fn();
+    const { fireAt, rerender } = renderLayer({ onSchoolClick });
+
+    rerender({ schools: [outside] });
+    fireAt('click', vasa.coordinates);
+
+    expect(onSchoolClick).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,316 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { AdmissionChance, School } from '@/lib/types';
+import { getSchoolMarkerColor } from '@/lib/benchmarks';
+import { ShortlistStatus, getShortlistStatusColor } from '@/lib/shortlist';
+
+type ColorMode = 'performance' | 'category' | 'score' | 'admission';
+
+const PANE_NAME = 'schoolCanvasPane';
+const HIT_TOLERANCE = 3;
+
+interface ProjectedSchool {
+  school: School;
+  x: number;
+  y: number;
+}
+
+// Marker radius in pixels; shrinks when zoomed out so the whole country stays readable
+function getMarkerRadius(zoom: number): number {
+  if (zoom >= 13) return 9;
+  if (zoom >= 11) return 7;
+  if (zoom >= 9) return 5;
+  return 3;
+}
+
+// The canvas drawn on each map, for isSchoolAt
+const canvasesByMap = new WeakMap<L.Map, SchoolCanvas>();
+
+// Draws every school onto a single canvas instead of one DOM marker per school.
+// Circles for schools, squares for gymnasiums, same colors as the marker icons;
+// shortlisted schools get an outer ring in their status color.
+// Hit-testing runs against the positions from the last draw.
+class SchoolCanvas extends L.Layer {
+  private schools: School[] = [];
+  private colorMode: ColorMode = 'category';
+  private shortlistStatuses: Record<string, ShortlistStatus> = {};
+  private scores: Record<string, number> | null = null; // composite scores, in score mode
+  private admissionChances: Record<string, AdmissionChance> | null = null; // in admission mode
+  private interactive = true;
+  private onSchoolClick: (school: School) => void = () => {};
+
+  private canvas: HTMLCanvasElement | null = null;
+  private projected: ProjectedSchool[] = [];
+  private radius = 7;
+  private hovered: School | null = null;
+  private highlightedId: string | null = null; // hovered in the results list
+  private tooltip: L.Tooltip | null = null;
+
+  setSchools(
+    schools: School[],
+    colorMode: ColorMode,
+    shortlistStatuses: Record<string, ShortlistStatus>,
+    scores: Record<string, number> | null,
+    admissionChances: Record<string, AdmissionChance> | null
+  ) {
+    this.schools = schools;
+    this.colorMode = colorMode;
+    this.shortlistStatuses = shortlistStatuses;
+    this.scores = scores;
+    this.admissionChances = admissionChances;
+    this.redraw();
+  }
+
+  setHighlighted(schoolId: string | null) {
+    if (schoolId === this.highlightedId) return;
+    this.highlightedId = schoolId;
+    this.redraw();
+  }
+
+  setInteraction(interactive: boolean, onSchoolClick: (school: School) => void) {
+    this.interactive = interactive;
+    this.onSchoolClick = onSchoolClick;
+    if (!interactive) this.setHovered(null);
+  }
+
+  onAdd(map: L.Map): this {
+    if (!map.getPane(PANE_NAME)) {
+      // Above tiles and overlays, below the home marker and popups
+      map.createPane(PANE_NAME).style.zIndex = '450';
+    }
+
+    canvasesByMap.set(map, this);
+    this.canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide');
+    this.canvas.style.pointerEvents = 'none';
+    map.getPane(PANE_NAME)!.appendChild(this.canvas);
+
+    map.on('move zoomend viewreset resize', this.redraw, this);
+    map.on('mousemove', this.handleMouseMove, this);
+    map.on('mouseout', this.handleMouseOut, this);
+    map.on('click', this.handleClick, this);
+
+    this.redraw();
+    return this;
+  }
+
+  onRemove(map: L.Map): this {
+    map.off('move zoomend viewreset resize', this.redraw, this);
+    map.off('mousemove', this.handleMouseMove, this);
+    map.off('mouseout', this.handleMouseOut, this);
+    map.off('click', this.handleClick, this);
+    if (canvasesByMap.get(map) === this) canvasesByMap.delete(map);
+
+    this.setHovered(null);
+    this.canvas?.remove();
+    this.canvas = null;
+    return this;
+  }
+
+  private redraw() {
+    const map = this._map;
+    const canvas = this.canvas;
+    if (!map || !canvas) return;
+
+    const size = map.getSize();
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = size.x * pixelRatio;
+    canvas.height = size.y * pixelRatio;
+    canvas.style.width = `${size.x}px`;
+    canvas.style.height = `${size.y}px`;
+    // The pane moves with the map while panning; pin the canvas to the container
+    L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, size.x, size.y);
+
+    const radius = getMarkerRadius(map.getZoom());
+    this.radius = radius;
+    this.projected = [];
+
+    const borderWidth = radius >= 5 ? 2 : 1;
+
+    for (const school of this.schools) {
+      const point = map.latLngToContainerPoint(school.coordinates);
+      if (point.x < -radius || point.y < -radius || point.x > size.x + radius || point.y > size.y + radius) {
+        continue;
+      }
+      this.projected.push({ school, x: point.x, y: point.y });
+
+      ctx.fillStyle = this.getColor(school);
+      ctx.beginPath();
+      if (school.category === 'gymnasium') {
+        ctx.rect(point.x - radius, point.y - radius, radius * 2, radius * 2);
+      } else {
+        ctx.arc(point.x, point.y, radius, 0, Math.PI * 2);
+      }
+      ctx.fill();
+      ctx.lineWidth = borderWidth;
+      ctx.strokeStyle = 'white';
+      ctx.stroke();
+
+      const status = this.shortlistStatuses[school.id];
+      if (status) {
+        const outer = radius + borderWidth + 1;
+        ctx.lineWidth = 2.5;
+        ctx.strokeStyle = getShortlistStatusColor(status);
+        ctx.beginPath();
+        if (school.category === 'gymnasium') {
+          ctx.rect(point.x - outer, point.y - outer, outer * 2, outer * 2);
+        } else {
+          ctx.arc(point.x, point.y, outer, 0, Math.PI * 2);
+        }
+        ctx.stroke();
+      }
+    }
+
+    if (this.hovered) {
+      const hovered = this.projected.find(p => p.school === this.hovered);
+      if (hovered) {
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = 'hsl(0, 0%, 15%)';
+        ctx.beginPath();
+        ctx.arc(hovered.x, hovered.y, radius + 5, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    }
+
+    if (this.highlightedId) {
+      const highlighted = this.projected.find(p => p.school.id === this.highlightedId);
+      if (highlighted) {
+        // Redrawn on top and enlarged so it stands out in dense areas
+        const size = Math.max(radius, 7) + 2;
+        ctx.fillStyle = this.getColor(highlighted.school);
+        ctx.beginPath();
+        ctx.arc(highlighted.x, highlighted.y, size, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.lineWidth = 3;
+        ctx.strokeStyle = 'hsl(0, 0%, 15%)';
+        ctx.stroke();
+      }
+    }
+  }
+
+  private getColor(school: School): string {
+    return getSchoolMarkerColor(
+      school,
+      this.colorMode,
+      this.scores?.[school.id] ?? null,
+      this.admissionChances?.[school.id] ?? null
+    );
+  }
+
+  // Topmost school under the given container point; later schools are drawn on top
+  private hitTest(point: L.Point): School | null {
+    const maxDistance = (this.radius + HIT_TOLERANCE) ** 2;
+    for (let i = this.projected.length - 1; i >= 0; i--) {
+      const { school, x, y } = this.projected[i];
+      const dx = point.x - x;
+      const dy = point.y - y;
+      if (dx * dx + dy * dy <= maxDistance) return school;
+    }
+    return null;
+  }
+
+  // The school a click at this point would open, if any
+  schoolAt(point: L.Point): School | null {
+    return this.interactive ? this.hitTest(point) : null;
+  }
+
+  private setHovered(school: School | null) {
+    if (school === this.hovered) return;
+    this.hovered = school;
+
+    const map = this._map;
+    if (!map) return;
+
+    if (this.tooltip) {
+      map.closeTooltip(this.tooltip);
+      this.tooltip = null;
+    }
+    if (school) {
+      const content = document.createElement('span');
+      content.textContent = school.name;
+      this.tooltip = L.tooltip({ direction: 'top', offset: [0, -this.radius] })
+        .setLatLng(school.coordinates)
+        .setContent(content);
+      map.openTooltip(this.tooltip);
+    }
+    map.getContainer().classList.toggle('school-canvas-hover', school !== null);
+    this.redraw();
+  }
+
+  private handleMouseMove(e: L.LeafletMouseEvent) {
+    this.setHovered(this.schoolAt(e.containerPoint));
+  }
+
+  private handleMouseOut() {
+    this.setHovered(null);
+  }
+
+  private handleClick(e: L.LeafletMouseEvent) {
+    const school = this.schoolAt(e.containerPoint);
+    if (school) this.onSchoolClick(school);
+  }
+}
+
+// Whether a click at this container point opens a school. The canvas lets
+// pointer events through, so layers underneath get the same click first and
+// should ignore it when this is true.
+export function isSchoolAt(map: L.Map, point: L.Point): boolean {
+  const canvas = canvasesByMap.get(map);
+  return canvas !== undefined && canvas.schoolAt(point) !== null;
+}
+
+interface SchoolCanvasLayerProps {
+  schools: School[];
+  colorMode: ColorMode;
+  shortlistStatuses: Record<string, ShortlistStatus>;
+  scores: Record<string, number> | null;
+  admissionChances: Record<string, AdmissionChance> | null;
+  interactive: boolean;
+  highlightedId: string | null;
+  onSchoolClick: (school: School) => void;
+}
+
+export default function SchoolCanvasLayer({
+  schools,
+  colorMode,
+  shortlistStatuses,
+  scores,
+  admissionChances,
+  interactive,
+  highlightedId,
+  onSchoolClick,
+}: SchoolCanvasLayerProps) {
+  const map = useMap();
+  const layerRef = useRef<SchoolCanvas | null>(null);
+
+  useEffect(() => {
+    const layer = new SchoolCanvas();
+    layerRef.current = layer;
+    layer.addTo(map);
+    return () => {
+      layer.remove();
+      layerRef.current = null;
+    };
+  }, [map]);
+
+  useEffect(() => {
+    layerRef.current?.setSchools(schools, colorMode, shortlistStatuses, scores, admissionChances);
+  }, [schools, colorMode, shortlistStatuses, scores, admissionChances]);
+
+  useEffect(() => {
+    layerRef.current?.setHighlighted(highlightedId);
+  }, [highlightedId]);
+
+  useEffect(() => {
+    layerRef.current?.setInteraction(interactive, onSchoolClick);
+  }, [interactive, onSchoolClick]);
+
+  return null;
+}
@@ -0,0 +1,116 @@
+import { render } from '@testing-library/react';
+import L from 'leaflet';
+import { ComponentProps, createRef } from 'react';
+import { MapContainer } from 'react-leaflet';
+import { describe, expect, it, vi } from 'vitest';
+import { createSchool } from '@/test/fixtures';
+import { getCategoryColor, getPerformanceColor } from '@/lib/types';
+import SchoolClusterGroup from './SchoolClusterGroup';
+
+type Props = ComponentProps<typeof SchoolClusterGroup>;
+
+const high = createSchool({ id: 'high', coordinates: [59.31, 18.01], statistics: { meritValue: 290 } });
+const avg = createSchool({ id: 'avg', coordinates: [59.32, 18.02], statistics: { meritValue: 235 } });
+const low = createSchool({ id: 'low', coordinates: [59.33, 18.03], statistics: { meritValue: 150 } });
+const gymnasium = createSchool({ id: 'gy', category: 'gymnasium', coordinates: [59.34, 18.04] });
+
+const defaultProps: Props = {
+  schools: [high, avg, low, gymnasium],
+  colorMode: 'performance',
+  shortlistStatuses: {},
+  scores: null,
+  admissionChances: null,
+  highlightedId: null,
+  onSchoolClick: () => {},
+};
+
+function renderClusterGroup(props: Partial<Props> = {}) {
+  const mapRef = createRef<L.Map>();
+  const element = (overrides: Partial<Props>) => (
+    // The tile layer normally sets the max zoom the clusters are computed for
+    <MapContainer ref={mapRef} center={[59.3, 18]} zoom={10} maxZoom={18}>
+      <SchoolClusterGroup {...defaultProps} {...overrides} />
+    </MapContainer>
+  );
+  const { rerender } = render(element(props));
+
+  let group: L.MarkerClusterGroup | null = null;
+  mapRef.current!.eachLayer(layer => {
+    if (layer instanceof L.MarkerClusterGroup) group = layer;
+  });
+
+  const markers = () => group!.getLayers() as L.Marker[];
+  return {
+    group: group!,
+    markers,
+    markerAt: ([lat, lng]: [number, number]) => markers().find(m => m.getLatLng().equals([lat, lng]))!,
+    rerender: (overrides: Partial<Props>) => rerender(element({ ...props, ...overrides })),
+  };
+}
+
+const iconHtml = (marker: L.Marker) => (marker.options.icon as L.DivIcon).options.html as string;
+
+// The cluster icon only asks the cluster for its size and markers
+function clusterIcon(group: L.MarkerClusterGroup, markers: L.Marker[]): string {
+  const cluster = { getChildCount: () => markers.length, getAllChildMarkers: () => markers } as L.MarkerCluster;
+  return ((group.options as L.MarkerClusterGroupOptions).iconCreateFunction!(cluster) as L.DivIcon).options.html as string;
+}
+
+describe('SchoolClusterGroup', () => {
+  it('adds a marker per school and opens the school on click', () => {
+    const onSchoolClick = vi.fn();
+    const { markers, markerAt } = renderClusterGroup({ onSchoolClick });
+
+    expect(markers()).toHaveLength(4);
+    markerAt(avg.coordinates).fire('click');
+    expect(onSchoolClick).toHaveBeenCalledWith(avg);
+  });
+
+  it('keeps the markers of schools still in the results', () => {
+    const { markers, markerAt, rerender } = renderClusterGroup();
+    const kept = markerAt(high.coordinates);
+
+    rerender({ schools: [high, low] });
+
+    expect(markers()).toHaveLength(2);
+    expect(markerAt(high.coordinates)).toBe(kept);
+  });
+
+  it('only gives a marker a new icon when its look changes', () => {
+    const { markerAt, rerender } = renderClusterGroup();
+    const icon = markerAt(high.coordinates).options.icon;
+
+    rerender({ shortlistStatuses: { low: 'considering' } });
+    expect(markerAt(high.coordinates).options.icon).toBe(icon);
+    expect(iconHtml(markerAt(low.coordinates))).toContain('0 0 0 3px');
+
+    rerender({ colorMode: 'category' });
+    expect(iconHtml(markerAt(high.coordinates))).toContain(getCategoryColor('F-9'));
+  });
+
+  it('colors a cluster by the median performance level of its members', () => {
+    const { group, markerAt } = renderClusterGroup();
+    const members = [high, avg, low, gymnasium].map(s => markerAt(s.coordinates));
+
+    const html = clusterIcon(group, members);
+
+    expect(html).toContain(getPerformanceColor('avg'));
+    expect(html).toContain('>4</div>');
+    expect(clusterIcon(group, [markerAt(gymnasium.coordinates)])).toContain(getPerformanceColor(null));
+  });
+
+  it('colors a cluster by the median score in score mode', () => {
+    const { group, markerAt } = renderClusterGroup({ colorMode: 'score', scores: { high: 90, avg: 50, low: 10 } });
+
+    expect(clusterIcon(group, [high, avg, low].map(s => markerAt(s.coordinates)))).toContain(getPerformanceColor('avg'));
+  });
+
+  it('colors a cluster by its best admission chance in admission mode', () => {
+    const { group, markerAt } = renderClusterGroup({
+      colorMode: 'admission',
+      admissionChances: { high: 'out-of-reach', avg: 'borderline' },
+    });
+
+    expect(clusterIcon(group, [high, avg, low].map(s => markerAt(s.coordinates)))).toContain('hsl(45, 90%, 50%)');
+  });
+});
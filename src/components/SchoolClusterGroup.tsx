@@ -0,0 +1,290 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import MarkerClusterGroup from 'react-leaflet-cluster';
+import L from 'leaflet';
+import 'react-leaflet-cluster/dist/assets/MarkerCluster.css';
+import {
+  ADMISSION_CHANCES,
+  AdmissionChance,
+  School,
+  SchoolCategory,
+  PERFORMANCE_LEVELS,
+  getAdmissionChanceColor,
+  getCategoryLabel,
+  getPerformanceColor,
+  getScoreLevel,
+} from '@/lib/types';
+import { getSchoolMarkerColor, getSchoolPerformanceLevel } from '@/lib/benchmarks';
+import { ShortlistStatus, getShortlistStatusColor } from '@/lib/shortlist';
+
+type ColorMode = 'performance' | 'category' | 'score' | 'admission';
+
+const CATEGORY_ORDER: SchoolCategory[] = ['F-6', 'F-9', '7-9', 'gymnasium', 'anpassad', 'other'];
+const NEUTRAL_CLUSTER_COLOR = 'hsl(0, 0%, 35%)';
+
+// Leaflet markers only know their position, so the cluster icons look up
+// each marker's school here
+const markerSchools = new WeakMap<L.Marker, School>();
+
+// The icon html each marker was last given, so unchanged markers keep their icon
+const markerIconHtml = new WeakMap<L.Marker, string>();
+
+function isMarkerCluster(layer: unknown): layer is L.MarkerCluster {
+  return layer instanceof L.MarkerCluster;
+}
+
+function getSchoolIconHtml(
+  school: School,
+  colorMode: ColorMode,
+  shortlistStatus: ShortlistStatus | undefined,
+  score: number | null,
+  admissionChance: AdmissionChance | null
+): string {
+  const color = getSchoolMarkerColor(school, colorMode, score, admissionChance);
+  // Shortlisted schools get an outer ring in their status color
+  const outline = shortlistStatus ? `0 0 0 3px ${getShortlistStatusColor(shortlistStatus)}, ` : '';
+
+  // Category shape indicators
+  const isGymnasium = school.category === 'gymnasium';
+  const borderRadius = isGymnasium ? '4px' : '50%';
+
+  return `<div style="
+      width: 22px;
+      height: 22px;
+      background: ${color};
+      border: 2px solid white;
+      border-radius: ${borderRadius};
+      box-shadow: ${outline}0 2px 8px rgba(0,0,0,0.3);
+    "></div>`;
+}
+
+function createSchoolIcon(html: string): L.DivIcon {
+  return L.divIcon({
+    className: 'school-marker',
+    html,
+    iconSize: [22, 22],
+    iconAnchor: [11, 11],
+  });
+}
+
+function getClusterSchools(cluster: L.MarkerCluster): School[] {
+  return cluster
+    .getAllChildMarkers()
+    .map(marker => markerSchools.get(marker))
+    .filter((school): school is School => school !== undefined);
+}
+
+// Median performance level of the members that have one (merit or grade 6 pass rate)
+function getClusterColor(schools: School[]): string {
+  const levels = schools
+    .map(getSchoolPerformanceLevel)
+    .filter(level => level !== null)
+    .map(level => PERFORMANCE_LEVELS.indexOf(level))
+    .sort((a, b) => a - b);
+
+  if (levels.length === 0) return getPerformanceColor(null);
+  return getPerformanceColor(PERFORMANCE_LEVELS[levels[Math.floor((levels.length - 1) / 2)]]);
+}
+
+// Median composite score of the members that have one
+function getClusterScoreColor(schools: School[], scores: Record<string, number>): string {
+  const values = schools
+    .map(school => scores[school.id])
+    .filter(score => score !== undefined)
+    .sort((a, b) => a - b);
+
+  if (values.length === 0) return getPerformanceColor(null);
+  return getPerformanceColor(getScoreLevel(values[Math.floor((values.length - 1) / 2)]));
+}
+
+// Best admission chance among the members, so a cluster shows whether any
+// school in it is within reach
+function getClusterAdmissionColor(schools: School[], chances: Record<string, AdmissionChance>): string {
+  const best = Math.min(...schools.map(school => ADMISSION_CHANCES.indexOf(chances[school.id] ?? 'unknown')));
+  return getAdmissionChanceColor(ADMISSION_CHANCES[best] ?? null);
+}
+
+function getCategoryBreakdown(schools: School[]): string {
+  const counts = new Map<SchoolCategory, number>();
+  for (const school of schools) {
+    counts.set(school.category, (counts.get(school.category) || 0) + 1);
+  }
+
+  const rows = CATEGORY_ORDER
+    .filter(category => counts.has(category))
+    .map(category => `<div>${getCategoryLabel(category)}: <strong>${counts.get(category)}</strong></div>`)
+    .join('');
+
+  return `<div style="font-size: 12px; line-height: 1.4;">
+    <div style="font-weight: 600; margin-bottom: 2px;">${schools.length} skolor</div>
+    ${rows}
+  </div>`;
+}
+
+function createClusterIcon(
+  cluster: L.MarkerCluster,
+  colorMode: ColorMode,
+  scores: Record<string, number> | null,
+  admissionChances: Record<string, AdmissionChance> | null
+): L.DivIcon {
+  const count = cluster.getChildCount();
+  let color = NEUTRAL_CLUSTER_COLOR;
+  if (colorMode === 'performance') color = getClusterColor(getClusterSchools(cluster));
+  if (colorMode === 'score' && scores) color = getClusterScoreColor(getClusterSchools(cluster), scores);
+  if (colorMode === 'admission' && admissionChances) {
+    color = getClusterAdmissionColor(getClusterSchools(cluster), admissionChances);
+  }
+  const size = count < 10 ? 30 : count < 100 ? 36 : count < 1000 ? 42 : 48;
+
+  return L.divIcon({
+    className: 'school-cluster',
+    html: `<div style="
+      width: ${size}px;
+      height: ${size}px;
+      background: ${color};
+      border: 3px solid white;
+      border-radius: 50%;
+      box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      color: white;
+      font-size: 12px;
+      font-weight: 600;
+    ">${count}</div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+}
+
+interface SchoolClusterGroupProps {
+  schools: School[];
+  colorMode: ColorMode;
+  shortlistStatuses: Record<string, ShortlistStatus>;
+  scores: Record<string, number> | null;
+  admissionChances: Record<string, AdmissionChance> | null;
+  highlightedId: string | null;
+  onSchoolClick: (school: School) => void;
+}
+
+// Clustered alternative to SchoolCanvasLayer. Markers are plain Leaflet markers
+// managed outside React; the popup is rendered lazily by SchoolMap on click.
+export default function SchoolClusterGroup({
+  schools,
+  colorMode,
+  shortlistStatuses,
+  scores,
+  admissionChances,
+  highlightedId,
+  onSchoolClick,
+}: SchoolClusterGroupProps) {
+  const clusterGroupRef = useRef<L.MarkerClusterGroup>(null);
+  const markersByIdRef = useRef(new Map<string, L.Marker>());
+  const onSchoolClickRef = useRef(onSchoolClick);
+
+  useEffect(() => {
+    onSchoolClickRef.current = onSchoolClick;
+  }, [onSchoolClick]);
+
+  const iconCreateFunction = useCallback(
+    (cluster: L.MarkerCluster) => createClusterIcon(cluster, colorMode, scores, admissionChances),
+    [colorMode, scores, admissionChances]
+  );
+
+  // Markers are kept per school: schools that left the results are removed,
+  // new ones added and the rest only get a new icon if their color or
+  // shortlist status changed. Clusters are then redrawn with the current
+  // iconCreateFunction.
+  useEffect(() => {
+    const group = clusterGroupRef.current;
+    if (!group) return;
+    const markersById = markersByIdRef.current;
+
+    const ids = new Set(schools.map(school => school.id));
+    const removed: L.Marker[] = [];
+    for (const [id, marker] of markersById) {
+      if (!ids.has(id)) {
+        removed.push(marker);
+        markersById.delete(id);
+      }
+    }
+    group.removeLayers(removed);
+
+    const added: L.Marker[] = [];
+    for (const school of schools) {
+      const html = getSchoolIconHtml(
+        school,
+        colorMode,
+        shortlistStatuses[school.id],
+        scores?.[school.id] ?? null,
+        admissionChances?.[school.id] ?? null
+      );
+      const existing = markersById.get(school.id);
+      if (existing) {
+        if (markerIconHtml.get(existing) !== html) {
+          existing.setIcon(createSchoolIcon(html));
+          markerIconHtml.set(existing, html);
+        }
+        continue;
+      }
+      const marker = L.marker(school.coordinates, { icon: createSchoolIcon(html) });
+      marker.on('click', () => onSchoolClickRef.current(school));
+      markerSchools.set(marker, school);
+      markerIconHtml.set(marker, html);
+      markersById.set(school.id, marker);
+      added.push(marker);
+    }
+    group.addLayers(added);
+    group.refreshClusters();
+  }, [schools, colorMode, shortlistStatuses, scores, admissionChances]);
+
+  useEffect(() => {
+    const group = clusterGroupRef.current;
+    const markersById = markersByIdRef.current;
+    return () => {
+      group?.removeLayers([...markersById.values()]);
+      markersById.clear();
+    };
+  }, []);
+
+  // Outline the highlighted school's marker, or the cluster it is currently part of
+  useEffect(() => {
+    const group = clusterGroupRef.current;
+    const marker = highlightedId ? markersByIdRef.current.get(highlightedId) : undefined;
+    if (!group || !marker) return;
+
+    const element = (group.getVisibleParent(marker) as L.Marker | null)?.getElement();
+    element?.classList.add('school-highlight');
+    return () => element?.classList.remove('school-highlight');
+  }, [highlightedId]);
+
+  const handleMouseOver = useCallback((e: L.LeafletMouseEvent) => {
+    const cluster = e.propagatedFrom;
+    if (!isMarkerCluster(cluster)) return;
+    cluster
+      .bindTooltip(getCategoryBreakdown(getClusterSchools(cluster)), { direction: 'top', offset: [0, -16] })
+      .openTooltip();
+  }, []);
+
+  const handleMouseOut = useCallback((e: L.LeafletMouseEvent) => {
+    const cluster = e.propagatedFrom;
+    if (isMarkerCluster(cluster)) cluster.unbindTooltip();
+  }, []);
+
+  return (
+    <MarkerClusterGroup
+      ref={clusterGroupRef}
+      iconCreateFunction={iconCreateFunction}
+      chunkedLoading
+      showCoverageOnHover={false}
+      zoomToBoundsOnClick
+      spiderfyOnMaxZoom
+      maxClusterRadius={50}
+      onMouseOver={handleMouseOver}
+      onMouseOut={handleMouseOut}
+    >
+      {null}
+    </MarkerClusterGroup>
+  );
+}
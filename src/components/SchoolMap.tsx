@@ -1,21 +1,51 @@
 'use client';
 
-import { useEffect, useState, useCallback, useSyncExternalStore } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMapEvents, useMap } from 'react-leaflet';
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, Polygon, useMapEvents, useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import {
   School,
-  getMeritLevel,
-  getMeritColor,
-  calculateDistance,
-  getCategoryColor,
-  getPerformanceLevel,
-  getPerformanceColor,
+  DataChanges,
 } from '@/lib/types';
+import { useShortlist, useShortlistStatuses } from '@/lib/use-shortlist';
+import {
+  LocationIcon,
+  getPrimaryLocation,
+} from '@/lib/locations';
+import { useSavedLocations } from '@/lib/use-saved-locations';
+import { SchoolFilters } from '@/lib/filters';
+import { SchoolSort } from '@/lib/sorting';
+import { SchoolQuery } from '@/lib/school-query';
+import { useSchoolQuery } from '@/lib/use-school-query';
+import { GeoBounds } from '@/lib/spatial-index';
+import { computeSchoolScore, computeScores, createScoreModel } from '@/lib/score';
+import { useScoreWeights } from '@/lib/use-score-weights';
+import { ChoroplethMetric, computeMunicipalityStats } from '@/lib/municipality-stats';
+import { computeAdmissionChances } from '@/lib/admission';
+import { HeatmapSettings } from '@/lib/heatmap';
+import { useIsochrone } from '@/lib/use-isochrone';
+import { resolveMunicipality } from '@/lib/municipalities';
+import {
+  MapViewport,
+  buildShareUrl,
+  buildUrlSearch,
+  formatViewport,
+  isSameHistoryEntry,
+  parseUrlState,
+} from '@/lib/url-state';
 import SchoolPopup from './SchoolPopup';
 import Legend from './Legend';
 import FilterPanel from './FilterPanel';
+import SchoolClusterGroup from './SchoolClusterGroup';
+import SchoolCanvasLayer from './SchoolCanvasLayer';
+import MunicipalityLayer from './MunicipalityLayer';
+import HeatmapLayer from './HeatmapLayer';
+import ComparisonDrawer, { MAX_COMPARED_SCHOOLS } from './ComparisonDrawer';
+import ShortlistPanel from './ShortlistPanel';
+import ShareLinkButton from './ShareLinkButton';
+import ResultsPanel from './ResultsPanel';
+import { List } from 'lucide-react';
 
 // Fix for default marker icons in Leaflet with webpack
 delete (L.Icon.Default.prototype as unknown as { _getIconUrl?: unknown })._getIconUrl;
@@ -25,95 +55,31 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.9.4/images/marker-shadow.png',
 });
 
-type ColorMode = 'performance' | 'category';
-
-// Hook to sync with localStorage for home position
-const HOME_POSITION_KEY = 'homePosition';
-let homePositionListeners: Array<() => void> = [];
-
-function subscribeToHomePosition(callback: () => void) {
-  homePositionListeners.push(callback);
-  return () => {
-    homePositionListeners = homePositionListeners.filter(l => l !== callback);
-  };
-}
-
-function getHomePositionSnapshot(): HomePosition | null {
-  const saved = localStorage.getItem(HOME_POSITION_KEY);
-  return saved ? JSON.parse(saved) : null;
-}
-
-function getHomePositionServerSnapshot(): HomePosition | null {
-  return null;
-}
-
-function setStoredHomePosition(position: HomePosition | null) {
-  if (position) {
-    localStorage.setItem(HOME_POSITION_KEY, JSON.stringify(position));
-  } else {
-    localStorage.removeItem(HOME_POSITION_KEY);
-  }
-  // Notify all subscribers
-  homePositionListeners.forEach(l => l());
-}
-
-function useHomePosition(): [HomePosition | null, (position: HomePosition | null) => void] {
-  const position = useSyncExternalStore(
-    subscribeToHomePosition,
-    getHomePositionSnapshot,
-    getHomePositionServerSnapshot
-  );
-  return [position, setStoredHomePosition];
-}
-
-function createSchoolIcon(school: School, colorMode: ColorMode): L.DivIcon {
-  let color: string;
-
-  if (colorMode === 'category') {
-    color = getCategoryColor(school.category);
-  } else {
-    // Performance-based coloring
-    if (school.category === 'F-9' || school.category === '7-9') {
-      // Use merit for grade 9 schools
-      const level = getMeritLevel(school.statistics.meritValue);
-      color = getMeritColor(level);
-    } else if (school.category === 'F-6') {
-      // Use pass rate for grade 6 schools
-      const level = getPerformanceLevel(school.statistics.passRateGrade6, 100);
-      color = getPerformanceColor(level);
-    } else {
-      // Gymnasium or other - use category color
-      color = getCategoryColor(school.category);
-    }
-  }
-
-  // Category shape indicators
-  const isGymnasium = school.category === 'gymnasium';
-  const borderRadius = isGymnasium ? '4px' : '50%';
-
-  return L.divIcon({
-    className: 'school-marker',
-    html: `<div style="
-      width: 22px;
-      height: 22px;
-      background: ${color};
-      border: 2px solid white;
-      border-radius: ${borderRadius};
-      box-shadow: 0 2px 8px rgba(0,0,0,0.3);
-    "></div>`,
-    iconSize: [22, 22],
-    iconAnchor: [11, 11],
-    popupAnchor: [0, -11],
-  });
-}
-
-function createHomeIcon(): L.DivIcon {
+type ColorMode = 'performance' | 'category' | 'score' | 'admission';
+// The results list and the shortlist share the right-hand side of the map
+type SidePanel = 'results' | 'shortlist';
+
+// Filter changes this close together (typing a query, dragging a slider) make
+// one history entry rather than one per keystroke or slider step
+const HISTORY_SETTLE_MS = 1000;
+
+// White glyphs for the location markers, in a 24x24 viewBox
+const LOCATION_ICON_PATHS: Record<LocationIcon, string> = {
+  home: '<path d="M10 20v-6h4v6h5v-8h3L12 3 2 12h3v8z"/>',
+  work: '<path d="M10 4h4a2 2 0 0 1 2 2v1h4a1 1 0 0 1 1 1v11a1 1 0 0 1-1 1H4a1 1 0 0 1-1-1V8a1 1 0 0 1 1-1h4V6a2 2 0 0 1 2-2zm0 3h4V6h-4v1z"/>',
+  family: '<circle cx="9" cy="8" r="3"/><circle cx="16.5" cy="9" r="2.5"/><path d="M3 20c0-3.3 2.7-6 6-6s6 2.7 6 6H3zm13 0c0-2-.7-3.8-1.9-5.1.6-.3 1.3-.4 2-.4 2.8 0 4.9 2.3 4.9 5.5H16z"/>',
+  other: '<path d="M12 2a7 7 0 0 0-7 7c0 5.2 7 13 7 13s7-7.8 7-13a7 7 0 0 0-7-7zm0 9.5a2.5 2.5 0 1 1 0-5 2.5 2.5 0 0 1 0 5z"/>',
+};
+
+// The primary location is larger and darker than the others
+function createLocationIcon(icon: LocationIcon, isPrimary: boolean): L.DivIcon {
+  const size = isPrimary ? 32 : 26;
   return L.divIcon({
     className: 'home-marker',
     html: `<div style="
-      width: 32px;
-      height: 32px;
-      background: hsl(0, 0%, 20%);
+      width: ${size}px;
+      height: ${size}px;
+      background: ${isPrimary ? 'hsl(0, 0%, 20%)' : 'hsl(0, 0%, 45%)'};
       border: 3px solid white;
       border-radius: 50%;
       box-shadow: 0 2px 12px rgba(0,0,0,0.4);
@@ -121,30 +87,25 @@ function createHomeIcon(): L.DivIcon {
       align-items: center;
       justify-content: center;
     ">
-      <svg width="16" height="16" viewBox="0 0 24 24" fill="white" stroke="none">
-        <path d="M10 20v-6h4v6h5v-8h3L12 3 2 12h3v8z"/>
+      <svg width="${size / 2}" height="${size / 2}" viewBox="0 0 24 24" fill="white" stroke="none">
+        ${LOCATION_ICON_PATHS[icon]}
       </svg>
     </div>`,
-    iconSize: [32, 32],
-    iconAnchor: [16, 16],
-    popupAnchor: [0, -16],
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+    popupAnchor: [0, -size / 2],
   });
 }
 
-interface HomePosition {
-  lat: number;
-  lng: number;
-}
-
 interface MapClickHandlerProps {
   onMapClick: (lat: number, lng: number) => void;
-  isSettingHome: boolean;
+  isAddingLocation: boolean;
 }
 
-function MapClickHandler({ onMapClick, isSettingHome }: MapClickHandlerProps) {
+function MapClickHandler({ onMapClick, isAddingLocation }: MapClickHandlerProps) {
   useMapEvents({
     click: (e) => {
-      if (isSettingHome) {
+      if (isAddingLocation) {
         onMapClick(e.latlng.lat, e.latlng.lng);
       }
     },
@@ -153,20 +114,54 @@ function MapClickHandler({ onMapClick, isSettingHome }: MapClickHandlerProps) {
 }
 
 // Component to programmatically control the map
+interface MapTarget {
+  center: [number, number];
+  zoom: number;
+  animate: boolean; // fly there, or jump when restoring a URL
+}
+
 interface MapControllerProps {
-  center: [number, number] | null;
-  onCenterHandled: () => void;
+  target: MapTarget | null;
+  onTargetHandled: () => void;
 }
 
-function MapController({ center, onCenterHandled }: MapControllerProps) {
+function MapController({ target, onTargetHandled }: MapControllerProps) {
   const map = useMap();
 
   useEffect(() => {
-    if (center) {
-      map.flyTo(center, 14, { duration: 1 });
-      onCenterHandled();
+    if (target) {
+      if (target.animate) {
+        map.flyTo(target.center, target.zoom, { duration: 1 });
+      } else {
+        map.setView(target.center, target.zoom);
+      }
+      onTargetHandled();
     }
-  }, [center, map, onCenterHandled]);
+  }, [target, map, onTargetHandled]);
+
+  return null;
+}
+
+// Reports the viewport after every pan or zoom
+function ViewportTracker({ onViewportChange }: { onViewportChange: (viewport: MapViewport) => void }) {
+  const map = useMapEvents({
+    moveend: () => {
+      const center = map.getCenter();
+      onViewportChange({ lat: center.lat, lng: center.lng, zoom: map.getZoom() });
+    },
+  });
+  return null;
+}
+
+// Reports the visible area while the results list is limited to it
+function BoundsTracker({ onBoundsChange }: { onBoundsChange: (bounds: L.LatLngBounds) => void }) {
+  const map = useMapEvents({
+    moveend: () => onBoundsChange(map.getBounds()),
+  });
+
+  useEffect(() => {
+    onBoundsChange(map.getBounds());
+  }, [map, onBoundsChange]);
 
   return null;
 }
@@ -174,149 +169,501 @@ function MapController({ center, onCenterHandled }: MapControllerProps) {
 interface SchoolMapProps {
   schools: School[];
   dataFetchedAt?: string;
+  dataChanges?: DataChanges;
 }
 
-export default function SchoolMap({ schools, dataFetchedAt }: SchoolMapProps) {
-  const [homePosition, setHomePosition] = useHomePosition();
-  const [isSettingHome, setIsSettingHome] = useState(false);
-  const [filteredSchools, setFilteredSchools] = useState<School[]>(schools);
-  const [sortBy, setSortBy] = useState<'merit' | 'distance'>('merit');
-  const [mapCenter, setMapCenter] = useState<[number, number] | null>(null);
-  const [colorMode, setColorMode] = useState<ColorMode>('category');
+export default function SchoolMap({ schools, dataFetchedAt, dataChanges }: SchoolMapProps) {
+  // View state shared through the URL; the map is client-only so window is available
+  const [initialUrlState] = useState(() => parseUrlState(window.location.search));
+  const [savedLocations, locationActions] = useSavedLocations();
+  const [scoreWeights, setScoreWeights] = useScoreWeights();
+  const [shortlist, shortlistActions] = useShortlist();
+  const shortlistStatuses = useShortlistStatuses(shortlist);
+  const [sidePanel, setSidePanel] = useState<SidePanel | null>(null);
+  const [isAddingLocation, setIsAddingLocation] = useState(false);
+  const [filters, setFilters] = useState<SchoolFilters>(initialUrlState.filters);
+  const [sort, setSort] = useState<SchoolSort>(initialUrlState.sort);
+  const [mapTarget, setMapTarget] = useState<MapTarget | null>(null);
+  const [colorMode, setColorMode] = useState<ColorMode>(initialUrlState.colorMode);
+  const [clusterMarkers, setClusterMarkers] = useState(false);
+  const [choroplethMetric, setChoroplethMetric] = useState<ChoroplethMetric | null>(null);
+  const [choroplethError, setChoroplethError] = useState<string | null>(null);
+  const [heatmap, setHeatmap] = useState<HeatmapSettings | null>(null);
+  // Only the clicked school gets a popup; the key remounts it when the same school is clicked again
+  const [popupSchool, setPopupSchool] = useState<{ school: School; key: number } | null>(() => {
+    const school = schools.find(s => s.id === initialUrlState.schoolId);
+    return school ? { school, key: 0 } : null;
+  });
+  // Home position from a shared link, waiting for the user to accept it
+  const [sharedHome, setSharedHome] = useState(initialUrlState.home);
+  const viewportRef = useRef<MapViewport | null>(initialUrlState.viewport);
+  const urlInitializedRef = useRef(false);
+  const lastUrlWriteRef = useRef(0);
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [limitToViewport, setLimitToViewport] = useState(false);
+  const [mapBounds, setMapBounds] = useState<L.LatLngBounds | null>(null);
+
+  const newSchoolIds = useMemo(() => new Set(dataChanges?.newSchoolIds ?? []), [dataChanges]);
+
+  // The primary location doubles as "home" for directions and shared links
+  const primaryLocation = getPrimaryLocation(savedLocations);
+  const homePosition = useMemo(
+    () => primaryLocation ? { lat: primaryLocation.lat, lng: primaryLocation.lng } : null,
+    [primaryLocation]
+  );
+
+  // The first location is presumably home; the user can rename the rest
+  const addLocation = useCallback((lat: number, lng: number, address: string | null) => {
+    const isFirst = savedLocations.locations.length === 0;
+    locationActions.add({
+      name: isFirst ? 'Home' : `Location ${savedLocations.locations.length + 1}`,
+      icon: isFirst ? 'home' : 'other',
+      lat,
+      lng,
+      address,
+    });
+    setIsAddingLocation(false);
+  }, [savedLocations.locations.length, locationActions]);
 
   const handleMapClick = useCallback((lat: number, lng: number) => {
-    setHomePosition({ lat, lng });
-    setIsSettingHome(false);
-  }, [setHomePosition]);
-
-  const handleClearHome = useCallback(() => {
-    setHomePosition(null);
-  }, [setHomePosition]);
-
-  const handleHomePositionChange = useCallback((lat: number, lng: number) => {
-    setHomePosition({ lat, lng });
-    setMapCenter([lat, lng]);
-    setIsSettingHome(false);
-  }, [setHomePosition]);
-
-  const handleMapCenterHandled = useCallback(() => {
-    setMapCenter(null);
+    addLocation(lat, lng, null);
+  }, [addLocation]);
+
+  const handleLocationSearchSelect = useCallback((lat: number, lng: number, displayName: string) => {
+    addLocation(lat, lng, displayName);
+    setMapTarget({ center: [lat, lng], zoom: 14, animate: true });
+  }, [addLocation]);
+
+  const handleMapTargetHandled = useCallback(() => {
+    setMapTarget(null);
   }, []);
 
-  // Sort schools based on selection
-  const sortedSchools = [...filteredSchools].sort((a, b) => {
-    if (sortBy === 'merit') {
-      return (b.statistics.meritValue || 0) - (a.statistics.meritValue || 0);
-    }
-    if (sortBy === 'distance' && homePosition) {
-      const distA = calculateDistance(homePosition.lat, homePosition.lng, a.coordinates[0], a.coordinates[1]);
-      const distB = calculateDistance(homePosition.lat, homePosition.lng, b.coordinates[0], b.coordinates[1]);
-      return distA - distB;
+  const popupCounter = useRef(0);
+  const handleSchoolClick = useCallback((school: School) => {
+    popupCounter.current += 1;
+    setPopupSchool({ school, key: popupCounter.current });
+  }, []);
+
+  // From the results list, the shortlist or the search: fly there and open the popup
+  const handleSelectSchool = useCallback((school: School) => {
+    setMapTarget({ center: school.coordinates, zoom: 14, animate: true });
+    handleSchoolClick(school);
+  }, [handleSchoolClick]);
+
+  const handleAcceptSharedHome = () => {
+    if (!sharedHome) return;
+    const id = locationActions.add({ name: 'Shared location', icon: 'home', ...sharedHome, address: null });
+    locationActions.setPrimary(id);
+    setSharedHome(null);
+  };
+
+  // Write the view state to the URL. Discrete changes (filters, school, colors)
+  // push a history entry so back/forward works; typing, dragging and panning
+  // replace it.
+  const schoolId = popupSchool?.school.id ?? null;
+  useEffect(() => {
+    const search = buildUrlSearch({ filters, colorMode, sort, viewport: viewportRef.current, schoolId });
+    const current = window.location.search;
+    if (search === current) return;
+
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    const now = Date.now();
+    const isSettled = now - lastUrlWriteRef.current > HISTORY_SETTLE_MS;
+    lastUrlWriteRef.current = now;
+    // The first write only normalizes the URL we were opened with (and drops a shared home)
+    if (!urlInitializedRef.current || !isSettled || isSameHistoryEntry(search, current)) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
     }
-    return 0;
-  });
+    urlInitializedRef.current = true;
+  }, [filters, colorMode, sort, schoolId]);
+
+  const handleViewportChange = useCallback((viewport: MapViewport) => {
+    viewportRef.current = viewport;
+    const params = new URLSearchParams(window.location.search);
+    params.set('map', formatViewport(viewport));
+    window.history.replaceState(null, '', `${window.location.pathname}?${params}${window.location.hash}`);
+  }, []);
+
+  // Restore state when navigating back/forward
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = parseUrlState(window.location.search);
+      // Filters that depend on browser-local data aren't in the URL, so keep them
+      setFilters(current => ({
+        ...state.filters,
+        onlyShortlisted: current.onlyShortlisted,
+        maxDistance: current.maxDistance,
+        travelTime: current.travelTime,
+      }));
+      setColorMode(state.colorMode);
+      setSort(state.sort);
+
+      const school = schools.find(s => s.id === state.schoolId);
+      if (school) {
+        handleSchoolClick(school);
+      } else {
+        setPopupSchool(null);
+      }
+
+      if (state.viewport) {
+        viewportRef.current = state.viewport;
+        setMapTarget({ center: [state.viewport.lat, state.viewport.lng], zoom: state.viewport.zoom, animate: false });
+      }
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [schools, handleSchoolClick]);
+
+  const buildLink = useCallback((includeHome: boolean) => buildShareUrl(
+    { filters, colorMode, sort, viewport: viewportRef.current, schoolId },
+    includeHome ? homePosition : null
+  ), [filters, colorMode, sort, schoolId, homePosition]);
+
+  const handleToggleCompare = useCallback((schoolId: string) => {
+    setComparedIds(ids => {
+      if (ids.includes(schoolId)) return ids.filter(id => id !== schoolId);
+      return ids.length < MAX_COMPARED_SCHOOLS ? [...ids, schoolId] : ids;
+    });
+  }, []);
+
+  // Compared schools stay pinned even when the filters hide them on the map
+  const comparedSchools = useMemo(
+    () => comparedIds
+      .map(id => schools.find(s => s.id === id))
+      .filter((s): s is School => s !== undefined),
+    [comparedIds, schools]
+  );
 
-  // Stockholm center
-  const defaultCenter: [number, number] = [59.3293, 18.0686];
-  const defaultZoom = 11;
+  // Area reachable from the primary location within the travel time filter
+  const isochrone = useIsochrone(homePosition, filters.travelTime);
+
+  // Percentile ranks only depend on the dataset; the scores themselves are
+  // recomputed when the weights or locations change, and only when shown
+  const scoreModel = useMemo(() => createScoreModel(schools), [schools]);
+  const usesScores = colorMode === 'score' || sort.key === 'score' || heatmap?.metric === 'score';
+  const scores = useMemo(
+    () => usesScores ? computeScores(schools, scoreModel, scoreWeights, savedLocations) : null,
+    [usesScores, schools, scoreModel, scoreWeights, savedLocations]
+  );
+
+  const isResultsOpen = sidePanel === 'results';
+  const isLimitedToViewport = isResultsOpen && limitToViewport;
+  const listBounds = useMemo<GeoBounds | null>(
+    () => isLimitedToViewport && mapBounds
+      ? { south: mapBounds.getSouth(), west: mapBounds.getWest(), north: mapBounds.getNorth(), east: mapBounds.getEast() }
+      : null,
+    [isLimitedToViewport, mapBounds]
+  );
+
+  // Filtered and sorted off the main thread; the map layers only redraw when
+  // the result changes
+  const query = useMemo<SchoolQuery>(
+    () => ({ filters, shortlistedIds: shortlistStatuses, locations: savedLocations, isochrone, sort, scores }),
+    [filters, shortlistStatuses, savedLocations, isochrone, sort, scores]
+  );
+  const {
+    schools: sortedSchools,
+    listedSchools,
+    isListPending,
+    total: filteredCount,
+  } = useSchoolQuery(schools, query, listBounds);
+
+  const admissionChances = useMemo(
+    () => colorMode === 'admission' && filters.programs.length > 0
+      ? computeAdmissionChances(sortedSchools, filters.programs, filters.admissionPoints)
+      : null,
+    [colorMode, sortedSchools, filters.programs, filters.admissionPoints]
+  );
+
+  // Aggregates over all schools, not just the filtered ones, so the shading
+  // doesn't change when a municipality is picked
+  const municipalityStats = useMemo(() => computeMunicipalityStats(schools), [schools]);
+
+  const handleMunicipalityClick = useCallback((code: string) => {
+    const resolved = resolveMunicipality(code);
+    if (!resolved) return;
+    setFilters(current => ({
+      ...current,
+      county: resolved.county.name,
+      municipality: resolved.municipality.name,
+    }));
+  }, []);
+
+  const handleHighlightSchool = useCallback((school: School | null) => {
+    setHighlightedId(school?.id ?? null);
+  }, []);
+
+  const toggleSidePanel = (panel: SidePanel) => {
+    setSidePanel(current => current === panel ? null : panel);
+    setHighlightedId(null);
+  };
+
+  // Stockholm center, unless the URL says otherwise
+  const initialViewport = initialUrlState.viewport;
+  const initialCenter: [number, number] = initialViewport
+    ? [initialViewport.lat, initialViewport.lng]
+    : popupSchool?.school.coordinates ?? [59.3293, 18.0686];
+  const initialZoom = initialViewport?.zoom ?? (popupSchool ? 14 : 11);
 
   return (
     <div className="relative h-screen w-full">
       <MapContainer
-        center={defaultCenter}
-        zoom={defaultZoom}
+        center={initialCenter}
+        zoom={initialZoom}
         zoomControl={true}
         className="h-full w-full"
-        style={{ cursor: isSettingHome ? 'crosshair' : 'grab' }}
+        style={{ cursor: isAddingLocation ? 'crosshair' : 'grab' }}
       >
         <TileLayer
           attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
           url="https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png"
         />
 
-        <MapClickHandler onMapClick={handleMapClick} isSettingHome={isSettingHome} />
-        <MapController center={mapCenter} onCenterHandled={handleMapCenterHandled} />
-
-        {/* Home marker */}
-        {homePosition && (
-          <Marker
-            position={[homePosition.lat, homePosition.lng]}
-            icon={createHomeIcon()}
-            draggable={true}
-            eventHandlers={{
-              dragend: (e) => {
-                const marker = e.target;
-                const position = marker.getLatLng();
-                setHomePosition({ lat: position.lat, lng: position.lng });
-              },
-            }}
-          >
-            <Popup>
-              <div className="p-2">
-                <p className="font-medium">Your Home Location</p>
-                <p className="text-sm text-gray-500">Drag to move</p>
-                <button
-                  onClick={handleClearHome}
-                  className="mt-2 text-sm text-red-600 hover:text-red-800"
-                >
-                  Remove
-                </button>
-              </div>
-            </Popup>
-          </Marker>
-        )}
-
-        {/* School markers */}
-        {sortedSchools.map((school) => {
-          const distance = homePosition
-            ? calculateDistance(
-                homePosition.lat,
-                homePosition.lng,
-                school.coordinates[0],
-                school.coordinates[1]
-              )
-            : null;
+        <MapClickHandler onMapClick={handleMapClick} isAddingLocation={isAddingLocation} />
+        <MapController target={mapTarget} onTargetHandled={handleMapTargetHandled} />
+        <ViewportTracker onViewportChange={handleViewportChange} />
+        {isLimitedToViewport && <BoundsTracker onBoundsChange={setMapBounds} />}
 
+        {/* Saved locations */}
+        {savedLocations.locations.map(location => {
+          const isPrimary = location.id === primaryLocation?.id;
           return (
             <Marker
-              key={school.id}
-              position={school.coordinates}
-              icon={createSchoolIcon(school, colorMode)}
+              key={location.id}
+              position={[location.lat, location.lng]}
+              icon={createLocationIcon(location.icon, isPrimary)}
+              draggable={true}
+              zIndexOffset={isPrimary ? 1000 : 500}
+              eventHandlers={{
+                dragend: (e) => {
+                  const position = e.target.getLatLng();
+                  // A dragged marker no longer sits at the searched address
+                  locationActions.update(location.id, { lat: position.lat, lng: position.lng, address: null });
+                },
+              }}
             >
               <Popup>
-                <SchoolPopup
-                  school={school}
-                  homePosition={homePosition}
-                  distance={distance}
-                />
+                <div className="p-2">
+                  <p className="font-medium">{location.name}</p>
+                  <p className="text-sm text-gray-500">
+                    {isPrimary ? 'Primary location · ' : ''}Drag to move
+                  </p>
+                  <div className="mt-2 flex gap-3">
+                    {!isPrimary && (
+                      <button
+                        onClick={() => locationActions.setPrimary(location.id)}
+                        className="text-sm text-gray-700 hover:text-gray-900"
+                      >
+                        Make primary
+                      </button>
+                    )}
+                    <button
+                      onClick={() => locationActions.remove(location.id)}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
               </Popup>
             </Marker>
           );
         })}
+
+        {/* Municipality shading, below the schools */}
+        {choroplethMetric && (
+          <MunicipalityLayer
+            metric={choroplethMetric}
+            stats={municipalityStats}
+            interactive={!isAddingLocation}
+            onMunicipalityClick={handleMunicipalityClick}
+            onError={setChoroplethError}
+          />
+        )}
+
+        {/* Travel time area; dashed when it is only the offline estimate */}
+        {isochrone && (
+          <Polygon
+            positions={isochrone.polygon}
+            interactive={false}
+            pathOptions={{
+              color: '#2563eb',
+              weight: 2,
+              fillOpacity: 0.06,
+              dashArray: isochrone.source === 'offline' ? '6 6' : undefined,
+            }}
+          />
+        )}
+
+        {/* Interpolated surface of the filtered schools */}
+        {heatmap && <HeatmapLayer schools={sortedSchools} settings={heatmap} scores={scores} />}
+
+        {/* Schools: one canvas for all of them, or clustered markers */}
+        {clusterMarkers ? (
+          <SchoolClusterGroup
+            schools={sortedSchools}
+            colorMode={colorMode}
+            shortlistStatuses={shortlistStatuses}
+            scores={scores}
+            admissionChances={admissionChances}
+            highlightedId={highlightedId}
+            onSchoolClick={handleSchoolClick}
+          />
+        ) : (
+          <SchoolCanvasLayer
+            schools={sortedSchools}
+            colorMode={colorMode}
+            shortlistStatuses={shortlistStatuses}
+            scores={scores}
+            admissionChances={admissionChances}
+            interactive={!isAddingLocation}
+            highlightedId={highlightedId}
+            onSchoolClick={handleSchoolClick}
+          />
+        )}
+
+        {/* Popup for the clicked school, rendered on demand */}
+        {popupSchool && (
+          <Popup
+            key={popupSchool.key}
+            position={popupSchool.school.coordinates}
+            offset={[0, -4]}
+            eventHandlers={{ remove: () => setPopupSchool(null) }}
+          >
+            <SchoolPopup
+              school={popupSchool.school}
+              savedLocations={savedLocations}
+              score={computeSchoolScore(popupSchool.school, scoreModel, scoreWeights, savedLocations)}
+              selectedPrograms={filters.programs}
+              admissionPoints={filters.admissionPoints}
+              isNew={newSchoolIds.has(popupSchool.school.id)}
+              isCompared={comparedIds.includes(popupSchool.school.id)}
+              canCompare={comparedIds.length < MAX_COMPARED_SCHOOLS}
+              onToggleCompare={() => handleToggleCompare(popupSchool.school.id)}
+              shortlistEntry={shortlist[popupSchool.school.id] ?? null}
+              onToggleShortlist={() => shortlistActions.toggle(popupSchool.school.id)}
+              onUpdateShortlist={(changes) => shortlistActions.update(popupSchool.school.id, changes)}
+            />
+          </Popup>
+        )}
       </MapContainer>
 
       {/* Filter Panel */}
       <FilterPanel
         schools={schools}
-        onFilter={setFilteredSchools}
-        homePosition={homePosition}
-        isSettingHome={isSettingHome}
-        onSetHomeClick={() => setIsSettingHome(!isSettingHome)}
-        onClearHome={handleClearHome}
-        onHomePositionChange={handleHomePositionChange}
-        sortBy={sortBy}
-        onSortChange={setSortBy}
+        filters={filters}
+        onFiltersChange={setFilters}
+        filteredCount={filteredCount}
+        savedLocations={savedLocations}
+        locationActions={locationActions}
+        isAddingLocation={isAddingLocation}
+        onAddLocationClick={() => setIsAddingLocation(!isAddingLocation)}
+        onLocationSearchSelect={handleLocationSearchSelect}
+        isochrone={isochrone}
         colorMode={colorMode}
         onColorModeChange={setColorMode}
+        scoreWeights={scoreWeights}
+        onScoreWeightsChange={setScoreWeights}
+        clusterMarkers={clusterMarkers}
+        onClusterMarkersChange={setClusterMarkers}
+        choroplethMetric={choroplethMetric}
+        onChoroplethMetricChange={setChoroplethMetric}
+        choroplethError={choroplethError}
+        heatmap={heatmap}
+        onHeatmapChange={setHeatmap}
+        shortlistStatuses={shortlistStatuses}
+        isShortlistOpen={sidePanel === 'shortlist'}
+        onShortlistToggle={() => toggleSidePanel('shortlist')}
+        onSelectSchool={handleSelectSchool}
+      />
+
+      {/* Results list toggle and share link */}
+      <div className="absolute top-4 right-4 z-[1000] flex items-start gap-2">
+        <button
+          onClick={() => toggleSidePanel('results')}
+          className={`flex items-center gap-1.5 py-1.5 px-3 text-xs rounded-md shadow-soft transition-colors ${
+            isResultsOpen ? 'bg-primary text-primary-foreground' : 'bg-white hover:bg-gray-50 text-gray-700'
+          }`}
+        >
+          <List className="w-3.5 h-3.5" />
+          Results
+        </button>
+        <ShareLinkButton hasHome={homePosition !== null} buildUrl={buildLink} />
+      </div>
+
+      {/* Home position from a shared link */}
+      {sharedHome && (
+        <div className="absolute top-16 left-1/2 -translate-x-1/2 bg-white rounded-lg shadow-soft px-4 py-3 z-[1000] text-sm flex items-center gap-3">
+          <span>This link includes a home location.</span>
+          <button
+            onClick={handleAcceptSharedHome}
+            className="py-1 px-2 text-xs rounded-md bg-primary text-primary-foreground"
+          >
+            Use it
+          </button>
+          <button
+            onClick={() => setSharedHome(null)}
+            className="py-1 px-2 text-xs rounded-md bg-gray-100 hover:bg-gray-200 text-gray-700"
+          >
+            Ignore
+          </button>
+        </div>
+      )}
+
+      {/* Results list */}
+      {isResultsOpen && (
+        <ResultsPanel
+          schools={listedSchools}
+          isLoading={isListPending}
+          sort={sort}
+          onSortChange={setSort}
+          savedLocations={savedLocations}
+          scores={scores}
+          admissionChances={admissionChances}
+          colorMode={colorMode}
+          limitToViewport={limitToViewport}
+          onLimitToViewportChange={setLimitToViewport}
+          selectedId={schoolId}
+          onHighlightSchool={handleHighlightSchool}
+          onSelectSchool={handleSelectSchool}
+          onClose={() => toggleSidePanel('results')}
+        />
+      )}
+
+      {/* Shortlist */}
+      {sidePanel === 'shortlist' && (
+        <ShortlistPanel
+          schools={schools}
+          shortlist={shortlist}
+          actions={shortlistActions}
+          onSelectSchool={handleSelectSchool}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+
+      {/* Side-by-side comparison of pinned schools */}
+      <ComparisonDrawer
+        schools={comparedSchools}
+        savedLocations={savedLocations}
+        onRemove={handleToggleCompare}
+        onClear={() => setComparedIds([])}
       />
 
       {/* Legend */}
-      <Legend colorMode={colorMode} />
+      <Legend
+        colorMode={colorMode}
+        choroplethMetric={choroplethError ? null : choroplethMetric}
+        heatmapMetric={heatmap?.metric ?? null}
+      />
 
-      {/* Setting home mode indicator */}
-      {isSettingHome && (
+      {/* Adding location mode indicator */}
+      {isAddingLocation && (
         <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-primary text-primary-foreground px-4 py-2 rounded-full shadow-lg z-[1000]">
-          Click on the map to set your home location
+          Click on the map to add a location
         </div>
       )}
 
@@ -328,6 +675,11 @@ export default function SchoolMap({ schools, dataFetchedAt }: SchoolMapProps) {
             month: 'short',
             day: 'numeric',
           })}
+          {dataChanges && (
+            <span className="ml-1">
+              · {dataChanges.newSchoolIds.length} nya, {dataChanges.closedSchools.length} nedlagda
+            </span>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,11 @@
+'use client';
+
+import dynamic from 'next/dynamic';
+
+// Leaflet needs window, so the map is only rendered in the browser
+const SchoolMiniMap = dynamic(() => import('./SchoolMiniMapView'), {
+  ssr: false,
+  loading: () => <div className="h-64 w-full rounded-lg bg-muted animate-pulse" />,
+});
+
+export default SchoolMiniMap;
@@ -0,0 +1,45 @@
+'use client';
+
+import { MapContainer, TileLayer, CircleMarker, Tooltip } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { School, getCategoryColor } from '@/lib/types';
+
+export interface SchoolMiniMapProps {
+  school: School;
+  nearby: School[];
+}
+
+export default function SchoolMiniMapView({ school, nearby }: SchoolMiniMapProps) {
+  return (
+    <MapContainer
+      center={school.coordinates}
+      zoom={14}
+      scrollWheelZoom={false}
+      className="h-64 w-full rounded-lg"
+    >
+      <TileLayer
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
+        url="https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png"
+      />
+
+      {nearby.map((s) => (
+        <CircleMarker
+          key={s.id}
+          center={s.coordinates}
+          radius={6}
+          pathOptions={{ color: 'white', weight: 2, fillColor: getCategoryColor(s.category), fillOpacity: 0.9 }}
+        >
+          <Tooltip>{s.name}</Tooltip>
+        </CircleMarker>
+      ))}
+
+      <CircleMarker
+        center={school.coordinates}
+        radius={10}
+        pathOptions={{ color: 'white', weight: 3, fillColor: getCategoryColor(school.category), fillOpacity: 1 }}
+      >
+        <Tooltip permanent direction="top" offset={[0, -10]}>{school.name}</Tooltip>
+      </CircleMarker>
+    </MapContainer>
+  );
+}
@@ -6,43 +6,130 @@ import {
   formatDistance,
   getGoogleMapsDirectionsUrl,
   getCategoryLabel,
-  getTestPerformanceLevel,
-  getTestPerformanceLabel,
   getPerformanceColor,
-  getGymnasiumPerformanceLevel,
-  getGymnasiumPerformanceLabel,
+  getScoreLevel,
   getProgramName,
+  getAdmissionChanceColor,
+  getAdmissionChanceLabel,
+} from '@/lib/types';
+import {
   TEST_BENCHMARKS,
   GYMNASIUM_BENCHMARKS,
-} from '@/lib/types';
-import { MapPin, Users, GraduationCap, CheckCircle, TrendingUp, TrendingDown, BookOpen } from 'lucide-react';
+  getTestPerformanceLevel,
+  getTestPerformanceLabel,
+  getGymnasiumPerformanceLevel,
+  getGymnasiumPerformanceLabel,
+} from '@/lib/benchmarks';
+import Link from 'next/link';
+import { ShortlistEntry } from '@/lib/shortlist';
+import { SchoolScore, getScoreFactorLabel } from '@/lib/score';
+import { getAdmissionChance, getMatchingPrograms } from '@/lib/admission';
+import {
+  SavedLocations,
+  getCombinedDistance,
+  getDistanceModeLabel,
+  getLocationDistances,
+  getPrimaryLocation,
+  hasCombinedDistance,
+} from '@/lib/locations';
+import { MapPin, Users, GraduationCap, CheckCircle, BookOpen, Columns3, Star, ExternalLink } from 'lucide-react';
+import ShortlistEditor from './ShortlistEditor';
+import MetricHistory from './MetricHistory';
 
 interface SchoolPopupProps {
   school: School;
-  homePosition: { lat: number; lng: number } | null;
-  distance: number | null;
+  savedLocations: SavedLocations;
+  score?: SchoolScore | null; // composite score with the current weights
+  selectedPrograms?: string[]; // program families picked in the program finder
+  admissionPoints?: number | null; // student's expected merit points
+  isNew?: boolean; // first seen in the latest fetch
+  isCompared?: boolean;
+  canCompare?: boolean; // false once the comparison is full
+  onToggleCompare?: () => void;
+  shortlistEntry?: ShortlistEntry | null;
+  onToggleShortlist?: () => void;
+  onUpdateShortlist?: (changes: Partial<Omit<ShortlistEntry, 'schoolId'>>) => void;
 }
 
-export default function SchoolPopup({ school, homePosition, distance }: SchoolPopupProps) {
+export default function SchoolPopup({
+  school,
+  savedLocations,
+  score = null,
+  selectedPrograms = [],
+  admissionPoints = null,
+  isNew = false,
+  isCompared = false,
+  canCompare = true,
+  onToggleCompare,
+  shortlistEntry = null,
+  onToggleShortlist,
+  onUpdateShortlist,
+}: SchoolPopupProps) {
   const { statistics, category } = school;
   const meritPercentage = getMeritPercentage(statistics.meritValue);
   const hasGrade9Data = category === 'F-9' || category === '7-9';
   const hasGrade6Data = category === 'F-6' || category === 'F-9';
 
-  // Calculate trend from history
-  const trend = statistics.meritHistory.length >= 2
-    ? statistics.meritHistory[0].value - statistics.meritHistory[1].value
+  const homePosition = getPrimaryLocation(savedLocations);
+  const locationDistances = getLocationDistances(savedLocations, school.coordinates);
+  const combinedDistance = hasCombinedDistance(savedLocations) && savedLocations.locations.length > 1
+    ? getCombinedDistance(savedLocations, school.coordinates)
     : null;
 
   return (
     <div className="min-w-[280px] p-0">
       {/* Header */}
       <div className="border-b border-gray-100 pb-3 mb-3">
-        <h3 className="font-semibold text-lg leading-tight">{school.name}</h3>
+        <h3 className="font-semibold text-lg leading-tight">
+          {school.name}
+          {isNew && (
+            <span className="ml-2 align-middle text-[10px] font-medium uppercase tracking-wide bg-green-100 text-green-700 px-1.5 py-0.5 rounded">
+              Ny i år
+            </span>
+          )}
+        </h3>
         <p className="text-sm text-gray-500 mt-1">
           {getCategoryLabel(category)} · {school.ownership === 'municipal' ? 'Kommunal' : 'Fristående'}
         </p>
-        <p className="text-xs text-gray-400">{school.municipality}</p>
+        <p className="text-xs text-gray-400">
+          {school.postalCity && school.postalCity !== school.municipality && `${school.postalCity}, `}
+          {school.municipality}
+        </p>
+        <div className="mt-2 flex gap-2">
+          {onToggleShortlist && (
+            <button
+              onClick={onToggleShortlist}
+              className={`flex items-center gap-1 py-1 px-2 text-xs rounded-md transition-colors ${
+                shortlistEntry
+                  ? 'bg-amber-100 text-amber-800 hover:bg-amber-200'
+                  : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+              }`}
+            >
+              <Star className={`w-3 h-3 ${shortlistEntry ? 'fill-amber-400 text-amber-500' : ''}`} />
+              {shortlistEntry ? 'På min lista' : 'Spara'}
+            </button>
+          )}
+          {onToggleCompare && (
+            <button
+              onClick={onToggleCompare}
+              disabled={!isCompared && !canCompare}
+              className={`flex items-center gap-1 py-1 px-2 text-xs rounded-md transition-colors disabled:opacity-50 ${
+                isCompared
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+              }`}
+              title={!isCompared && !canCompare ? 'Du kan jämföra högst fyra skolor' : undefined}
+            >
+              <Columns3 className="w-3 h-3" />
+              {isCompared ? 'Jämförs' : 'Jämför'}
+            </button>
+          )}
+        </div>
+        {shortlistEntry && onUpdateShortlist && (
+          <div className="mt-2">
+            <ShortlistEditor entry={shortlistEntry} onChange={onUpdateShortlist} />
+          </div>
+        )}
       </div>
 
       {/* Grade 9 Data (Merit) */}
@@ -75,6 +162,13 @@ export default function SchoolPopup({ school, homePosition, distance }: SchoolPo
           ) : (
             <p className="text-xs text-gray-400 italic">Merit data not available</p>
           )}
+          <MetricHistory
+            history={statistics.history}
+            metrics={[
+              { metric: 'meritValue', label: 'Meritvärde' },
+              { metric: 'passRateGrade9', label: 'Godkänt' },
+            ]}
+          />
         </div>
       )}
 
@@ -153,6 +247,46 @@ export default function SchoolPopup({ school, homePosition, distance }: SchoolPo
               </p>
             </div>
           )}
+          <MetricHistory
+            history={statistics.history}
+            metrics={[
+              { metric: 'passRateGrade6', label: 'Godkänt' },
+              { metric: 'avgTestSwedish6', label: 'SV' },
+              { metric: 'avgTestEnglish6', label: 'EN' },
+              { metric: 'avgTestMath6', label: 'MA' },
+            ]}
+          />
+        </div>
+      )}
+
+      {/* Programs picked in the program finder, with admission points */}
+      {selectedPrograms.length > 0 && getMatchingPrograms(school, selectedPrograms).length > 0 && (
+        <div className="mb-4 p-3 bg-gray-50 rounded-lg">
+          <p className="text-xs text-gray-500 font-medium mb-1.5">Valda program</p>
+          <div className="space-y-1.5">
+            {getMatchingPrograms(school, selectedPrograms).map(program => {
+              const chance = getAdmissionChance(program, admissionPoints);
+              return (
+                <div key={program.code} className="text-xs">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">{getProgramName(program.code)}</span>
+                    {admissionPoints !== null && (
+                      <span
+                        className="px-1.5 py-0.5 rounded text-[10px] font-medium text-white"
+                        style={{ backgroundColor: getAdmissionChanceColor(chance) }}
+                      >
+                        {getAdmissionChanceLabel(chance)}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-gray-500">
+                    Antagning: lägst {program.admissionPointsMin?.toFixed(0) ?? '–'}p · snitt {program.admissionPointsAvg?.toFixed(0) ?? '–'}p
+                    {admissionPoints !== null && ` · dina ${admissionPoints}p`}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
         </div>
       )}
 
@@ -216,6 +350,12 @@ export default function SchoolPopup({ school, homePosition, distance }: SchoolPo
               )}
             </div>
           </div>
+          <p className="text-[10px] text-gray-500">
+            Viktat efter elevantal
+            {statistics.programPupils !== null
+              ? ` · baserat på ${statistics.programPupils} elever i ${statistics.programs.length} program`
+              : ` · ${statistics.programs.length} program (elevantal saknas, oviktat snitt)`}
+          </p>
           <p className="text-[10px] text-gray-400 mb-2">
             Snitt: Högskola {GYMNASIUM_BENCHMARKS.universityEligibilityRate.avg}% · Betyg {GYMNASIUM_BENCHMARKS.gradePoints.avg} · Examen {GYMNASIUM_BENCHMARKS.graduationRate.avg}%
           </p>
@@ -231,6 +371,7 @@ export default function SchoolPopup({ school, homePosition, distance }: SchoolPo
                     <span className="text-gray-500">
                       {program.universityEligibilityRate !== null && `${program.universityEligibilityRate.toFixed(0)}%`}
                       {program.admissionPointsAvg !== null && ` · ${program.admissionPointsAvg.toFixed(0)}p`}
+                      {program.totalPupils !== null && ` · ${program.totalPupils} elever`}
                     </span>
                   </div>
                 ))}
@@ -278,19 +419,6 @@ export default function SchoolPopup({ school, homePosition, distance }: SchoolPo
 
       {/* Stats */}
       <div className="space-y-2 text-sm border-b border-gray-100 pb-3 mb-3">
-        {trend !== null && hasGrade9Data && (
-          <div className="flex items-center gap-2">
-            {trend >= 0 ? (
-              <TrendingUp className="w-4 h-4 text-green-600" />
-            ) : (
-              <TrendingDown className="w-4 h-4 text-red-600" />
-            )}
-            <span>
-              5-årig trend: {trend >= 0 ? '+' : ''}{trend.toFixed(1)}
-            </span>
-          </div>
-        )}
-
         {statistics.certifiedTeachersRatio !== null && (
           <div className="flex items-center gap-2">
             <GraduationCap className="w-4 h-4 text-gray-400" />
@@ -328,13 +456,63 @@ export default function SchoolPopup({ school, homePosition, distance }: SchoolPo
         )}
       </div>
 
+      {/* Composite score */}
+      {score && score.total !== null && (
+        <div className="border-b border-gray-100 pb-3 mb-3">
+          <div className="flex items-baseline justify-between mb-1.5">
+            <span className="text-xs font-medium text-gray-600">Sammanvägd poäng</span>
+            <span className="text-lg font-bold" style={{ color: getPerformanceColor(getScoreLevel(score.total)) }}>
+              {score.total}
+              <span className="text-xs font-normal text-gray-400">/100</span>
+            </span>
+          </div>
+          <div className="space-y-1">
+            {score.parts.filter(part => part.weight > 0).map(part => (
+              <div key={part.factor} className="flex items-center gap-2 text-xs">
+                <span className="w-32 shrink-0 text-gray-600 truncate">
+                  {getScoreFactorLabel(part.factor)} <span className="text-gray-400">×{part.weight}</span>
+                </span>
+                <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                  {part.value !== null && (
+                    <div
+                      className="h-full rounded-full"
+                      style={{
+                        width: `${part.value * 100}%`,
+                        backgroundColor: getPerformanceColor(getScoreLevel(part.value * 100)),
+                      }}
+                    />
+                  )}
+                </div>
+                <span className="w-8 text-right text-gray-500">
+                  {part.value !== null ? Math.round(part.value * 100) : '–'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Distance & Directions */}
-      {homePosition && distance !== null && (
+      {homePosition && (
         <div className="space-y-2">
-          <div className="flex items-center gap-2 text-sm">
-            <MapPin className="w-4 h-4 text-gray-400" />
-            <span className="font-medium">{formatDistance(distance)} from home</span>
+          <div className="space-y-1 text-sm">
+            {locationDistances.map(({ location, distance }) => (
+              <div key={location.id} className="flex items-center gap-2">
+                <MapPin className="w-4 h-4 text-gray-400" />
+                <span>
+                  <span className="font-medium">{formatDistance(distance)}</span> from {location.name}
+                </span>
+              </div>
+            ))}
+            {combinedDistance !== null && (
+              <p className="text-xs text-gray-500 pl-6">
+                Combined ({getDistanceModeLabel(savedLocations.distanceMode).toLowerCase()}): {formatDistance(combinedDistance)}
+              </p>
+            )}
           </div>
+          {savedLocations.locations.length > 1 && (
+            <p className="text-[10px] text-gray-400">Directions from {homePosition.name}</p>
+          )}
 
           <div className="flex gap-2 mt-2">
             <a
@@ -386,14 +564,19 @@ export default function SchoolPopup({ school, homePosition, distance }: SchoolPo
         </div>
       )}
 
-      {/* Address */}
-      {school.address.street && (
-        <div className="mt-3 pt-3 border-t border-gray-100">
-          <p className="text-xs text-gray-400">
-            {school.address.street}, {school.address.postalCode} {school.address.city}
-          </p>
-        </div>
-      )}
+      {/* Address & detail page */}
+      <div className="mt-3 pt-3 border-t border-gray-100 flex items-end justify-between gap-2">
+        <p className="text-xs text-gray-400">
+          {school.address.street && `${school.address.street}, ${school.address.postalCode} ${school.address.city}`}
+        </p>
+        <Link
+          href={`/school/${school.id}`}
+          className="shrink-0 flex items-center gap-0.5 text-xs text-gray-600 hover:text-gray-900 hover:underline"
+        >
+          Visa skolsida
+          <ExternalLink className="w-3 h-3" />
+        </Link>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,52 @@
+'use client';
+
+import {
+  DEFAULT_SCORE_WEIGHTS,
+  MAX_SCORE_WEIGHT,
+  SCORE_FACTORS,
+  ScoreWeights,
+  getScoreFactorLabel,
+} from '@/lib/score';
+
+interface ScoreWeightsEditorProps {
+  weights: ScoreWeights;
+  onChange: (weights: ScoreWeights) => void;
+  hasLocations: boolean;
+}
+
+export default function ScoreWeightsEditor({ weights, onChange, hasLocations }: ScoreWeightsEditorProps) {
+  const isDefault = SCORE_FACTORS.every(factor => weights[factor] === DEFAULT_SCORE_WEIGHTS[factor]);
+
+  return (
+    <div className="space-y-1.5">
+      {SCORE_FACTORS.map(factor => (
+        <div key={factor}>
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>{getScoreFactorLabel(factor)}</span>
+            <span className="tabular-nums text-gray-400">{weights[factor]}</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={MAX_SCORE_WEIGHT}
+            step={1}
+            value={weights[factor]}
+            onChange={(e) => onChange({ ...weights, [factor]: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+      ))}
+      {!hasLocations && weights.distance > 0 && (
+        <p className="text-xs text-gray-400">Distance counts once you save a location</p>
+      )}
+      {!isDefault && (
+        <button
+          onClick={() => onChange(DEFAULT_SCORE_WEIGHTS)}
+          className="text-xs text-gray-500 hover:text-gray-700 underline"
+        >
+          Reset weights
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useState } from 'react';
+import { Link2, Check } from 'lucide-react';
+
+interface ShareLinkButtonProps {
+  hasHome: boolean;
+  buildUrl: (includeHome: boolean) => string;
+}
+
+// Copies a link to the current view. The primary location is left out unless
+// the user ticks the box, since it usually is their actual address.
+export default function ShareLinkButton({ hasHome, buildUrl }: ShareLinkButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [includeHome, setIncludeHome] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const url = isOpen ? buildUrl(hasHome && includeHome) : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Copy failed:', error);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1.5 py-1.5 px-3 text-xs rounded-md shadow-soft transition-colors ${
+          isOpen ? 'bg-primary text-primary-foreground' : 'bg-white hover:bg-gray-50 text-gray-700'
+        }`}
+      >
+        <Link2 className="w-3.5 h-3.5" />
+        Share
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white rounded-lg shadow-soft p-3 space-y-2">
+          <p className="text-xs text-gray-600">
+            Link to this view: filters, colors, map position and the open school.
+          </p>
+          <label className={`flex items-center gap-2 text-xs ${hasHome ? 'text-gray-700 cursor-pointer' : 'text-gray-400'}`}>
+            <input
+              type="checkbox"
+              checked={hasHome && includeHome}
+              disabled={!hasHome}
+              onChange={(e) => setIncludeHome(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Include my primary location
+          </label>
+          <input
+            readOnly
+            value={url}
+            onFocus={(e) => e.target.select()}
+            className="w-full px-2 py-1 text-xs border border-gray-200 rounded-md bg-gray-50"
+          />
+          <button
+            onClick={handleCopy}
+            className="w-full flex items-center justify-center gap-1.5 py-1.5 px-2 text-xs rounded-md bg-gray-100 hover:bg-gray-200 text-gray-700"
+          >
+            {copied ? <Check className="w-3.5 h-3.5 text-green-600" /> : <Link2 className="w-3.5 h-3.5" />}
+            {copied ? 'Copied' : 'Copy link'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
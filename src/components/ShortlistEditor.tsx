@@ -0,0 +1,50 @@
+'use client';
+
+import {
+  ShortlistEntry,
+  SHORTLIST_STATUSES,
+  getShortlistStatusColor,
+  getShortlistStatusLabel,
+} from '@/lib/shortlist';
+
+interface ShortlistEditorProps {
+  entry: ShortlistEntry;
+  onChange: (changes: Partial<Omit<ShortlistEntry, 'schoolId'>>) => void;
+}
+
+export default function ShortlistEditor({ entry, onChange }: ShortlistEditorProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        {SHORTLIST_STATUSES.map((status) => (
+          <button
+            key={status}
+            onClick={() => onChange({ status })}
+            className={`flex-1 py-1 px-1.5 text-xs rounded-md border-2 transition-colors ${
+              entry.status === status ? 'font-medium' : 'border-transparent bg-gray-100 hover:bg-gray-200 text-gray-700'
+            }`}
+            style={entry.status === status ? { borderColor: getShortlistStatusColor(status) } : undefined}
+          >
+            {getShortlistStatusLabel(status)}
+          </button>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-xs text-gray-600">
+        Besöksdatum
+        <input
+          type="date"
+          value={entry.visitDate ?? ''}
+          onChange={(e) => onChange({ visitDate: e.target.value || null })}
+          className="flex-1 px-2 py-1 text-xs border border-gray-200 rounded-md"
+        />
+      </label>
+      <textarea
+        value={entry.notes}
+        onChange={(e) => onChange({ notes: e.target.value })}
+        placeholder="Anteckningar…"
+        rows={3}
+        className="w-full px-2 py-1 text-xs border border-gray-200 rounded-md resize-y"
+      />
+    </div>
+  );
+}
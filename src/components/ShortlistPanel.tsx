@@ -0,0 +1,117 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { School, getCategoryLabel } from '@/lib/types';
+import {
+  Shortlist,
+  SHORTLIST_STATUSES,
+  getShortlistStatusColor,
+  getShortlistStatusLabel,
+} from '@/lib/shortlist';
+import { ShortlistActions } from '@/lib/use-shortlist';
+import { Star, X, ChevronDown, ChevronUp } from 'lucide-react';
+import ShortlistEditor from './ShortlistEditor';
+
+interface ShortlistPanelProps {
+  schools: School[];
+  shortlist: Shortlist;
+  actions: ShortlistActions;
+  onSelectSchool: (school: School) => void;
+  onClose: () => void;
+}
+
+export default function ShortlistPanel({ schools, shortlist, actions, onSelectSchool, onClose }: ShortlistPanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const schoolsById = useMemo(() => new Map(schools.map(s => [s.id, s])), [schools]);
+
+  // Grouped by status, most recently added first within each group
+  const entries = useMemo(() => Object.values(shortlist).sort((a, b) =>
+    SHORTLIST_STATUSES.indexOf(a.status) - SHORTLIST_STATUSES.indexOf(b.status) ||
+    b.addedAt.localeCompare(a.addedAt)
+  ), [shortlist]);
+
+  return (
+    <div className="absolute top-16 right-4 bg-white rounded-lg shadow-soft z-[1000] w-80 max-h-[calc(100%-10rem)] flex flex-col">
+      <div className="flex items-center justify-between p-3 border-b border-gray-100">
+        <h2 className="font-semibold text-sm flex items-center gap-1.5">
+          <Star className="w-4 h-4 fill-amber-400 text-amber-400" />
+          Min lista ({entries.length})
+        </h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto p-2 space-y-2">
+        {entries.length === 0 && (
+          <p className="text-xs text-gray-500 p-2">
+            Stjärnmärk skolor från deras popup för att lägga till dem här.
+          </p>
+        )}
+
+        {entries.map(entry => {
+          const school = schoolsById.get(entry.schoolId);
+          const isEditing = editingId === entry.schoolId;
+
+          return (
+            <div
+              key={entry.schoolId}
+              className="border-l-4 rounded-md bg-gray-50 p-2"
+              style={{ borderColor: getShortlistStatusColor(entry.status) }}
+            >
+              <div className="flex items-start justify-between gap-2">
+                {school ? (
+                  <button
+                    onClick={() => onSelectSchool(school)}
+                    className="text-left text-sm font-medium leading-tight hover:underline"
+                  >
+                    {school.name}
+                  </button>
+                ) : (
+                  <span className="text-sm text-gray-400 leading-tight">
+                    Skolan finns inte längre i datan ({entry.schoolId})
+                  </span>
+                )}
+                <button
+                  onClick={() => actions.toggle(entry.schoolId)}
+                  className="text-gray-400 hover:text-red-600 shrink-0"
+                  title="Ta bort från listan"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+
+              <p className="text-xs text-gray-500 mt-0.5">
+                {getShortlistStatusLabel(entry.status)}
+                {school && ` · ${getCategoryLabel(school.category)} · ${school.municipality}`}
+                {entry.visitDate && ` · besök ${entry.visitDate}`}
+              </p>
+
+              {!isEditing && entry.notes && (
+                <p className="text-xs text-gray-700 mt-1 line-clamp-2 whitespace-pre-line">{entry.notes}</p>
+              )}
+
+              <button
+                onClick={() => setEditingId(isEditing ? null : entry.schoolId)}
+                className="mt-1 flex items-center gap-0.5 text-[11px] text-gray-500 hover:text-gray-700"
+              >
+                {isEditing ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                {isEditing ? 'Stäng' : 'Redigera'}
+              </button>
+
+              {isEditing && (
+                <div className="mt-2">
+                  <ShortlistEditor
+                    entry={entry}
+                    onChange={changes => actions.update(entry.schoolId, changes)}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
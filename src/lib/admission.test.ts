@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { createSchool } from '@/test/fixtures';
+import { GymnasiumProgram } from './types';
+import {
+  computeAdmissionChances,
+  getAdmissionChance,
+  getProgramFamily,
+  getProgramOptions,
+  getSchoolAdmissionChance,
+} from './admission';
+
+function createProgram(code: string, admissionPointsMin: number | null, admissionPointsAvg: number | null): GymnasiumProgram {
+  return {
+    code,
+    universityEligibilityRate: null,
+    gradePoints: null,
+    graduationRate: null,
+    admissionPointsAvg,
+    admissionPointsMin,
+    totalPupils: null,
+    history: {},
+  };
+}
+
+describe('getProgramFamily', () => {
+  it('drops the curriculum suffix', () => {
+    expect(getProgramFamily('NA25')).toBe('NA');
+    expect(getProgramFamily('te')).toBe('TE');
+  });
+});
+
+describe('getAdmissionChance', () => {
+  const program = createProgram('NA25', 220, 260);
+
+  it('is safe at or above the average', () => {
+    expect(getAdmissionChance(program, 260)).toBe('safe');
+    expect(getAdmissionChance(program, 300)).toBe('safe');
+  });
+
+  it('is borderline between the lowest and the average', () => {
+    expect(getAdmissionChance(program, 220)).toBe('borderline');
+    expect(getAdmissionChance(program, 259.5)).toBe('borderline');
+  });
+
+  it('is out of reach below the lowest', () => {
+    expect(getAdmissionChance(program, 219.5)).toBe('out-of-reach');
+  });
+
+  it('makes do with one of the figures', () => {
+    expect(getAdmissionChance(createProgram('NA25', null, 260), 250)).toBe('borderline');
+    expect(getAdmissionChance(createProgram('NA25', 220, null), 230)).toBe('safe');
+    expect(getAdmissionChance(createProgram('NA25', 220, null), 210)).toBe('out-of-reach');
+  });
+
+  it('is unknown without points or figures', () => {
+    expect(getAdmissionChance(program, null)).toBe('unknown');
+    expect(getAdmissionChance(createProgram('NA25', null, null), 250)).toBe('unknown');
+  });
+});
+
+describe('getSchoolAdmissionChance', () => {
+  const school = createSchool({
+    category: 'gymnasium',
+    statistics: { programs: [createProgram('NA25', 280, 300), createProgram('NA21', 240, 270), createProgram('TE25', 200, 220)] },
+  });
+
+  it('takes the best chance among the chosen programs', () => {
+    expect(getSchoolAdmissionChance(school, ['NA'], 250)).toBe('borderline');
+    expect(getSchoolAdmissionChance(school, ['NA', 'TE'], 250)).toBe('safe');
+    expect(getSchoolAdmissionChance(school, ['EK'], 250)).toBe('unknown');
+  });
+});
+
+describe('computeAdmissionChances', () => {
+  it('only has the schools offering a chosen program', () => {
+    const offering = createSchool({ id: '1', statistics: { programs: [createProgram('EK25', 230, 250)] } });
+    const other = createSchool({ id: '2', statistics: { programs: [createProgram('TE25', 200, 220)] } });
+    expect(computeAdmissionChances([offering, other], ['EK'], 240)).toEqual({ '1': 'borderline' });
+  });
+});
+
+describe('getProgramOptions', () => {
+  it('lists each program family once with the number of schools offering it', () => {
+    const schools = [
+      createSchool({ statistics: { programs: [createProgram('NA25', null, null), createProgram('NA21', null, null)] } }),
+      createSchool({ statistics: { programs: [createProgram('NA25', null, null), createProgram('TE25', null, null)] } }),
+    ];
+    expect(getProgramOptions(schools).map(({ family, schoolCount }) => ({ family, schoolCount }))).toEqual([
+      { family: 'NA', schoolCount: 2 },
+      { family: 'TE', schoolCount: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import { ADMISSION_CHANCES, AdmissionChance, GymnasiumProgram, School, getProgramName } from './types';
+
+// Gymnasium program finder: which schools offer the chosen programs, and how
+// likely a student with the given merit points is to get in
+
+// Program codes carry a curriculum suffix (NA25, TE25); the letters identify
+// the program across curricula
+export function getProgramFamily(code: string): string {
+  return code.replace(/\d+$/, '').toUpperCase();
+}
+
+export interface ProgramOption {
+  family: string;
+  name: string;
+  schoolCount: number;
+}
+
+// Every program offered somewhere in the dataset, by name
+export function getProgramOptions(schools: School[]): ProgramOption[] {
+  const options = new Map<string, ProgramOption>();
+  for (const school of schools) {
+    const families = new Set(school.statistics.programs.map(p => getProgramFamily(p.code)));
+    for (const family of families) {
+      const option = options.get(family);
+      if (option) {
+        option.schoolCount++;
+      } else {
+        const code = school.statistics.programs.find(p => getProgramFamily(p.code) === family)!.code;
+        options.set(family, { family, name: getProgramName(code), schoolCount: 1 });
+      }
+    }
+  }
+  return [...options.values()].sort((a, b) => a.name.localeCompare(b.name, 'sv'));
+}
+
+export function getMatchingPrograms(school: School, families: string[]): GymnasiumProgram[] {
+  return school.statistics.programs.filter(p => families.includes(getProgramFamily(p.code)));
+}
+
+export function offersProgram(school: School, families: string[]): boolean {
+  return school.statistics.programs.some(p => families.includes(getProgramFamily(p.code)));
+}
+
+// Safe at or above the average admitted points, borderline between the lowest
+// and the average, out of reach below the lowest. Without a lowest figure,
+// anything under the average is borderline.
+export function getAdmissionChance(program: GymnasiumProgram, points: number | null): AdmissionChance {
+  const { admissionPointsMin: min, admissionPointsAvg: avg } = program;
+  if (points === null || (min === null && avg === null)) return 'unknown';
+  if (avg !== null && points >= avg) return 'safe';
+  if (min === null) return 'borderline';
+  if (points >= min) return avg !== null ? 'borderline' : 'safe';
+  return 'out-of-reach';
+}
+
+// Best chance across the school's programs among the chosen ones
+export function getSchoolAdmissionChance(school: School, families: string[], points: number | null): AdmissionChance {
+  let best: AdmissionChance = 'unknown';
+  for (const program of getMatchingPrograms(school, families)) {
+    const chance = getAdmissionChance(program, points);
+    if (ADMISSION_CHANCES.indexOf(chance) < ADMISSION_CHANCES.indexOf(best)) best = chance;
+  }
+  return best;
+}
+
+// Chance per school id for the schools offering any of the programs
+export function computeAdmissionChances(
+  schools: School[],
+  families: string[],
+  points: number | null
+): Record<string, AdmissionChance> {
+  const chances: Record<string, AdmissionChance> = {};
+  for (const school of schools) {
+    if (offersProgram(school, families)) chances[school.id] = getSchoolAdmissionChance(school, families, points);
+  }
+  return chances;
+}
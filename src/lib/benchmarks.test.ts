@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createSchool } from '@/test/fixtures';
+import { getCategoryColor, getPerformanceColor } from './types';
+import { BENCHMARKS, getMeritLevel, getSchoolMarkerColor, getSchoolPerformanceLevel } from './benchmarks';
+
+// A dataset with computed benchmarks for merit only
+vi.mock('@/data/schools.json', () => ({
+  default: {
+    metadata: {
+      benchmarks: { meritValue: { avg: 220, p10: 180, p25: 195, p50: 222, p75: 240, p90: 265, count: 1200 } },
+    },
+    schools: [],
+  },
+}));
+
+describe('BENCHMARKS', () => {
+  it('prefers the benchmarks computed from the dataset', () => {
+    expect(BENCHMARKS.meritValue.avg).toBe(220);
+    expect(getMeritLevel(265)).toBe('high');
+    expect(getMeritLevel(225)).toBe('avg');
+  });
+
+  it('falls back to the defaults for metrics without computed benchmarks', () => {
+    expect(BENCHMARKS.passRateGrade6).toMatchObject({ avg: 85, count: 0 });
+  });
+});
+
+describe('getSchoolPerformanceLevel', () => {
+  it('grades grade 9 schools on merit and F-6 schools on the grade 6 pass rate', () => {
+    expect(getSchoolPerformanceLevel(createSchool({ category: '7-9', statistics: { meritValue: 270 } }))).toBe('high');
+    expect(getSchoolPerformanceLevel(createSchool({ category: 'F-6', statistics: { passRateGrade6: 70 } }))).toBe('low');
+  });
+
+  it('has no level for other categories or without data', () => {
+    expect(getSchoolPerformanceLevel(createSchool({ category: 'gymnasium', statistics: { meritValue: 270 } }))).toBeNull();
+    expect(getSchoolPerformanceLevel(createSchool({ category: 'F-9', statistics: { meritValue: null } }))).toBeNull();
+  });
+});
+
+describe('getSchoolMarkerColor', () => {
+  const school = createSchool({ category: 'F-9', statistics: { meritValue: 270 } });
+  const gymnasium = createSchool({ category: 'gymnasium' });
+
+  it('colors by performance, keeping the category color for schools without a level', () => {
+    expect(getSchoolMarkerColor(school, 'performance')).toBe(getPerformanceColor('high'));
+    expect(getSchoolMarkerColor(gymnasium, 'performance')).toBe(getCategoryColor('gymnasium'));
+    expect(getSchoolMarkerColor(school, 'category')).toBe(getCategoryColor('F-9'));
+  });
+
+  it('colors by score and admission chance, gray without one', () => {
+    expect(getSchoolMarkerColor(school, 'score', 10)).toBe(getPerformanceColor('low'));
+    expect(getSchoolMarkerColor(school, 'score')).toBe(getPerformanceColor(null));
+    expect(getSchoolMarkerColor(gymnasium, 'admission', null, 'safe')).toBe('hsl(120, 60%, 40%)');
+    expect(getSchoolMarkerColor(gymnasium, 'admission')).toBe('hsl(0, 0%, 60%)');
+  });
+});
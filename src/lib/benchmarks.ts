@@ -0,0 +1,131 @@
+import schoolData from '@/data/schools.json';
+import {
+  AdmissionChance,
+  Benchmark,
+  DataMetadata,
+  HistoryMetric,
+  MeritLevel,
+  PerformanceLevel,
+  School,
+  TestSubject,
+  YearlyAverages,
+  getAdmissionChanceColor,
+  getBenchmarkLabel,
+  getBenchmarkLevel,
+  getCategoryColor,
+  getPerformanceColor,
+  getScoreLevel,
+} from './types';
+
+// Benchmarks come from the dataset, so everything that compares against them
+// lives here rather than in types.ts, which stays free of data imports.
+
+// Fallbacks for datasets processed before benchmarks were computed.
+// These are the old hand-typed thresholds; process-data replaces them with
+// national averages and percentiles derived from the current data.
+const DEFAULT_BENCHMARKS: Record<HistoryMetric, Benchmark> = {
+  meritValue: { avg: 230, p10: 185, p25: 200, p50: 232, p75: 250, p90: 280, count: 0 },
+  passRateGrade9: { avg: 83, p10: 62, p25: 74, p50: 86, p75: 94, p90: 98, count: 0 },
+  passRateGrade6: { avg: 85, p10: 66, p25: 77, p50: 88, p75: 95, p90: 99, count: 0 },
+  avgTestSwedish6: { avg: 12.6, p10: 10.1, p25: 10.7, p50: 12.6, p75: 13.8, p90: 14.8, count: 0 },
+  avgTestEnglish6: { avg: 15.6, p10: 12.6, p25: 13.3, p50: 15.7, p75: 16.6, p90: 17.4, count: 0 },
+  avgTestMath6: { avg: 11.4, p10: 9.1, p25: 9.7, p50: 11.4, p75: 12.9, p90: 14.2, count: 0 },
+  universityEligibilityRate: { avg: 73, p10: 45, p25: 62, p50: 76, p75: 85, p90: 95, count: 0 },
+  gradePoints: { avg: 14.0, p10: 11.5, p25: 11.9, p50: 14.0, p75: 14.8, p90: 15.5, count: 0 },
+  graduationRate: { avg: 78, p10: 55, p25: 66.3, p50: 80, p75: 88, p90: 95, count: 0 },
+  studentsPerTeacher: { avg: 12.5, p10: 9.5, p25: 11, p50: 12.5, p75: 14, p90: 15.5, count: 0 },
+  certifiedTeachersRatio: { avg: 72, p10: 48, p25: 61, p50: 74, p75: 84, p90: 91, count: 0 },
+  totalPupils: { avg: 280, p10: 60, p25: 130, p50: 250, p75: 400, p90: 560, count: 0 },
+};
+
+const metadata = schoolData.metadata as DataMetadata;
+const computed = metadata.benchmarks ?? {};
+
+// Benchmarks for every metric, preferring those computed from the loaded dataset
+export const BENCHMARKS: Record<HistoryMetric, Benchmark> = {
+  ...DEFAULT_BENCHMARKS,
+  ...computed,
+};
+
+// Per-year national averages; empty for datasets processed before they were
+// computed, in which case charts fall back to the single BENCHMARKS average
+export const YEARLY_AVERAGES: YearlyAverages = metadata.yearlyAverages ?? {};
+
+export function getMeritLevel(meritValue: number | null): MeritLevel | null {
+  return getBenchmarkLevel(meritValue, BENCHMARKS.meritValue);
+}
+
+export function getPassRateGrade6Level(passRate: number | null): PerformanceLevel | null {
+  return getBenchmarkLevel(passRate, BENCHMARKS.passRateGrade6);
+}
+
+// National test score benchmarks
+// Scores are on 0-20 scale (A=20, F=0)
+export const TEST_BENCHMARKS = {
+  swedish: BENCHMARKS.avgTestSwedish6,
+  english: BENCHMARKS.avgTestEnglish6,
+  math: BENCHMARKS.avgTestMath6,
+} as const;
+
+// Gymnasium benchmarks (national averages)
+export const GYMNASIUM_BENCHMARKS = {
+  universityEligibilityRate: BENCHMARKS.universityEligibilityRate, // % eligible for university
+  gradePoints: BENCHMARKS.gradePoints, // 0-20 scale
+  graduationRate: BENCHMARKS.graduationRate, // % graduating within 3 years
+} as const;
+
+// Get performance level for gymnasium stats
+export function getGymnasiumPerformanceLevel(
+  value: number | null,
+  metric: 'universityEligibilityRate' | 'gradePoints' | 'graduationRate'
+): PerformanceLevel | null {
+  return getBenchmarkLevel(value, GYMNASIUM_BENCHMARKS[metric]);
+}
+
+// Get descriptive label for gymnasium performance
+export function getGymnasiumPerformanceLabel(
+  value: number | null,
+  metric: 'universityEligibilityRate' | 'gradePoints' | 'graduationRate'
+): string {
+  return getBenchmarkLabel(value, GYMNASIUM_BENCHMARKS[metric]);
+}
+
+// Get performance level for a test score relative to national benchmarks
+export function getTestPerformanceLevel(score: number | null, subject: TestSubject): PerformanceLevel | null {
+  return getBenchmarkLevel(score, TEST_BENCHMARKS[subject]);
+}
+
+// Get a descriptive label for test performance
+export function getTestPerformanceLabel(score: number | null, subject: TestSubject): string {
+  return getBenchmarkLabel(score, TEST_BENCHMARKS[subject]);
+}
+
+// Performance level used for map coloring: merit for grade 9 schools,
+// grade 6 pass rate for F-6 schools, nothing for other categories
+export function getSchoolPerformanceLevel(school: School): PerformanceLevel | null {
+  if (school.category === 'F-9' || school.category === '7-9') {
+    return getMeritLevel(school.statistics.meritValue);
+  }
+  if (school.category === 'F-6') {
+    return getPassRateGrade6Level(school.statistics.passRateGrade6);
+  }
+  return null;
+}
+
+// Marker color for a school; gymnasium and other schools keep their category
+// color in performance mode since they have no comparable performance level.
+// In score and admission mode schools without a score or chance are gray.
+export function getSchoolMarkerColor(
+  school: School,
+  colorMode: 'performance' | 'category' | 'score' | 'admission',
+  score: number | null = null,
+  admissionChance: AdmissionChance | null = null
+): string {
+  if (colorMode === 'score') return getPerformanceColor(getScoreLevel(score));
+  if (colorMode === 'admission') return getAdmissionChanceColor(admissionChance);
+  if (colorMode === 'performance') {
+    const level = getSchoolPerformanceLevel(school);
+    if (level !== null) return getPerformanceColor(level);
+  }
+  return getCategoryColor(school.category);
+}
@@ -0,0 +1,87 @@
+import { School, SchoolCategory } from './types';
+import { offersProgram } from './admission';
+import { Isochrone, TravelTime, isInsidePolygon } from './routing';
+import { parseSearchTerms, scoreSchoolMatch } from './fuzzy-search';
+
+// Everything the filter panel can narrow the school list by
+
+export type OwnershipFilter = 'all' | 'municipal' | 'independent';
+
+export interface SchoolFilters {
+  search: string;
+  county: string; // 'all' or a county name
+  municipality: string; // 'all' or a municipality name
+  ownership: OwnershipFilter;
+  categories: SchoolCategory[];
+  meritRange: [number, number]; // applies to grade 9 schools with merit data
+  minCertifiedTeachers: number | null; // percent of teachers with a teaching degree
+  onlyShortlisted: boolean;
+  maxDistance: number | null; // km, combined distance from the saved locations
+  travelTime: TravelTime | null; // reachable from the primary location (see routing.ts)
+  programs: string[]; // gymnasium program families (NA, TE, ...); empty for any school
+  admissionPoints: number | null; // student's expected merit, colors schools by admission chance
+}
+
+export const ADMISSION_POINTS_LIMIT = 340;
+
+export const ALL_CATEGORIES: SchoolCategory[] = ['F-6', 'F-9', '7-9', 'gymnasium', 'anpassad', 'other'];
+
+export const MERIT_RANGE_LIMITS: [number, number] = [0, 340];
+
+export const DEFAULT_FILTERS: SchoolFilters = {
+  search: '',
+  county: 'all',
+  municipality: 'all',
+  ownership: 'all',
+  categories: ALL_CATEGORIES,
+  meritRange: MERIT_RANGE_LIMITS,
+  minCertifiedTeachers: null,
+  onlyShortlisted: false,
+  maxDistance: null,
+  travelTime: null,
+  programs: [],
+  admissionPoints: null,
+};
+
+export function applyFilters(
+  schools: School[],
+  filters: SchoolFilters,
+  shortlistedIds: Record<string, unknown> = {},
+  getDistance: ((school: School) => number | null) | null = null,
+  isochrone: Isochrone | null = null
+): School[] {
+  const searchTerms = parseSearchTerms(filters.search);
+  const categories = new Set(filters.categories);
+  const [minMerit, maxMerit] = filters.meritRange;
+
+  return schools.filter((s) => {
+    // Search filter, typo tolerant (see fuzzy-search.ts)
+    if (searchTerms.length > 0 && scoreSchoolMatch(s, searchTerms) === null) return false;
+
+    if (filters.onlyShortlisted && !(s.id in shortlistedIds)) return false;
+    if (filters.county !== 'all' && s.county !== filters.county) return false;
+    if (filters.municipality !== 'all' && s.municipality !== filters.municipality) return false;
+    if (filters.ownership !== 'all' && s.ownership !== filters.ownership) return false;
+    if (!categories.has(s.category)) return false;
+    if (filters.programs.length > 0 && !offersProgram(s, filters.programs)) return false;
+    // Asking for a share of certified teachers leaves out schools that don't report it
+    if (filters.minCertifiedTeachers !== null &&
+      (s.statistics.certifiedTeachersRatio === null || s.statistics.certifiedTeachersRatio < filters.minCertifiedTeachers)) {
+      return false;
+    }
+
+    if (filters.maxDistance !== null && getDistance) {
+      const distance = getDistance(s);
+      if (distance !== null && distance > filters.maxDistance) return false;
+    }
+
+    // Until the isochrone for the travel time has loaded nothing is filtered out
+    if (filters.travelTime && isochrone && !isInsidePolygon(s.coordinates, isochrone.polygon)) return false;
+
+    // Merit range only applies to grade 9 schools; schools without data stay visible
+    if ((s.category === 'F-9' || s.category === '7-9') && s.statistics.meritValue !== null) {
+      return s.statistics.meritValue >= minMerit && s.statistics.meritValue <= maxMerit;
+    }
+    return true;
+  });
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { createSchool } from '@/test/fixtures';
+import { normalizeSearchText, parseSearchTerms, scoreSchoolMatch, searchSchools } from './fuzzy-search';
+
+const sodermalm = createSchool({
+  id: '1',
+  name: 'Södermalmsskolan',
+  municipality: 'Stockholm',
+  address: { street: 'Götgatan 12', postalCode: '118 46', city: 'Stockholm' },
+});
+const eriksdal = createSchool({
+  id: '2',
+  name: 'Eriksdalsskolan',
+  municipality: 'Stockholm',
+  address: { street: 'Ringvägen 30', postalCode: '118 63', city: 'Stockholm' },
+});
+const malmo = createSchool({
+  id: '3',
+  name: 'Malmö Latin',
+  municipality: 'Malmö',
+  postalCity: 'Malmö',
+  address: { street: 'Kungsgatan 44', postalCode: '211 49', city: 'Malmö' },
+});
+
+const matches = (school: typeof sodermalm, query: string) => scoreSchoolMatch(school, parseSearchTerms(query)) !== null;
+
+describe('normalizeSearchText', () => {
+  it('drops case and diacritics and splits on anything but letters and digits', () => {
+    expect(normalizeSearchText('  Åsö Gymnasium, Östra-Real!  ')).toBe('aso gymnasium ostra real');
+    expect(normalizeSearchText('Lycée Français')).toBe('lycee francais');
+  });
+
+  it('gives no terms for blank text', () => {
+    expect(parseSearchTerms(' ,. ')).toEqual([]);
+  });
+});
+
+describe('scoreSchoolMatch', () => {
+  it('matches without diacritics', () => {
+    expect(matches(sodermalm, 'sodermalmsskolan')).toBe(true);
+    expect(matches(malmo, 'MALMO')).toBe(true);
+  });
+
+  it('matches prefixes and parts of compounds', () => {
+    expect(matches(sodermalm, 'söder')).toBe(true);
+    expect(matches(sodermalm, 'malm')).toBe(true);
+    expect(matches(eriksdal, 'dal')).toBe(true);
+    // Too short to look inside words
+    expect(matches(eriksdal, 'da')).toBe(false);
+  });
+
+  it('allows one typo in a medium word and counts a swap as one', () => {
+    expect(matches(eriksdal, 'ringvagne')).toBe(true); // transposition
+    expect(matches(malmo, 'kungsgtan')).toBe(true); // deletion
+    expect(matches(malmo, 'latn')).toBe(true);
+    // A typo in a word that is still being typed
+    expect(matches(malmo, 'kungsgaa')).toBe(true);
+    // Words under four letters have to match exactly
+    expect(matches(malmo, 'lax')).toBe(false);
+  });
+
+  it('allows two typos in a long word, but not three', () => {
+    expect(matches(sodermalm, 'sodremalmsskolna')).toBe(true);
+    expect(matches(sodermalm, 'sodremalmssoklna')).toBe(false);
+  });
+
+  it('needs every term to match', () => {
+    expect(matches(sodermalm, 'götgatan 12')).toBe(true);
+    expect(matches(sodermalm, 'götgatan ringvägen')).toBe(false);
+  });
+
+  it('finds postal codes written without the space', () => {
+    expect(matches(sodermalm, '11846')).toBe(true);
+    expect(matches(eriksdal, '11846')).toBe(false);
+  });
+
+  it('scores a name match above a place match', () => {
+    const byName = scoreSchoolMatch(malmo, ['malmo'])!;
+    const byPlace = scoreSchoolMatch(createSchool({ name: 'Latinskolan', municipality: 'Malmö' }), ['malmo'])!;
+    expect(byName).toBeGreaterThan(byPlace);
+  });
+});
+
+describe('searchSchools', () => {
+  const schools = [eriksdal, malmo, sodermalm];
+
+  it('puts the best matches first and limits the hits', () => {
+    expect(searchSchools(schools, 'skolan', 10).map(hit => hit.school.id)).toEqual(['2', '1']);
+    expect(searchSchools(schools, 'sodermalm', 10)[0].school).toBe(sodermalm);
+    expect(searchSchools(schools, 'skolan', 1)).toHaveLength(1);
+  });
+
+  it('finds nothing for an empty query', () => {
+    expect(searchSchools(schools, '  ', 10)).toEqual([]);
+  });
+});
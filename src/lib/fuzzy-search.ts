@@ -0,0 +1,128 @@
+import { School } from './types';
+
+// Free text search over school names and addresses. Text is compared without
+// case or diacritics ("Sodermalm" finds Södermalm), every typed word has to
+// match some word as a whole, a prefix (while typing), part of a compound or
+// within a typo or two; matches in the name count the most.
+
+interface SearchField {
+  weight: number;
+  words: string[];
+}
+
+const NAME_WEIGHT = 3;
+const PLACE_WEIGHT = 1.5;
+const ADDRESS_WEIGHT = 1;
+
+// å, ä, ö, é, ü... become their base letters; anything but letters and digits separates words
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLocaleLowerCase('sv')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function parseSearchTerms(query: string): string[] {
+  const normalized = normalizeSearchText(query);
+  return normalized ? normalized.split(' ') : [];
+}
+
+const fieldsCache = new WeakMap<School, SearchField[]>();
+
+function getSearchFields(school: School): SearchField[] {
+  let fields = fieldsCache.get(school);
+  if (!fields) {
+    const words = parseSearchTerms;
+    const places = [...words(school.municipality), ...words(school.postalCity), ...words(school.address.city)];
+    fields = [
+      { weight: NAME_WEIGHT, words: words(school.name) },
+      { weight: PLACE_WEIGHT, words: [...new Set(places)] },
+      { weight: ADDRESS_WEIGHT, words: [...words(school.address.street), school.address.postalCode.replace(/\s/g, '')] },
+    ];
+    fieldsCache.set(school, fields);
+  }
+  return fields;
+}
+
+// Typos allowed for a typed word of this length
+function getMaxTypos(length: number): number {
+  if (length < 4) return 0;
+  return length < 8 ? 1 : 2;
+}
+
+// Edit distance counting swapped neighbours as one edit (optimal string
+// alignment); gives up with Infinity once it exceeds max
+function getEditDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return Infinity;
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return Infinity;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length] <= max ? previous[b.length] : Infinity;
+}
+
+// How well a typed word matches a word of the school, 0 for not at all
+function getTermScore(term: string, word: string): number {
+  if (word === term) return 1;
+  if (word.startsWith(term)) return 0.8;
+  // Part of a compound, e.g. "malm" in "sodermalmsskolan"
+  if (term.length >= 3 && word.includes(term)) return 0.6;
+
+  const maxTypos = getMaxTypos(term.length);
+  if (maxTypos === 0) return 0;
+  const typos = getEditDistance(term, word, maxTypos);
+  if (typos !== Infinity) return 0.7 - 0.15 * typos;
+  // A typo in a word that is still being typed
+  const prefixTypos = getEditDistance(term, word.slice(0, term.length), maxTypos);
+  return prefixTypos !== Infinity ? 0.5 - 0.1 * prefixTypos : 0;
+}
+
+// Relevance of the school for the typed words, or null if any of them doesn't match
+export function scoreSchoolMatch(school: School, terms: string[]): number | null {
+  const fields = getSearchFields(school);
+  let total = 0;
+  for (const term of terms) {
+    let best = 0;
+    for (const field of fields) {
+      for (const word of field.words) {
+        best = Math.max(best, field.weight * getTermScore(term, word));
+      }
+    }
+    if (best === 0) return null;
+    total += best;
+  }
+  // Names starting with what was typed go first
+  if (fields[0].words.join(' ').startsWith(terms.join(' '))) total += NAME_WEIGHT;
+  return total;
+}
+
+// Best matches first; shorter names win ties, as they match more of what was typed
+export function searchSchools(schools: School[], query: string, limit: number): { school: School; score: number }[] {
+  const terms = parseSearchTerms(query);
+  if (terms.length === 0) return [];
+  const hits: { school: School; score: number }[] = [];
+  for (const school of schools) {
+    const score = scoreSchoolMatch(school, terms);
+    if (score !== null) hits.push({ school, score });
+  }
+  return hits
+    .sort((a, b) => b.score - a.score || a.school.name.length - b.school.name.length)
+    .slice(0, limit);
+}
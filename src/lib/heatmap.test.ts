@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { createSchool } from '@/test/fixtures';
+import { DEFAULT_HEATMAP_SETTINGS, getHeatmapWeight, getMedianPupils, interpolateGrid } from './heatmap';
+
+const withPupils = (totalPupils: number | null) => createSchool({ statistics: { totalPupils } });
+
+describe('getMedianPupils', () => {
+  it('ignores schools without a pupil count', () => {
+    expect(getMedianPupils([withPupils(100), withPupils(null), withPupils(300), withPupils(200)])).toBe(200);
+  });
+
+  it('averages the middle two of an even count', () => {
+    expect(getMedianPupils([withPupils(100), withPupils(400)])).toBe(250);
+  });
+
+  it('is 1 when no school has a count', () => {
+    expect(getMedianPupils([withPupils(null)])).toBe(1);
+  });
+});
+
+describe('getHeatmapWeight', () => {
+  it('weights a school without a pupil count as a typical school', () => {
+    expect(getHeatmapWeight(withPupils(null), DEFAULT_HEATMAP_SETTINGS, 250)).toBe(250);
+    expect(getHeatmapWeight(withPupils(40), DEFAULT_HEATMAP_SETTINGS, 250)).toBe(40);
+  });
+
+  it('weights every school the same when not weighting by pupils', () => {
+    const settings = { ...DEFAULT_HEATMAP_SETTINGS, weightByPupils: false };
+    expect(getHeatmapWeight(withPupils(400), settings, 250)).toBe(1);
+  });
+});
+
+describe('interpolateGrid', () => {
+  it('leaves cells out of reach of every point empty', () => {
+    const grid = interpolateGrid([{ x: 5, y: 5, value: 200, weight: 1 }], 40, 10, 10, 10);
+    expect(grid).toEqual([200, 200, null, null]);
+  });
+
+  it('leans towards the heavier of two equally distant points', () => {
+    const grid = interpolateGrid(
+      [
+        { x: 0, y: 5, value: 100, weight: 1 },
+        { x: 10, y: 5, value: 300, weight: 3 },
+      ],
+      10, 10, 10, 20
+    );
+    expect(grid).toEqual([250]);
+  });
+});
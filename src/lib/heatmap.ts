@@ -0,0 +1,141 @@
+import { School, getMeritColor, getPerformanceColor, getScoreLevel } from './types';
+import { getMeritLevel, getPassRateGrade6Level } from './benchmarks';
+
+// "Good school area" surface: the chosen metric interpolated across the map
+// from the schools within walking distance of each point (inverse distance
+// weighting), so neighbourhoods rather than single schools stand out
+
+export type HeatmapMetric = 'merit' | 'passRateGrade6' | 'score';
+
+export interface HeatmapSettings {
+  metric: HeatmapMetric;
+  radiusKm: number; // only schools this close to a point count
+  weightByPupils: boolean; // larger schools pull the surface harder
+}
+
+export const HEATMAP_METRICS: HeatmapMetric[] = ['merit', 'passRateGrade6', 'score'];
+
+export const HEATMAP_RADIUS_LIMITS: [number, number] = [0.5, 5];
+
+export const DEFAULT_HEATMAP_SETTINGS: HeatmapSettings = {
+  metric: 'merit',
+  radiusKm: 1.5,
+  weightByPupils: true,
+};
+
+export function getHeatmapMetricLabel(metric: HeatmapMetric): string {
+  const labels: Record<HeatmapMetric, string> = {
+    merit: 'Merit (grade 9)',
+    passRateGrade6: 'Pass rate (grade 6)',
+    score: 'Composite score',
+  };
+  return labels[metric];
+}
+
+// Schools without the metric don't count toward the surface
+export function getHeatmapValue(
+  school: School,
+  metric: HeatmapMetric,
+  scores: Record<string, number> | null
+): number | null {
+  switch (metric) {
+    case 'merit':
+      return school.statistics.meritValue;
+    case 'passRateGrade6':
+      return school.statistics.passRateGrade6;
+    case 'score':
+      return scores?.[school.id] ?? null;
+  }
+}
+
+// Same bands as the markers use for the metric
+export function getHeatmapColor(metric: HeatmapMetric, value: number): string {
+  switch (metric) {
+    case 'merit':
+      return getMeritColor(getMeritLevel(value));
+    case 'passRateGrade6':
+      return getPerformanceColor(getPassRateGrade6Level(value));
+    case 'score':
+      return getPerformanceColor(getScoreLevel(value));
+  }
+}
+
+// Median pupil count of the schools that report one, 1 if none do
+export function getMedianPupils(schools: School[]): number {
+  const counts = schools
+    .map(school => school.statistics.totalPupils)
+    .filter((count): count is number => count !== null)
+    .sort((a, b) => a - b);
+  if (counts.length === 0) return 1;
+  const middle = Math.floor(counts.length / 2);
+  return counts.length % 2 === 1 ? counts[middle] : (counts[middle - 1] + counts[middle]) / 2;
+}
+
+// How hard a school pulls the surface. Schools without a pupil count are
+// weighted as a typical school (medianPupils) rather than a tiny one.
+export function getHeatmapWeight(school: School, settings: HeatmapSettings, medianPupils: number): number {
+  if (!settings.weightByPupils) return 1;
+  return school.statistics.totalPupils ?? medianPupils;
+}
+
+export interface HeatPoint {
+  x: number; // pixels
+  y: number;
+  value: number;
+  weight: number;
+}
+
+// Interpolated value at the centre of every cell in a width x height pixel
+// area, row by row; null where no point is within the radius. Points are
+// bucketed by radius so each cell only looks at its neighbourhood.
+export function interpolateGrid(
+  points: HeatPoint[],
+  width: number,
+  height: number,
+  cellSize: number,
+  radius: number
+): (number | null)[] {
+  const columns = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+
+  const buckets = new Map<string, HeatPoint[]>();
+  for (const point of points) {
+    const key = `${Math.floor(point.x / radius)},${Math.floor(point.y / radius)}`;
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(point); else buckets.set(key, [point]);
+  }
+
+  const radiusSquared = radius * radius;
+  // Keeps a school right under a cell from dominating completely
+  const smoothing = cellSize * cellSize;
+  const grid: (number | null)[] = new Array(columns * rows).fill(null);
+
+  for (let row = 0; row < rows; row++) {
+    const y = (row + 0.5) * cellSize;
+    const bucketY = Math.floor(y / radius);
+    for (let column = 0; column < columns; column++) {
+      const x = (column + 0.5) * cellSize;
+      const bucketX = Math.floor(x / radius);
+      let weighted = 0;
+      let totalWeight = 0;
+
+      for (let by = bucketY - 1; by <= bucketY + 1; by++) {
+        for (let bx = bucketX - 1; bx <= bucketX + 1; bx++) {
+          const bucket = buckets.get(`${bx},${by}`);
+          if (!bucket) continue;
+          for (const point of bucket) {
+            const distanceSquared = (point.x - x) ** 2 + (point.y - y) ** 2;
+            if (distanceSquared > radiusSquared) continue;
+            const weight = point.weight / (distanceSquared + smoothing);
+            weighted += point.value * weight;
+            totalWeight += weight;
+          }
+        }
+      }
+
+      if (totalWeight > 0) grid[row * columns + column] = weighted / totalWeight;
+    }
+  }
+
+  return grid;
+}
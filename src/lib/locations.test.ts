@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDistance } from './types';
+import {
+  SavedLocation,
+  SavedLocations,
+  getCombinedDistance,
+  getCombinedDistanceBound,
+  getPrimaryDistance,
+  getPrimaryLocation,
+  hasCombinedDistance,
+} from './locations';
+
+function createLocation(id: string, lat: number, lng: number, overrides: Partial<SavedLocation> = {}): SavedLocation {
+  return { id, name: id, icon: 'other', lat, lng, address: null, included: true, weight: 1, ...overrides };
+}
+
+const home = createLocation('home', 59.33, 18.06);
+const work = createLocation('work', 59.40, 17.95, { weight: 2 });
+const grandma = createLocation('grandma', 59.20, 18.20, { included: false });
+const school: [number, number] = [59.35, 18.00];
+
+const distanceTo = (location: SavedLocation) => calculateDistance(location.lat, location.lng, ...school);
+
+function createSaved(distanceMode: SavedLocations['distanceMode'], locations = [home, work, grandma]): SavedLocations {
+  return { locations, primaryId: 'work', distanceMode };
+}
+
+describe('getPrimaryLocation', () => {
+  it('falls back to the first location without a valid primary', () => {
+    expect(getPrimaryLocation(createSaved('primary'))?.id).toBe('work');
+    expect(getPrimaryLocation({ ...createSaved('primary'), primaryId: 'gone' })?.id).toBe('home');
+    expect(getPrimaryLocation(createSaved('primary', []))).toBeNull();
+  });
+});
+
+describe('getCombinedDistance', () => {
+  it('is the primary distance in primary mode', () => {
+    expect(getCombinedDistance(createSaved('primary'), school)).toBe(distanceTo(work));
+    expect(getPrimaryDistance(createSaved('sum'), school)).toBe(distanceTo(work));
+  });
+
+  it('weights the included locations in sum mode', () => {
+    expect(getCombinedDistance(createSaved('sum'), school)).toBeCloseTo(distanceTo(home) + 2 * distanceTo(work));
+  });
+
+  it('takes the farthest included location in max mode', () => {
+    expect(getCombinedDistance(createSaved('max'), school)).toBe(Math.max(distanceTo(home), distanceTo(work)));
+  });
+
+  it('falls back to the primary distance when nothing is included', () => {
+    const saved = createSaved('sum', [{ ...home, included: false }, { ...work, included: false }]);
+    expect(getCombinedDistance(saved, school)).toBe(distanceTo(work));
+    expect(hasCombinedDistance(saved)).toBe(false);
+  });
+
+  it('is null without locations', () => {
+    expect(getCombinedDistance(createSaved('sum', []), school)).toBeNull();
+  });
+});
+
+describe('getCombinedDistanceBound', () => {
+  // Points around the bound's edge must not be within the limit
+  function expectBoundContains(saved: SavedLocations, maxDistance: number) {
+    const bound = getCombinedDistanceBound(saved, maxDistance)!;
+    for (let lat = 58.5; lat <= 60.5; lat += 0.05) {
+      for (let lng = 16.5; lng <= 19.5; lng += 0.05) {
+        const distance = getCombinedDistance(saved, [lat, lng])!;
+        if (distance <= maxDistance) {
+          expect(calculateDistance(...bound.center, lat, lng)).toBeLessThanOrEqual(bound.radiusKm);
+        }
+      }
+    }
+  }
+
+  it('is the circle around the primary location in primary mode', () => {
+    expect(getCombinedDistanceBound(createSaved('primary'), 10)).toEqual({ center: [work.lat, work.lng], radiusKm: 10 });
+  });
+
+  it('contains every point within the limit in sum and max mode', () => {
+    expectBoundContains(createSaved('sum'), 40);
+    expectBoundContains(createSaved('max'), 20);
+  });
+
+  it('is null when every included weight is zero', () => {
+    const saved = createSaved('sum', [{ ...home, weight: 0 }, { ...work, weight: 0 }]);
+    expect(getCombinedDistanceBound(saved, 10)).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import { calculateDistance } from './types';
+
+// Named places the family cares about (home, workplaces, grandparents), kept in
+// localStorage. One is the primary location; distances can also be combined
+// across several of them.
+
+export type LocationIcon = 'home' | 'work' | 'family' | 'other';
+
+export interface SavedLocation {
+  id: string;
+  name: string;
+  icon: LocationIcon;
+  lat: number;
+  lng: number;
+  address: string | null; // from the address search, if it was used
+  included: boolean; // counts toward the combined distance
+  weight: number; // e.g. trips per day, for the weighted sum
+}
+
+// How the distances to the included locations are combined into one number
+export type DistanceMode = 'primary' | 'sum' | 'max';
+
+export interface SavedLocations {
+  locations: SavedLocation[];
+  primaryId: string | null;
+  distanceMode: DistanceMode;
+}
+
+export const LOCATION_ICONS: LocationIcon[] = ['home', 'work', 'family', 'other'];
+export const DISTANCE_MODES: DistanceMode[] = ['primary', 'sum', 'max'];
+
+export function getLocationIconLabel(icon: LocationIcon): string {
+  const labels: Record<LocationIcon, string> = {
+    home: 'Home',
+    work: 'Work',
+    family: 'Family',
+    other: 'Other',
+  };
+  return labels[icon];
+}
+
+export function getDistanceModeLabel(mode: DistanceMode): string {
+  const labels: Record<DistanceMode, string> = {
+    primary: 'Primary only',
+    sum: 'Weighted sum',
+    max: 'Farthest',
+  };
+  return labels[mode];
+}
+
+export function getPrimaryLocation(saved: SavedLocations): SavedLocation | null {
+  return saved.locations.find(l => l.id === saved.primaryId) ?? saved.locations[0] ?? null;
+}
+
+export function getLocationDistances(
+  saved: SavedLocations,
+  [lat, lng]: [number, number]
+): { location: SavedLocation; distance: number }[] {
+  return saved.locations.map(location => ({
+    location,
+    distance: calculateDistance(location.lat, location.lng, lat, lng),
+  }));
+}
+
+export function getPrimaryDistance(saved: SavedLocations, [lat, lng]: [number, number]): number | null {
+  const primary = getPrimaryLocation(saved);
+  return primary ? calculateDistance(primary.lat, primary.lng, lat, lng) : null;
+}
+
+// Combined distance from the included locations according to the distance mode.
+// Falls back to the primary location when none are included.
+export function getCombinedDistance(saved: SavedLocations, coordinates: [number, number]): number | null {
+  const included = saved.locations.filter(l => l.included);
+  if (saved.distanceMode === 'primary' || included.length === 0) {
+    return getPrimaryDistance(saved, coordinates);
+  }
+
+  const [lat, lng] = coordinates;
+  const distances = included.map(l => calculateDistance(l.lat, l.lng, lat, lng));
+  if (saved.distanceMode === 'max') return Math.max(...distances);
+  return distances.reduce((total, distance, i) => total + distance * included[i].weight, 0);
+}
+
+// A circle that contains every point within maxDistance combined distance, to
+// narrow the candidates before computing the exact distance; null when any
+// point could qualify (all weights zero)
+export function getCombinedDistanceBound(
+  saved: SavedLocations,
+  maxDistance: number
+): { center: [number, number]; radiusKm: number } | null {
+  const included = saved.locations.filter(l => l.included);
+  if (saved.distanceMode === 'primary' || included.length === 0) {
+    const primary = getPrimaryLocation(saved);
+    return primary ? { center: [primary.lat, primary.lng], radiusKm: maxDistance } : null;
+  }
+  // The farthest location is at most maxDistance away, so all of them are
+  if (saved.distanceMode === 'max') {
+    return { center: [included[0].lat, included[0].lng], radiusKm: maxDistance };
+  }
+  // In the weighted sum the heaviest location alone can't exceed the limit
+  const heaviest = included.reduce((a, b) => (b.weight > a.weight ? b : a));
+  return heaviest.weight > 0
+    ? { center: [heaviest.lat, heaviest.lng], radiusKm: maxDistance / heaviest.weight }
+    : null;
+}
+
+// True when the combined distance means something other than the primary distance
+export function hasCombinedDistance(saved: SavedLocations): boolean {
+  return saved.distanceMode !== 'primary' && saved.locations.some(l => l.included);
+}
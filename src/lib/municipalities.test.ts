@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { MUNICIPALITIES, getCountyName, resolveMunicipality } from './municipalities';
+
+describe('resolveMunicipality', () => {
+  it('finds the municipality and its county', () => {
+    const resolved = resolveMunicipality('0180');
+    expect(resolved?.municipality.name).toBe('Stockholm');
+    expect(resolved?.county).toEqual({ code: '01', name: 'Stockholms län' });
+  });
+
+  it('accepts codes without the leading zero and with whitespace', () => {
+    expect(resolveMunicipality('114')?.municipality.name).toBe('Upplands Väsby');
+    expect(resolveMunicipality(' 0114 ')?.municipality.name).toBe('Upplands Väsby');
+  });
+
+  it('is null for missing and unknown codes', () => {
+    expect(resolveMunicipality(null)).toBeNull();
+    expect(resolveMunicipality('')).toBeNull();
+    expect(resolveMunicipality('9999')).toBeNull();
+  });
+
+  it('resolves every municipality to a county', () => {
+    expect(MUNICIPALITIES).toHaveLength(290);
+    for (const { code } of MUNICIPALITIES) {
+      expect(resolveMunicipality(code)).not.toBeNull();
+    }
+  });
+});
+
+describe('getCountyName', () => {
+  it('names the county of a county code', () => {
+    expect(getCountyName('12')).toBe('Skåne län');
+    expect(getCountyName('99')).toBeNull();
+  });
+});
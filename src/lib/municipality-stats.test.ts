@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { createSchool } from '@/test/fixtures';
+import { BENCHMARKS } from './benchmarks';
+import { computeMunicipalityStats, getChoroplethColor } from './municipality-stats';
+
+const AVERAGE_MERIT = BENCHMARKS.meritValue.avg;
+
+const solna = (overrides: Parameters<typeof createSchool>[0]) =>
+  createSchool({ municipality: 'Solna', municipalityCode: '0184', ...overrides });
+
+describe('computeMunicipalityStats', () => {
+  const stats = computeMunicipalityStats([
+    solna({ id: '1', statistics: { meritValue: AVERAGE_MERIT + 20, totalPupils: 300 } }),
+    solna({ id: '2', statistics: { meritValue: AVERAGE_MERIT - 10, totalPupils: 100 } }),
+    solna({ id: '3', ownership: 'independent', statistics: { meritValue: AVERAGE_MERIT + 30, totalPupils: 200 } }),
+    // Counted, but without figures to average
+    solna({ id: '4', category: 'other' }),
+    createSchool({ id: '5', municipalityCode: '0180', statistics: { meritValue: AVERAGE_MERIT - 20 } }),
+    createSchool({ id: '6', municipalityCode: null }),
+  ]);
+
+  it('groups schools by municipality code', () => {
+    expect([...stats.keys()]).toEqual(['0184', '0180']);
+    expect(stats.get('0184')).toMatchObject({ name: 'Solna', county: 'Stockholms län', schoolCount: 4 });
+  });
+
+  it('weights merit by pupils, to one decimal', () => {
+    const solnaStats = stats.get('0184')!;
+    expect(solnaStats.avgMerit).toBeCloseTo(AVERAGE_MERIT + (20 * 300 - 10 * 100 + 30 * 200) / 600, 1);
+    expect(solnaStats.municipalMerit).toBeCloseTo(AVERAGE_MERIT + 12.5, 1);
+    expect(solnaStats.independentMerit).toBeCloseTo(AVERAGE_MERIT + 30, 1);
+    expect(solnaStats.ownershipGap).toBeCloseTo(17.5, 1);
+  });
+
+  it('shares out the schools above the national average among those with results', () => {
+    expect(stats.get('0184')!.aboveAverageShare).toBeCloseTo(2 / 3);
+    expect(stats.get('0180')!.aboveAverageShare).toBe(0);
+  });
+
+  it('has no merit figures without pupil counts', () => {
+    expect(stats.get('0180')).toMatchObject({ avgMerit: null, ownershipGap: null });
+  });
+});
+
+describe('getChoroplethColor', () => {
+  const withGap = (ownershipGap: number | null) => ({
+    code: '0184',
+    name: 'Solna',
+    county: null,
+    schoolCount: 1,
+    avgMerit: null,
+    aboveAverageShare: null,
+    municipalMerit: null,
+    independentMerit: null,
+    ownershipGap,
+  });
+
+  it('uses a diverging scale for the ownership gap', () => {
+    expect(getChoroplethColor('ownershipGap', withGap(2))).toBe('hsl(45, 30%, 80%)');
+    expect(getChoroplethColor('ownershipGap', withGap(20))).toBe('hsl(210, 80%, 45%)');
+    expect(getChoroplethColor('ownershipGap', withGap(-8))).toBe('hsl(30, 80%, 70%)');
+    expect(getChoroplethColor('ownershipGap', withGap(null))).toBe(getChoroplethColor('avgMerit', undefined));
+  });
+});
@@ -0,0 +1,123 @@
+import { School, getMeritColor, getPerformanceColor, getScoreLevel } from './types';
+import { BENCHMARKS, getMeritLevel } from './benchmarks';
+import { getPerformanceMetric } from './score';
+
+// Per-kommun aggregates for the municipality choropleth. Boundaries come from
+// public/municipalities.geo.json (see scripts/fetch-municipality-boundaries.ts),
+// matched to schools by kommunkod.
+
+export interface MunicipalityBoundaryProperties {
+  code: string; // kommunkod, e.g. "0180"
+  name: string;
+}
+
+export type MunicipalityBoundaries = GeoJSON.FeatureCollection<
+  GeoJSON.Polygon | GeoJSON.MultiPolygon,
+  MunicipalityBoundaryProperties
+>;
+
+export interface MunicipalityStats {
+  code: string;
+  name: string;
+  county: string | null;
+  schoolCount: number;
+  avgMerit: number | null; // pupil-weighted, grade 9 schools
+  aboveAverageShare: number | null; // 0-1, schools whose results beat the national average
+  municipalMerit: number | null;
+  independentMerit: number | null;
+  ownershipGap: number | null; // independent minus municipal merit
+}
+
+export type ChoroplethMetric = 'avgMerit' | 'aboveAverageShare' | 'ownershipGap';
+
+export const CHOROPLETH_METRICS: ChoroplethMetric[] = ['avgMerit', 'aboveAverageShare', 'ownershipGap'];
+
+export function getChoroplethMetricLabel(metric: ChoroplethMetric): string {
+  const labels: Record<ChoroplethMetric, string> = {
+    avgMerit: 'Average merit',
+    aboveAverageShare: 'Schools above national average',
+    ownershipGap: 'Independent vs municipal merit',
+  };
+  return labels[metric];
+}
+
+// Merit points within which the ownership gap counts as even
+const EVEN_GAP = 5;
+const LARGE_GAP = 15;
+
+// Merit weighted by school size, over the schools with both figures
+function weightedMerit(schools: School[]): number | null {
+  let total = 0;
+  let pupils = 0;
+  for (const { statistics } of schools) {
+    if (statistics.meritValue === null || statistics.totalPupils === null) continue;
+    total += statistics.meritValue * statistics.totalPupils;
+    pupils += statistics.totalPupils;
+  }
+  return pupils > 0 ? Math.round((total / pupils) * 10) / 10 : null;
+}
+
+export function computeMunicipalityStats(schools: School[]): Map<string, MunicipalityStats> {
+  const byCode = new Map<string, School[]>();
+  for (const school of schools) {
+    if (!school.municipalityCode) continue;
+    const group = byCode.get(school.municipalityCode);
+    if (group) group.push(school); else byCode.set(school.municipalityCode, [school]);
+  }
+
+  const stats = new Map<string, MunicipalityStats>();
+  for (const [code, group] of byCode) {
+    let judged = 0;
+    let above = 0;
+    for (const school of group) {
+      const metric = getPerformanceMetric(school);
+      const value = metric ? school.statistics[metric] : null;
+      if (!metric || value === null) continue;
+      judged++;
+      if (value > BENCHMARKS[metric].avg) above++;
+    }
+
+    const municipalMerit = weightedMerit(group.filter(s => s.ownership === 'municipal'));
+    const independentMerit = weightedMerit(group.filter(s => s.ownership === 'independent'));
+
+    stats.set(code, {
+      code,
+      name: group[0].municipality,
+      county: group[0].county,
+      schoolCount: group.length,
+      avgMerit: weightedMerit(group),
+      aboveAverageShare: judged > 0 ? above / judged : null,
+      municipalMerit,
+      independentMerit,
+      ownershipGap: municipalMerit !== null && independentMerit !== null
+        ? Math.round((independentMerit - municipalMerit) * 10) / 10
+        : null,
+    });
+  }
+  return stats;
+}
+
+// Fill color for a municipality; the gap uses a diverging scale, blue where
+// independent schools do better and orange where municipal ones do
+export function getChoroplethColor(metric: ChoroplethMetric, stats: MunicipalityStats | undefined): string {
+  const value = stats?.[metric] ?? null;
+  switch (metric) {
+    case 'avgMerit':
+      return getMeritColor(getMeritLevel(value));
+    case 'aboveAverageShare':
+      return getPerformanceColor(getScoreLevel(value !== null ? value * 100 : null));
+    case 'ownershipGap':
+      if (value === null) return getPerformanceColor(null);
+      if (Math.abs(value) < EVEN_GAP) return 'hsl(45, 30%, 80%)';
+      if (value > 0) return value >= LARGE_GAP ? 'hsl(210, 80%, 45%)' : 'hsl(210, 70%, 70%)';
+      return value <= -LARGE_GAP ? 'hsl(25, 85%, 45%)' : 'hsl(30, 80%, 70%)';
+  }
+}
+
+export const OWNERSHIP_GAP_LEGEND: { color: string; label: string }[] = [
+  { color: 'hsl(210, 80%, 45%)', label: `Fristående +${LARGE_GAP}` },
+  { color: 'hsl(210, 70%, 70%)', label: `Fristående +${EVEN_GAP}` },
+  { color: 'hsl(45, 30%, 80%)', label: 'Jämnt' },
+  { color: 'hsl(30, 80%, 70%)', label: `Kommunal +${EVEN_GAP}` },
+  { color: 'hsl(25, 85%, 45%)', label: `Kommunal +${LARGE_GAP}` },
+];
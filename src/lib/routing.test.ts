@@ -0,0 +1,167 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { calculateDistance } from './types';
+import {
+  RoutingProvider,
+  createOsrmProvider,
+  createValhallaProvider,
+  getIsochrone,
+  getOfflineReachKm,
+  isInsidePolygon,
+  offlineRoutingProvider,
+} from './routing';
+
+const ORIGIN = { lat: 59.3293, lng: 18.0686 };
+
+function distanceFromOrigin([lat, lng]: [number, number]): number {
+  return calculateDistance(ORIGIN.lat, ORIGIN.lng, lat, lng);
+}
+
+function stubFetch(respond: (url: string) => unknown, status = 200) {
+  const fetchMock = vi.fn(async (url: string) => new Response(JSON.stringify(respond(url)), { status }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('offline provider', () => {
+  it('draws a circle at the reach for the mode and minutes', async () => {
+    const isochrone = await offlineRoutingProvider.getIsochrone(ORIGIN, { mode: 'bike', minutes: 20 });
+
+    const reach = getOfflineReachKm({ mode: 'bike', minutes: 20 });
+    expect(reach).toBeCloseTo(15 / 3 / 1.3);
+    expect(isochrone.source).toBe('offline');
+    expect(isochrone.polygon).toHaveLength(64);
+    for (const point of isochrone.polygon) {
+      expect(distanceFromOrigin(point)).toBeCloseTo(reach, 1);
+    }
+    expect(isInsidePolygon([ORIGIN.lat, ORIGIN.lng], isochrone.polygon)).toBe(true);
+  });
+});
+
+describe('isInsidePolygon', () => {
+  const square: [number, number][] = [[0, 0], [0, 2], [2, 2], [2, 0]];
+
+  it('tells points inside from points outside', () => {
+    expect(isInsidePolygon([1, 1], square)).toBe(true);
+    expect(isInsidePolygon([1, 3], square)).toBe(false);
+    expect(isInsidePolygon([-1, 1], square)).toBe(false);
+  });
+});
+
+describe('OSRM provider', () => {
+  // Travel times as if walking 3 km/h in a straight line, except that nothing
+  // due north (the first ray) can be reached
+  function respondWithDistances(url: string) {
+    const coordinates = new URL(url).pathname.split('/').pop()!.split(';');
+    const durations = coordinates.map((coordinate, i) => {
+      const [lng, lat] = coordinate.split(',').map(Number);
+      if (i > 0 && i <= 6) return null;
+      return distanceFromOrigin([lat, lng]) * 1200;
+    });
+    return { durations: [durations] };
+  }
+
+  it('keeps the farthest reachable sample along each ray', async () => {
+    const fetchMock = stubFetch(respondWithDistances);
+    const travelTime = { mode: 'walk' as const, minutes: 12 };
+
+    const isochrone = await createOsrmProvider('https://osrm.test').getIsochrone(ORIGIN, travelTime);
+
+    const url = fetchMock.mock.calls[0][0];
+    expect(url).toMatch(/^https:\/\/osrm\.test\/table\/v1\/foot\//);
+    expect(url).toContain('sources=0&annotations=duration');
+    expect(isochrone.source).toBe('osrm');
+    expect(isochrone.polygon).toHaveLength(32);
+    // Unreachable ray: stays at the origin
+    expect(isochrone.polygon[0]).toEqual([ORIGIN.lat, ORIGIN.lng]);
+    // Samples are 250 m apart out to 1.5 km; 12 minutes reach 600 m
+    for (const point of isochrone.polygon.slice(1)) {
+      expect(distanceFromOrigin(point)).toBeCloseTo(0.5, 2);
+    }
+  });
+
+  it('fails when the table has no durations', async () => {
+    stubFetch(() => ({ code: 'NoTable' }));
+    await expect(
+      createOsrmProvider('https://osrm.test').getIsochrone(ORIGIN, { mode: 'drive', minutes: 10 })
+    ).rejects.toThrow('no durations');
+  });
+});
+
+describe('Valhalla provider', () => {
+  const ring = [[18.0, 59.3], [18.1, 59.3], [18.1, 59.4], [18.0, 59.3]];
+
+  it('requests a contour for the mode and minutes and flips the ring to [lat, lng]', async () => {
+    const fetchMock = stubFetch(() => ({
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', properties: {}, geometry: { type: 'Polygon', coordinates: [ring] } }],
+    }));
+
+    const isochrone = await createValhallaProvider('https://valhalla.test').getIsochrone(ORIGIN, {
+      mode: 'bike',
+      minutes: 15,
+    });
+
+    const request = JSON.parse(new URL(fetchMock.mock.calls[0][0]).searchParams.get('json')!);
+    expect(request).toMatchObject({ costing: 'bicycle', contours: [{ time: 15 }], polygons: true });
+    expect(isochrone.source).toBe('valhalla');
+    expect(isochrone.polygon).toEqual(ring.map(([lng, lat]) => [lat, lng]));
+  });
+
+  it('uses the first polygon of a multipolygon', async () => {
+    stubFetch(() => ({
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', properties: {}, geometry: { type: 'MultiPolygon', coordinates: [[ring]] } }],
+    }));
+
+    const isochrone = await createValhallaProvider('https://valhalla.test').getIsochrone(ORIGIN, {
+      mode: 'walk',
+      minutes: 10,
+    });
+
+    expect(isochrone.polygon[1]).toEqual([59.3, 18.1]);
+  });
+
+  it('fails without a polygon', async () => {
+    stubFetch(() => ({ type: 'FeatureCollection', features: [] }));
+    await expect(
+      createValhallaProvider('https://valhalla.test').getIsochrone(ORIGIN, { mode: 'walk', minutes: 10 })
+    ).rejects.toThrow('no polygon');
+  });
+});
+
+describe('getIsochrone', () => {
+  it('uses the offline model without a provider', async () => {
+    const isochrone = await getIsochrone(ORIGIN, { mode: 'walk', minutes: 15 }, null);
+    expect(isochrone.source).toBe('offline');
+    expect(isochrone.fallbackFrom).toBeUndefined();
+  });
+
+  it('falls back to the offline model and names the provider that failed', async () => {
+    const failing: RoutingProvider = {
+      name: 'osrm',
+      getIsochrone: () => Promise.reject(new Error('Network down')),
+    };
+
+    const isochrone = await getIsochrone(ORIGIN, { mode: 'walk', minutes: 15 }, failing);
+
+    expect(isochrone.source).toBe('offline');
+    expect(isochrone.fallbackFrom).toBe('osrm');
+    expect(isochrone.polygon).toHaveLength(64);
+  });
+
+  it('falls back when the server answers with an error', async () => {
+    stubFetch(() => ({ error: 'Internal error' }), 500);
+
+    const isochrone = await getIsochrone(
+      ORIGIN,
+      { mode: 'drive', minutes: 10 },
+      createValhallaProvider('https://valhalla.test')
+    );
+
+    expect(isochrone.fallbackFrom).toBe('valhalla');
+  });
+});
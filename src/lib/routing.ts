@@ -0,0 +1,197 @@
+// Travel-time isochrones: the area reachable from a point within some minutes.
+// Computed by a RoutingProvider; an OSRM or Valhalla server can be configured
+// with NEXT_PUBLIC_ROUTING_PROVIDER ("osrm" or "valhalla") and
+// NEXT_PUBLIC_ROUTING_URL. Without one, or when it fails, the offline model is used.
+
+export type TravelMode = 'walk' | 'bike' | 'drive';
+
+export const TRAVEL_MODES: TravelMode[] = ['walk', 'bike', 'drive'];
+
+export interface TravelTime {
+  mode: TravelMode;
+  minutes: number;
+}
+
+export const TRAVEL_MINUTES_LIMITS: [number, number] = [5, 60];
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface Isochrone {
+  origin: LatLng;
+  mode: TravelMode;
+  minutes: number;
+  polygon: [number, number][]; // outer ring, [lat, lng]
+  source: string; // name of the provider that computed it
+  fallbackFrom?: string; // configured provider that failed, if this is the offline estimate instead
+}
+
+export interface RoutingProvider {
+  name: string;
+  getIsochrone(origin: LatLng, travelTime: TravelTime): Promise<Isochrone>;
+}
+
+export function getTravelModeLabel(mode: TravelMode): string {
+  const labels: Record<TravelMode, string> = {
+    walk: 'Walk',
+    bike: 'Bike',
+    drive: 'Drive',
+  };
+  return labels[mode];
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Point at the given distance and bearing (degrees from north)
+function destination(origin: LatLng, distanceKm: number, bearing: number): [number, number] {
+  const angular = distanceKm / EARTH_RADIUS_KM;
+  const theta = (bearing * Math.PI) / 180;
+  const lat1 = (origin.lat * Math.PI) / 180;
+  const lng1 = (origin.lng * Math.PI) / 180;
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta));
+  const lng2 = lng1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+    Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+  );
+  return [(lat2 * 180) / Math.PI, (lng2 * 180) / Math.PI];
+}
+
+// Ray casting; the ring is [lat, lng] pairs
+export function isInsidePolygon([lat, lng]: [number, number], polygon: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    if ((latI > lat) !== (latJ > lat) && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Offline model: travel at a typical speed, with roads and paths being a
+// detour factor longer than the straight line. Gives a circle, so it is an
+// estimate, but needs no server.
+const OFFLINE_SPEEDS_KMH: Record<TravelMode, number> = { walk: 5, bike: 15, drive: 40 };
+const DETOUR_FACTOR = 1.3;
+const CIRCLE_POINTS = 64;
+
+export function getOfflineReachKm({ mode, minutes }: TravelTime): number {
+  return (OFFLINE_SPEEDS_KMH[mode] * minutes) / 60 / DETOUR_FACTOR;
+}
+
+export const offlineRoutingProvider: RoutingProvider = {
+  name: 'offline',
+  async getIsochrone(origin, travelTime) {
+    const reach = getOfflineReachKm(travelTime);
+    const polygon = Array.from({ length: CIRCLE_POINTS }, (_, i) => destination(origin, reach, (i * 360) / CIRCLE_POINTS));
+    return { origin, ...travelTime, polygon, source: 'offline' };
+  },
+};
+
+// Valhalla has an isochrone endpoint that returns GeoJSON polygons
+export function createValhallaProvider(baseUrl: string): RoutingProvider {
+  const costing: Record<TravelMode, string> = { walk: 'pedestrian', bike: 'bicycle', drive: 'auto' };
+
+  return {
+    name: 'valhalla',
+    async getIsochrone(origin, travelTime) {
+      const request = {
+        locations: [{ lat: origin.lat, lon: origin.lng }],
+        costing: costing[travelTime.mode],
+        contours: [{ time: travelTime.minutes }],
+        polygons: true,
+      };
+      const response = await fetch(`${baseUrl}/isochrone?json=${encodeURIComponent(JSON.stringify(request))}`);
+      if (!response.ok) throw new Error(`Valhalla isochrone failed: HTTP ${response.status}`);
+
+      const data: GeoJSON.FeatureCollection = await response.json();
+      const geometry = data.features[0]?.geometry;
+      const ring = geometry?.type === 'Polygon'
+        ? geometry.coordinates[0]
+        : geometry?.type === 'MultiPolygon' ? geometry.coordinates[0][0] : null;
+      if (!ring) throw new Error('Valhalla isochrone returned no polygon');
+
+      return { origin, ...travelTime, polygon: ring.map(([lng, lat]) => [lat, lng]), source: 'valhalla' };
+    },
+  };
+}
+
+// OSRM has no isochrone endpoint, so sample points along rays around the
+// origin, get their travel times from the table service and keep the farthest
+// reachable sample per ray
+const OSRM_RAYS = 32;
+const OSRM_STEPS_PER_RAY = 6;
+
+export function createOsrmProvider(baseUrl: string): RoutingProvider {
+  const profiles: Record<TravelMode, string> = { walk: 'foot', bike: 'bike', drive: 'driving' };
+
+  return {
+    name: 'osrm',
+    async getIsochrone(origin, travelTime) {
+      // Sample out to well past what the offline model expects
+      const maxReach = getOfflineReachKm(travelTime) * DETOUR_FACTOR * 1.5;
+      const samples: [number, number][] = [];
+      for (let ray = 0; ray < OSRM_RAYS; ray++) {
+        for (let step = 1; step <= OSRM_STEPS_PER_RAY; step++) {
+          samples.push(destination(origin, (maxReach * step) / OSRM_STEPS_PER_RAY, (ray * 360) / OSRM_RAYS));
+        }
+      }
+
+      const coordinates = [[origin.lat, origin.lng], ...samples].map(([lat, lng]) => `${lng},${lat}`).join(';');
+      const url = `${baseUrl}/table/v1/${profiles[travelTime.mode]}/${coordinates}?sources=0&annotations=duration`;
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`OSRM table request failed: HTTP ${response.status}`);
+
+      const data: { durations?: (number | null)[][] } = await response.json();
+      const durations = data.durations?.[0];
+      if (!durations) throw new Error('OSRM table returned no durations');
+
+      const limit = travelTime.minutes * 60;
+      const polygon: [number, number][] = [];
+      for (let ray = 0; ray < OSRM_RAYS; ray++) {
+        let farthest: [number, number] = [origin.lat, origin.lng];
+        for (let step = 1; step <= OSRM_STEPS_PER_RAY; step++) {
+          const index = ray * OSRM_STEPS_PER_RAY + step - 1;
+          const duration = durations[index + 1]; // index 0 is the origin itself
+          if (duration !== null && duration <= limit) farthest = samples[index];
+        }
+        polygon.push(farthest);
+      }
+
+      return { origin, ...travelTime, polygon, source: 'osrm' };
+    },
+  };
+}
+
+function createConfiguredProvider(): RoutingProvider | null {
+  const url = process.env.NEXT_PUBLIC_ROUTING_URL?.replace(/\/$/, '');
+  if (!url) return null;
+  switch (process.env.NEXT_PUBLIC_ROUTING_PROVIDER) {
+    case 'valhalla': return createValhallaProvider(url);
+    case 'osrm': return createOsrmProvider(url);
+    default: return null;
+  }
+}
+
+const configuredProvider = createConfiguredProvider();
+
+// Uses the configured provider when there is one, falling back to the
+// offline model if it fails so the filter keeps working; the result then
+// names the provider that failed so the panel can say so
+export async function getIsochrone(
+  origin: LatLng,
+  travelTime: TravelTime,
+  provider: RoutingProvider | null = configuredProvider
+): Promise<Isochrone> {
+  if (provider) {
+    try {
+      return await provider.getIsochrone(origin, travelTime);
+    } catch {
+      return { ...(await offlineRoutingProvider.getIsochrone(origin, travelTime)), fallbackFrom: provider.name };
+    }
+  }
+  return offlineRoutingProvider.getIsochrone(origin, travelTime);
+}
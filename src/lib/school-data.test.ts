@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createSchool } from '@/test/fixtures';
+import { getNearbySchools, getSchoolById } from './school-data';
+
+vi.mock('@/data/schools.json', async () => {
+  const { createSchool } = await import('@/test/fixtures');
+  return {
+    default: {
+      metadata: { fetchedAt: '2026-09-01T00:00:00Z' },
+      schools: [
+        createSchool({ id: 'center', coordinates: [59.33, 18.06] }),
+        createSchool({ id: 'far', coordinates: [59.6, 18.06] }),
+        createSchool({ id: 'near', coordinates: [59.34, 18.06] }),
+        createSchool({ id: 'middle', coordinates: [59.4, 18.06] }),
+      ],
+    },
+  };
+});
+
+describe('getSchoolById', () => {
+  it('finds a school in the dataset', () => {
+    expect(getSchoolById('near')?.coordinates).toEqual([59.34, 18.06]);
+    expect(getSchoolById('missing')).toBeUndefined();
+  });
+});
+
+describe('getNearbySchools', () => {
+  it('lists the closest other schools, nearest first', () => {
+    const nearby = getNearbySchools(getSchoolById('center')!, 2);
+
+    expect(nearby.map(n => n.school.id)).toEqual(['near', 'middle']);
+    expect(nearby[0].distance).toBeCloseTo(1.11, 1);
+  });
+
+  it('works for a school outside the dataset', () => {
+    const visitor = createSchool({ id: 'visitor', coordinates: [59.61, 18.06] });
+    expect(getNearbySchools(visitor, 1).map(n => n.school.id)).toEqual(['far']);
+  });
+});
@@ -0,0 +1,30 @@
+import schoolData from '@/data/schools.json';
+import { DataMetadata, School, SchoolData } from './types';
+import { SpatialIndex, createSpatialIndex } from './spatial-index';
+
+// Server-side access to the generated dataset, for statically rendered pages
+
+const data = schoolData as SchoolData;
+const schoolsById = new Map(data.schools.map(s => [s.id, s]));
+
+export function getAllSchools(): School[] {
+  return data.schools;
+}
+
+export function getSchoolById(id: string): School | undefined {
+  return schoolsById.get(id);
+}
+
+export function getDataMetadata(): DataMetadata {
+  return data.metadata;
+}
+
+let spatialIndex: SpatialIndex<School> | null = null;
+
+// Closest other schools by straight-line distance
+export function getNearbySchools(school: School, limit = 8): { school: School; distance: number }[] {
+  spatialIndex ??= createSpatialIndex(data.schools, s => s.coordinates);
+  return spatialIndex
+    .nearest(school.coordinates, limit, s => s.id !== school.id)
+    .map(({ item, distance }) => ({ school: item, distance }));
+}
@@ -0,0 +1,77 @@
+import { School } from './types';
+import { SchoolFilters, applyFilters } from './filters';
+import { SchoolSort, sortSchools } from './sorting';
+import { SavedLocations, getCombinedDistance, getCombinedDistanceBound } from './locations';
+import { Isochrone } from './routing';
+import { GeoBounds, createSpatialIndex } from './spatial-index';
+
+// Filtering and sorting for the map, the results list and the filter panel.
+// Runs in a web worker (school-query.worker.ts) so typing in the search or
+// dragging a slider doesn't block the map; the spatial index narrows the
+// distance, travel time and viewport queries to nearby schools first. Kept
+// free of React and of the dataset so the worker bundle stays small; the hook
+// is in use-school-query.ts.
+
+export interface SchoolQuery {
+  filters: SchoolFilters;
+  shortlistedIds: Record<string, unknown>;
+  locations: SavedLocations;
+  isochrone: Isochrone | null;
+  sort: SchoolSort;
+  scores: Record<string, number> | null; // needed to sort by composite score
+}
+
+export interface SchoolQueryEngine {
+  run(query: SchoolQuery): School[]; // filtered and sorted
+  withinBounds(schools: School[], bounds: GeoBounds): School[]; // keeps the order
+}
+
+function getPolygonBounds(polygon: [number, number][]): GeoBounds {
+  const lats = polygon.map(([lat]) => lat);
+  const lngs = polygon.map(([, lng]) => lng);
+  return { south: Math.min(...lats), west: Math.min(...lngs), north: Math.max(...lats), east: Math.max(...lngs) };
+}
+
+export function createSchoolQueryEngine(schools: School[]): SchoolQueryEngine {
+  const index = createSpatialIndex(schools, s => s.coordinates);
+
+  const run = ({ filters, shortlistedIds, locations, isochrone, sort, scores }: SchoolQuery): School[] => {
+    const hasLocations = locations.locations.length > 0;
+    // Schools that can pass the distance and travel time filters, if set
+    const nearby: Set<School>[] = [];
+    const bound = hasLocations && filters.maxDistance !== null
+      ? getCombinedDistanceBound(locations, filters.maxDistance)
+      : null;
+    if (bound) nearby.push(new Set(index.withinRadius(bound.center, bound.radiusKm)));
+    if (filters.travelTime && isochrone) nearby.push(new Set(index.withinBounds(getPolygonBounds(isochrone.polygon))));
+
+    // Back in dataset order, so ties sort the same as without the index
+    const candidates = nearby.length > 0 ? schools.filter(s => nearby.every(set => set.has(s))) : schools;
+    const filtered = applyFilters(
+      candidates,
+      filters,
+      shortlistedIds,
+      hasLocations ? (school: School) => getCombinedDistance(locations, school.coordinates) : null,
+      isochrone
+    );
+    return sortSchools(filtered, sort, locations, scores);
+  };
+
+  const withinBounds = (results: School[], bounds: GeoBounds): School[] => {
+    const inBounds = new Set(index.withinBounds(bounds));
+    return results.filter(s => inBounds.has(s));
+  };
+
+  return { run, withinBounds };
+}
+
+// Messages to and from the worker. Schools travel as ids after the initial
+// dataset; results are streamed in growing chunks, best first.
+export type SchoolQueryRequest =
+  | { type: 'init'; schools: School[] }
+  | { type: 'query'; queryId: number; query: SchoolQuery }
+  | { type: 'bounds'; bounds: GeoBounds | null };
+
+export type SchoolQueryResponse =
+  | { type: 'results'; queryId: number; ids: string[]; offset: number; total: number; done: boolean }
+  | { type: 'listed'; queryId: number; ids: string[] };
@@ -0,0 +1,69 @@
+import { School } from './types';
+import { GeoBounds } from './spatial-index';
+import {
+  SchoolQueryEngine,
+  SchoolQueryRequest,
+  SchoolQueryResponse,
+  createSchoolQueryEngine,
+} from './school-query';
+
+// Worker side of useSchoolQuery. Keeps the last results so panning the map
+// only reruns the viewport query, not the whole filter chain.
+
+const FIRST_CHUNK_SIZE = 250; // enough to fill the results list
+
+let engine: SchoolQueryEngine | null = null;
+let results: School[] = [];
+let bounds: GeoBounds | null = null;
+let queryId = 0;
+
+function post(response: SchoolQueryResponse) {
+  self.postMessage(response);
+}
+
+function postListed() {
+  if (!engine || !bounds) return;
+  post({ type: 'listed', queryId, ids: engine.withinBounds(results, bounds).map(s => s.id) });
+}
+
+// Chunks double in size; each is sent in its own task, so a newer query
+// arriving in between stops the rest of this one
+function streamResults(id: number, offset: number, size: number) {
+  if (id !== queryId) return;
+  const end = Math.min(offset + size, results.length);
+  const done = end === results.length;
+  post({
+    type: 'results',
+    queryId: id,
+    ids: results.slice(offset, end).map(s => s.id),
+    offset,
+    total: results.length,
+    done,
+  });
+
+  if (done) {
+    postListed();
+  } else {
+    setTimeout(() => streamResults(id, end, size * 2), 0);
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<SchoolQueryRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'init':
+      engine = createSchoolQueryEngine(request.schools);
+      results = [];
+      break;
+    case 'query':
+      if (!engine) return;
+      queryId = request.queryId;
+      results = engine.run(request.query);
+      streamResults(queryId, 0, FIRST_CHUNK_SIZE);
+      break;
+    case 'bounds':
+      bounds = request.bounds;
+      postListed();
+      break;
+  }
+});
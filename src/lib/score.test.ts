@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { createSchool } from '@/test/fixtures';
+import { SavedLocations } from './locations';
+import { DEFAULT_SCORE_WEIGHTS, ScoreWeights, computeSchoolScore, computeScores, createScoreModel } from './score';
+
+const NO_LOCATIONS: SavedLocations = { locations: [], primaryId: null, distanceMode: 'primary' };
+const ONLY_PERFORMANCE: ScoreWeights = {
+  performance: 1,
+  certifiedTeachers: 0,
+  studentsPerTeacher: 0,
+  schoolSize: 0,
+  trend: 0,
+  distance: 0,
+};
+
+const low = createSchool({ id: 'low', statistics: { meritValue: 200, totalPupils: 500 } });
+const mid = createSchool({ id: 'mid', statistics: { meritValue: 230, totalPupils: 300, certifiedTeachersRatio: 90 } });
+const high = createSchool({ id: 'high', statistics: { meritValue: 260, totalPupils: 100, certifiedTeachersRatio: 60 } });
+// Judged on the grade 6 pass rate, so it is ranked apart from the others
+const primary = createSchool({ id: 'primary', category: 'F-6', statistics: { passRateGrade6: 70 } });
+const schools = [low, mid, high, primary];
+const model = createScoreModel(schools);
+
+describe('createScoreModel', () => {
+  it('ranks schools against those judged on the same metric', () => {
+    expect(model.factorValues.get('low')!.performance).toBe(0);
+    expect(model.factorValues.get('mid')!.performance).toBe(0.5);
+    expect(model.factorValues.get('high')!.performance).toBe(1);
+    expect(model.factorValues.get('primary')!.performance).toBe(0.5);
+  });
+
+  it('ranks smaller schools higher and leaves out missing figures', () => {
+    expect(model.factorValues.get('high')!.schoolSize).toBe(1);
+    expect(model.factorValues.get('low')!.schoolSize).toBe(0);
+    expect(model.factorValues.get('low')!.certifiedTeachers).toBeNull();
+    expect(model.factorValues.get('primary')!.trend).toBeNull();
+  });
+
+  it('counts ties as half', () => {
+    const tied = [200, 230, 230, 260].map((meritValue, i) => createSchool({ id: String(i), statistics: { meritValue } }));
+    const values = createScoreModel(tied).factorValues;
+    expect(values.get('1')!.performance).toBe(0.5);
+    expect(values.get('2')!.performance).toBe(0.5);
+  });
+});
+
+describe('computeSchoolScore', () => {
+  it('is the weighted mean of the factors, from 0 to 100', () => {
+    const weights = { ...ONLY_PERFORMANCE, certifiedTeachers: 1 };
+    // Performance 0.5, certified teachers 1
+    expect(computeSchoolScore(mid, model, weights, NO_LOCATIONS).total).toBe(75);
+  });
+
+  it('rescales the weights over the factors with data', () => {
+    const weights = { ...ONLY_PERFORMANCE, certifiedTeachers: 3 };
+    // No certified teachers figure, so only performance counts
+    expect(computeSchoolScore(low, model, weights, NO_LOCATIONS).total).toBe(0);
+  });
+
+  it('has no total when no weighted factor has data', () => {
+    const weights = { ...ONLY_PERFORMANCE, performance: 0, certifiedTeachers: 1 };
+    expect(computeSchoolScore(low, model, weights, NO_LOCATIONS).total).toBeNull();
+  });
+
+  it('scores nearby schools higher on distance', () => {
+    const locations: SavedLocations = {
+      locations: [{
+        id: 'home',
+        name: 'Home',
+        icon: 'home',
+        lat: mid.coordinates[0],
+        lng: mid.coordinates[1],
+        address: null,
+        included: true,
+        weight: 1,
+      }],
+      primaryId: 'home',
+      distanceMode: 'primary',
+    };
+    const weights = { ...ONLY_PERFORMANCE, performance: 0, distance: 1 };
+    expect(computeSchoolScore(mid, model, weights, locations).total).toBe(100);
+    expect(computeSchoolScore(mid, model, weights, NO_LOCATIONS).total).toBeNull();
+  });
+});
+
+describe('computeScores', () => {
+  it('leaves out schools without a score', () => {
+    const scores = computeScores(schools, model, { ...ONLY_PERFORMANCE, performance: 0, certifiedTeachers: 1 }, NO_LOCATIONS);
+    expect(scores).toEqual({ mid: 100, high: 0 });
+  });
+
+  it('gives every school with data a score with the default weights', () => {
+    expect(Object.keys(computeScores(schools, model, DEFAULT_SCORE_WEIGHTS, NO_LOCATIONS))).toHaveLength(4);
+  });
+});
@@ -0,0 +1,197 @@
+import { HistoryMetric, School, getTimeSeriesTrend } from './types';
+import { SavedLocations, getCombinedDistance } from './locations';
+
+// Composite score: a weighted mean of factors that are each normalized to 0-1.
+// Statistics are ranked against every school in the dataset (percentile rank),
+// so a 0.8 means "better than 80% of schools reporting this figure". Distance
+// depends on the user's locations instead and decays with the combined distance.
+
+export type ScoreFactor =
+  | 'performance'
+  | 'certifiedTeachers'
+  | 'studentsPerTeacher'
+  | 'schoolSize'
+  | 'trend'
+  | 'distance';
+
+export type ScoreWeights = Record<ScoreFactor, number>;
+
+export const SCORE_FACTORS: ScoreFactor[] = [
+  'performance',
+  'certifiedTeachers',
+  'studentsPerTeacher',
+  'schoolSize',
+  'trend',
+  'distance',
+];
+
+export const MAX_SCORE_WEIGHT = 5;
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  performance: 3,
+  certifiedTeachers: 1,
+  studentsPerTeacher: 1,
+  schoolSize: 0,
+  trend: 1,
+  distance: 2,
+};
+
+export function getScoreFactorLabel(factor: ScoreFactor): string {
+  const labels: Record<ScoreFactor, string> = {
+    performance: 'Resultat',
+    certifiedTeachers: 'Behöriga lärare',
+    studentsPerTeacher: 'Färre elever per lärare',
+    schoolSize: 'Mindre skola',
+    trend: 'Förbättrade resultat',
+    distance: 'Närhet',
+  };
+  return labels[factor];
+}
+
+// Combined distance at which the distance factor drops to 0.5
+const DISTANCE_HALF_SCORE_KM = 3;
+
+// The results figure a school is judged on: merit for grade 9, pass rate for
+// grade 6, university eligibility for gymnasiums
+export function getPerformanceMetric(school: School): HistoryMetric | null {
+  switch (school.category) {
+    case 'F-9':
+    case '7-9':
+      return 'meritValue';
+    case 'F-6':
+      return 'passRateGrade6';
+    case 'gymnasium':
+      return 'universityEligibilityRate';
+    default:
+      return null;
+  }
+}
+
+type StaticFactor = Exclude<ScoreFactor, 'distance'>;
+type FactorValues = Record<StaticFactor, number | null>;
+
+// Everything that doesn't depend on weights or locations, computed once per dataset
+export interface ScoreModel {
+  factorValues: Map<string, FactorValues>;
+}
+
+// Fraction of values below the given one, counting ties as half
+function percentileRank(sorted: number[], value: number): number {
+  let below = 0;
+  let hi = sorted.length;
+  while (below < hi) {
+    const mid = (below + hi) >> 1;
+    if (sorted[mid] < value) below = mid + 1; else hi = mid;
+  }
+  let notAbove = below;
+  hi = sorted.length;
+  while (notAbove < hi) {
+    const mid = (notAbove + hi) >> 1;
+    if (sorted[mid] <= value) notAbove = mid + 1; else hi = mid;
+  }
+  return sorted.length > 1 ? (below + (notAbove - below - 1) / 2) / (sorted.length - 1) : 0.5;
+}
+
+function sortedValues(values: (number | null)[]): number[] {
+  return values.filter((v): v is number => v !== null).sort((a, b) => a - b);
+}
+
+export function createScoreModel(schools: School[]): ScoreModel {
+  const trends = new Map(schools.map(school => {
+    const metric = getPerformanceMetric(school);
+    return [school.id, metric ? getTimeSeriesTrend(school.statistics.history[metric])?.slope ?? null : null];
+  }));
+
+  // Rank each school against the others judged on the same metric
+  const byMetric = new Map<HistoryMetric, { values: number[]; trends: number[] }>();
+  for (const metric of ['meritValue', 'passRateGrade6', 'universityEligibilityRate'] as HistoryMetric[]) {
+    const judged = schools.filter(s => getPerformanceMetric(s) === metric);
+    byMetric.set(metric, {
+      values: sortedValues(judged.map(s => s.statistics[metric])),
+      trends: sortedValues(judged.map(s => trends.get(s.id)!)),
+    });
+  }
+  const teachers = sortedValues(schools.map(s => s.statistics.certifiedTeachersRatio));
+  const studentsPerTeacher = sortedValues(schools.map(s => s.statistics.studentsPerTeacher));
+  const pupils = sortedValues(schools.map(s => s.statistics.totalPupils));
+
+  const factorValues = new Map<string, FactorValues>();
+  for (const school of schools) {
+    const { statistics } = school;
+    const metric = getPerformanceMetric(school);
+    const ranks = metric ? byMetric.get(metric)! : null;
+    const value = metric ? statistics[metric] : null;
+    const trend = trends.get(school.id)!;
+
+    factorValues.set(school.id, {
+      performance: ranks && value !== null ? percentileRank(ranks.values, value) : null,
+      certifiedTeachers: statistics.certifiedTeachersRatio !== null
+        ? percentileRank(teachers, statistics.certifiedTeachersRatio)
+        : null,
+      // Lower is better for these two
+      studentsPerTeacher: statistics.studentsPerTeacher !== null
+        ? 1 - percentileRank(studentsPerTeacher, statistics.studentsPerTeacher)
+        : null,
+      schoolSize: statistics.totalPupils !== null ? 1 - percentileRank(pupils, statistics.totalPupils) : null,
+      trend: ranks && trend !== null ? percentileRank(ranks.trends, trend) : null,
+    });
+  }
+
+  return { factorValues };
+}
+
+export interface ScorePart {
+  factor: ScoreFactor;
+  weight: number;
+  value: number | null; // 0-1, null when the school lacks the data
+}
+
+export interface SchoolScore {
+  total: number | null; // 0-100, null when no weighted factor has data
+  parts: ScorePart[];
+}
+
+// Factors without data are left out and the remaining weights rescaled, so a
+// school isn't punished for a figure Skolverket doesn't report
+export function computeSchoolScore(
+  school: School,
+  model: ScoreModel,
+  weights: ScoreWeights,
+  locations: SavedLocations
+): SchoolScore {
+  const values = model.factorValues.get(school.id);
+  const distance = locations.locations.length > 0 ? getCombinedDistance(locations, school.coordinates) : null;
+
+  const parts = SCORE_FACTORS.map(factor => ({
+    factor,
+    weight: weights[factor],
+    value: factor === 'distance'
+      ? distance !== null ? 1 / (1 + distance / DISTANCE_HALF_SCORE_KM) : null
+      : values?.[factor] ?? null,
+  }));
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const part of parts) {
+    if (part.value === null || part.weight <= 0) continue;
+    weighted += part.value * part.weight;
+    totalWeight += part.weight;
+  }
+
+  return { total: totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) : null, parts };
+}
+
+// Total score per school id, for coloring and sorting; schools without one are left out
+export function computeScores(
+  schools: School[],
+  model: ScoreModel,
+  weights: ScoreWeights,
+  locations: SavedLocations
+): Record<string, number> {
+  const scores: Record<string, number> = {};
+  for (const school of schools) {
+    const { total } = computeSchoolScore(school, model, weights, locations);
+    if (total !== null) scores[school.id] = total;
+  }
+  return scores;
+}
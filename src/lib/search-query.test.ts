@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILTERS } from './filters';
+import { QueryFilters, QueryVocabulary, formatSearchQuery, getQuerySuggestions, parseSearchQuery } from './search-query';
+
+const vocabulary: QueryVocabulary = {
+  counties: ['Stockholms län', 'Uppsala län'],
+  municipalities: new Map([
+    ['Solna', 'Stockholms län'],
+    ['Upplands Väsby', 'Stockholms län'],
+    ['Uppsala', 'Uppsala län'],
+  ]),
+  programs: [
+    { family: 'NA', name: 'Naturvetenskapsprogrammet' },
+    { family: 'TE', name: 'Teknikprogrammet' },
+  ],
+};
+
+const parse = (input: string) => parseSearchQuery(input, vocabulary);
+
+// The part of the input an error points at
+function erroneousText(input: string): string[] {
+  return parse(input).errors.map(error => input.slice(error.start, error.end));
+}
+
+describe('parseSearchQuery', () => {
+  it('leaves the defaults for an empty query', () => {
+    const { filters, errors } = parse('');
+    expect(errors).toEqual([]);
+    expect(filters).toMatchObject({
+      search: '',
+      county: DEFAULT_FILTERS.county,
+      municipality: DEFAULT_FILTERS.municipality,
+      categories: DEFAULT_FILTERS.categories,
+      meritRange: DEFAULT_FILTERS.meritRange,
+    });
+  });
+
+  it('sets the filters of every term', () => {
+    const { filters, errors } = parse(
+      'merit>=250 kommun:Solna typ:F-9,7-9 behöriga>80 fristående avstånd<800m program:NA,TE poäng:265 sparade'
+    );
+    expect(errors).toEqual([]);
+    expect(filters).toEqual({
+      search: '',
+      county: 'Stockholms län',
+      municipality: 'Solna',
+      ownership: 'independent',
+      categories: ['F-9', '7-9'],
+      meritRange: [250, 340],
+      minCertifiedTeachers: 80,
+      onlyShortlisted: true,
+      maxDistance: 0.8,
+      programs: ['NA', 'TE'],
+      admissionPoints: 265,
+    });
+  });
+
+  it('keeps everything else as free text, and quoted values together', () => {
+    const { filters, errors } = parse('vasa kommun:"Upplands Väsby" "merit skolan"');
+    expect(errors).toEqual([]);
+    expect(filters.search).toBe('vasa merit skolan');
+    expect(filters.municipality).toBe('Upplands Väsby');
+  });
+
+  it('accepts aliases, other cases and a county without län', () => {
+    const { filters, errors } = parse('MERITVÄRDE<=200 county:uppsala type:gym');
+    expect(errors).toEqual([]);
+    expect(filters.meritRange).toEqual([0, 200]);
+    expect(filters.county).toBe('Uppsala län');
+    expect(filters.categories).toEqual(['gymnasium']);
+  });
+
+  it('reads merit ranges and single values', () => {
+    expect(parse('merit:200-260').filters.meritRange).toEqual([200, 260]);
+    expect(parse('merit=240').filters.meritRange).toEqual([240, 240]);
+  });
+
+  it('selects no categories with typ:inga', () => {
+    expect(parse('typ:inga').filters.categories).toEqual([]);
+    expect(parse('type:none').filters.categories).toEqual([]);
+  });
+
+  it('points errors at the offending term', () => {
+    expect(parse('vasa färg:blå').errors).toEqual([{ start: 5, end: 13, message: 'Unknown field "färg"' }]);
+    expect(erroneousText('kommun>Solna')).toEqual(['kommun>Solna']);
+    expect(erroneousText('skola merit>= typ:F-9')).toEqual(['merit>=']);
+    expect(erroneousText('merit>400')).toEqual(['merit>400']);
+    expect(erroneousText('merit>=200-260')).toEqual(['merit>=200-260']);
+    expect(erroneousText('merit:260-200')).toEqual(['merit:260-200']);
+    expect(erroneousText('kommun:Atlantis typ:F-9,X-1')).toEqual(['kommun:Atlantis', 'typ:F-9,X-1']);
+    expect(erroneousText('behöriga>101 avstånd:0km poäng:400 program:XX')).toEqual([
+      'behöriga>101',
+      'avstånd:0km',
+      'poäng:400',
+      'program:XX',
+    ]);
+  });
+
+  it('points at a county that contradicts the municipality', () => {
+    const input = 'kommun:Solna län:Uppsala';
+    const { filters, errors } = parse(input);
+    expect(errors).toHaveLength(1);
+    expect(input.slice(errors[0].start, errors[0].end)).toBe('län:Uppsala');
+    expect(errors[0].message).toBe('Solna is in Stockholms län');
+    expect(filters.county).toBe('Stockholms län');
+  });
+});
+
+describe('formatSearchQuery', () => {
+  const defaults: QueryFilters = parse('').filters;
+
+  it('writes nothing for the defaults', () => {
+    expect(formatSearchQuery(defaults)).toBe('');
+  });
+
+  it('reads back as the same filters', () => {
+    const cases: Partial<QueryFilters>[] = [
+      { search: 'vasa', municipality: 'Upplands Väsby', county: 'Stockholms län' },
+      { county: 'Uppsala län', categories: ['F-6', 'gymnasium'], ownership: 'municipal' },
+      { categories: [] },
+      { meritRange: [200, 260], minCertifiedTeachers: 75, maxDistance: 2.5 },
+      { meritRange: [230, 230], onlyShortlisted: true },
+      { meritRange: [0, 280], programs: ['NA'], admissionPoints: 262.5 },
+      { search: 'merit>=250 fristående' }, // free text that reads as terms
+    ];
+    for (const changes of cases) {
+      const filters = { ...defaults, ...changes };
+      const { filters: parsed, errors } = parse(formatSearchQuery(filters));
+      expect(errors).toEqual([]);
+      expect(parsed).toEqual(filters);
+    }
+  });
+});
+
+describe('getQuerySuggestions', () => {
+  it('suggests fields and keywords for the name being typed', () => {
+    const { start, end, suggestions } = getQuerySuggestions('vasa kom', 8, vocabulary);
+    expect([start, end]).toEqual([5, 8]);
+    expect(suggestions.map(s => s.insert)).toEqual(['kommun:', 'kommunal ']);
+  });
+
+  it('suggests values once the operator is there', () => {
+    const { suggestions } = getQuerySuggestions('kommun:upp', 10, vocabulary);
+    expect(suggestions.map(s => s.insert)).toEqual(['kommun:"Upplands Väsby" ', 'kommun:Uppsala ']);
+  });
+
+  it('completes the last item of a list', () => {
+    const { suggestions } = getQuerySuggestions('program:NA,t', 12, vocabulary);
+    expect(suggestions.map(s => s.insert)).toEqual(['program:NA,TE']);
+  });
+});
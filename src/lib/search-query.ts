@@ -0,0 +1,456 @@
+import { School, SchoolCategory } from './types';
+import { ADMISSION_POINTS_LIMIT, ALL_CATEGORIES, DEFAULT_FILTERS, MERIT_RANGE_LIMITS, SchoolFilters } from './filters';
+import { getProgramOptions } from './admission';
+
+// Query syntax for the search box, for those who'd rather type than click:
+//
+//   merit>=250 kommun:Solna typ:F-9,7-9 behöriga>80 fristående avstånd<3km program:NA
+//
+// Terms are a field, an operator and a value; values with spaces go in double
+// quotes (kommun:"Upplands Väsby"). Keywords set the ownership or the
+// shortlist filter, and anything else is free text matched against names and
+// places. A query sets the same filters as the panel controls, and the
+// controls are written back as a query. Comparisons include their end point,
+// like the sliders.
+
+// The filters a query can express; the rest (travel time) are left alone
+export type QueryFilters = Pick<
+  SchoolFilters,
+  | 'search'
+  | 'county'
+  | 'municipality'
+  | 'ownership'
+  | 'categories'
+  | 'meritRange'
+  | 'minCertifiedTeachers'
+  | 'onlyShortlisted'
+  | 'maxDistance'
+  | 'programs'
+  | 'admissionPoints'
+>;
+
+type QueryField = 'merit' | 'municipality' | 'county' | 'category' | 'teachers' | 'distance' | 'program' | 'points';
+type QueryOperator = '>=' | '<=' | '>' | '<' | '=' | ':';
+
+interface FieldSpec {
+  names: string[]; // the first one is written back and suggested
+  operators: QueryOperator[]; // the first one is suggested
+  description: string;
+}
+
+const FIELDS: Record<QueryField, FieldSpec> = {
+  merit: { names: ['merit', 'meritvärde'], operators: ['>=', '<=', '>', '<', '=', ':'], description: 'Merit value, grade 9 (0–340)' },
+  municipality: { names: ['kommun', 'municipality'], operators: [':', '='], description: 'Municipality' },
+  county: { names: ['län', 'county'], operators: [':', '='], description: 'County' },
+  category: { names: ['typ', 'type'], operators: [':', '='], description: 'School categories, e.g. F-9,7-9' },
+  teachers: { names: ['behöriga', 'teachers'], operators: ['>=', '>', ':'], description: 'Minimum % certified teachers' },
+  distance: { names: ['avstånd', 'distance'], operators: ['<', '<=', ':'], description: 'Max distance from your locations, e.g. 3km' },
+  program: { names: ['program'], operators: [':', '='], description: 'Gymnasium programs, e.g. NA,TE' },
+  points: { names: ['poäng', 'points'], operators: [':', '='], description: 'Expected merit points for admission' },
+};
+
+const QUERY_FIELDS = Object.keys(FIELDS) as QueryField[];
+
+interface KeywordSpec {
+  names: string[];
+  changes: Partial<QueryFilters>;
+  description: string;
+}
+
+const KEYWORDS: KeywordSpec[] = [
+  { names: ['fristående', 'independent'], changes: { ownership: 'independent' }, description: 'Independent schools' },
+  { names: ['kommunal', 'municipal'], changes: { ownership: 'municipal' }, description: 'Municipal schools' },
+  { names: ['sparade', 'shortlisted'], changes: { onlyShortlisted: true }, description: 'Only shortlisted schools' },
+];
+
+const CATEGORY_ALIASES: Record<string, SchoolCategory> = {
+  gym: 'gymnasium',
+  anp: 'anpassad',
+  övrig: 'other',
+};
+
+// typ:inga selects no categories at all, so an empty selection survives being
+// written out as a query and read back
+const NO_CATEGORIES = ['inga', 'none'];
+
+const TERM_PATTERN = /^(\p{L}+)(>=|<=|>|<|=|:)(.*)$/u;
+// Whitespace separates tokens except inside double quotes; an unclosed quote runs to the end
+const TOKEN_PATTERN = /(?:[^\s"]+|"[^"]*"?)+/g;
+
+// Names and places the values are checked against
+export interface QueryVocabulary {
+  counties: string[];
+  municipalities: Map<string, string>; // municipality -> county
+  programs: { family: string; name: string }[];
+}
+
+export function createQueryVocabulary(schools: School[]): QueryVocabulary {
+  const municipalities = new Map<string, string>();
+  for (const school of schools) {
+    if (school.county && !municipalities.has(school.municipality)) {
+      municipalities.set(school.municipality, school.county);
+    }
+  }
+  const counties = [...new Set(municipalities.values())].sort((a, b) => a.localeCompare(b, 'sv'));
+  const programs = getProgramOptions(schools).map(({ family, name }) => ({ family, name }));
+  return { counties, municipalities, programs };
+}
+
+export interface QueryError {
+  start: number; // character offsets of the offending term
+  end: number;
+  message: string;
+}
+
+export interface ParsedQuery {
+  filters: QueryFilters;
+  errors: QueryError[];
+}
+
+interface QueryToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+function tokenize(input: string): QueryToken[] {
+  return [...input.matchAll(TOKEN_PATTERN)].map(match => ({
+    text: match[0],
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+const normalize = (text: string) => text.toLocaleLowerCase('sv');
+const unquote = (text: string) => text.replace(/"/g, '');
+const quote = (text: string) => (/\s/.test(text) ? `"${text}"` : text);
+
+function findField(name: string): QueryField | null {
+  const lower = normalize(name);
+  return QUERY_FIELDS.find(field => FIELDS[field].names.includes(lower)) ?? null;
+}
+
+function findKeyword(text: string): KeywordSpec | null {
+  const lower = normalize(text);
+  return KEYWORDS.find(keyword => keyword.names.includes(lower)) ?? null;
+}
+
+function findCategory(text: string): SchoolCategory | null {
+  const lower = normalize(text);
+  return ALL_CATEGORIES.find(c => normalize(c) === lower) ?? CATEGORY_ALIASES[lower] ?? null;
+}
+
+function findCounty(text: string, vocabulary: QueryVocabulary): string | null {
+  const lower = normalize(text);
+  // "Stockholms" is enough for "Stockholms län"
+  return vocabulary.counties.find(c => normalize(c) === lower || normalize(c) === `${lower} län`) ?? null;
+}
+
+function findMunicipality(text: string, vocabulary: QueryVocabulary): string | null {
+  const lower = normalize(text);
+  return [...vocabulary.municipalities.keys()].find(m => normalize(m) === lower) ?? null;
+}
+
+function findProgram(text: string, vocabulary: QueryVocabulary): string | null {
+  const lower = normalize(text);
+  return vocabulary.programs.find(p => normalize(p.family) === lower || normalize(p.name) === lower)?.family ?? null;
+}
+
+function parseWholeNumber(text: string, max: number): number | null {
+  return /^\d+$/.test(text) && Number(text) <= max ? Number(text) : null;
+}
+
+export function parseSearchQuery(input: string, vocabulary: QueryVocabulary): ParsedQuery {
+  const filters: QueryFilters = {
+    search: '',
+    county: DEFAULT_FILTERS.county,
+    municipality: DEFAULT_FILTERS.municipality,
+    ownership: DEFAULT_FILTERS.ownership,
+    categories: DEFAULT_FILTERS.categories,
+    meritRange: DEFAULT_FILTERS.meritRange,
+    minCertifiedTeachers: DEFAULT_FILTERS.minCertifiedTeachers,
+    onlyShortlisted: DEFAULT_FILTERS.onlyShortlisted,
+    maxDistance: DEFAULT_FILTERS.maxDistance,
+    programs: DEFAULT_FILTERS.programs,
+    admissionPoints: DEFAULT_FILTERS.admissionPoints,
+  };
+  const errors: QueryError[] = [];
+  const words: string[] = [];
+  const categories = new Set<SchoolCategory>();
+  let noCategories = false;
+  const programs = new Set<string>();
+  let countyTerm: { token: QueryToken; county: string } | null = null;
+
+  for (const token of tokenize(input)) {
+    const fail = (message: string) => errors.push({ start: token.start, end: token.end, message });
+    const term = token.text.match(TERM_PATTERN);
+
+    if (!term) {
+      const keyword = findKeyword(token.text);
+      if (keyword) Object.assign(filters, keyword.changes);
+      else words.push(unquote(token.text));
+      continue;
+    }
+
+    const [, name, operator, rawValue] = term;
+    const field = findField(name);
+    if (!field) {
+      fail(`Unknown field "${name}"`);
+      continue;
+    }
+    if (!FIELDS[field].operators.includes(operator as QueryOperator)) {
+      fail(`${name} can't be used with ${operator}`);
+      continue;
+    }
+    const value = unquote(rawValue).trim();
+    if (!value) {
+      fail(`${name} needs a value`);
+      continue;
+    }
+
+    switch (field) {
+      case 'merit': {
+        const range = value.match(/^(\d+)-(\d+)$/);
+        const bounds = range
+          ? [parseWholeNumber(range[1], MERIT_RANGE_LIMITS[1]), parseWholeNumber(range[2], MERIT_RANGE_LIMITS[1])]
+          : [parseWholeNumber(value, MERIT_RANGE_LIMITS[1])];
+        if (bounds.some(b => b === null) || (range && operator !== ':' && operator !== '=')) {
+          fail(`Merit is a whole number from 0 to ${MERIT_RANGE_LIMITS[1]}, or a range like 200-260`);
+          break;
+        }
+        const [min, max] = filters.meritRange;
+        const [a, b = a] = bounds as number[];
+        const next: [number, number] = operator === '>=' || operator === '>'
+          ? [a, max]
+          : operator === '<=' || operator === '<' ? [min, a] : [a, b];
+        if (next[0] > next[1]) fail('Merit range is empty');
+        else filters.meritRange = next;
+        break;
+      }
+      case 'municipality': {
+        const municipality = findMunicipality(value, vocabulary);
+        if (!municipality) {
+          fail(`Unknown municipality "${value}"`);
+          break;
+        }
+        filters.municipality = municipality;
+        filters.county = vocabulary.municipalities.get(municipality)!;
+        break;
+      }
+      case 'county': {
+        const county = findCounty(value, vocabulary);
+        if (!county) {
+          fail(`Unknown county "${value}"`);
+          break;
+        }
+        if (filters.municipality === DEFAULT_FILTERS.municipality) filters.county = county;
+        countyTerm = { token, county };
+        break;
+      }
+      case 'category':
+        if (NO_CATEGORIES.includes(normalize(value))) {
+          noCategories = true;
+          break;
+        }
+        for (const item of value.split(',').filter(Boolean)) {
+          const category = findCategory(item);
+          if (category) categories.add(category);
+          else fail(`Unknown school category "${item}"`);
+        }
+        break;
+      case 'teachers': {
+        const percent = parseWholeNumber(value.replace(/%$/, ''), 100);
+        if (percent === null) fail('Certified teachers is a percentage from 0 to 100');
+        else filters.minCertifiedTeachers = percent;
+        break;
+      }
+      case 'distance': {
+        const distance = value.replace(',', '.').match(/^(\d+(?:\.\d+)?)\s*(km|m)?$/i);
+        if (!distance || Number(distance[1]) === 0) {
+          fail('Distance is a length like 3km or 800m');
+          break;
+        }
+        filters.maxDistance = normalize(distance[2] ?? 'km') === 'm' ? Number(distance[1]) / 1000 : Number(distance[1]);
+        break;
+      }
+      case 'program':
+        for (const item of value.split(',').filter(Boolean)) {
+          const family = findProgram(item, vocabulary);
+          if (family) programs.add(family);
+          else fail(`Unknown program "${item}"`);
+        }
+        break;
+      case 'points': {
+        const points = Number(value.replace(',', '.'));
+        if (!Number.isFinite(points) || points < 0 || points > ADMISSION_POINTS_LIMIT) {
+          fail(`Points are a number from 0 to ${ADMISSION_POINTS_LIMIT}`);
+        } else {
+          filters.admissionPoints = points;
+        }
+        break;
+      }
+    }
+  }
+
+  // A municipality sets its own county; a different county contradicts it
+  if (countyTerm && filters.municipality !== DEFAULT_FILTERS.municipality && countyTerm.county !== filters.county) {
+    const { start, end } = countyTerm.token;
+    errors.push({ start, end, message: `${filters.municipality} is in ${filters.county}` });
+  }
+
+  filters.search = words.join(' ');
+  if (noCategories) filters.categories = [];
+  else if (categories.size > 0) filters.categories = ALL_CATEGORIES.filter(c => categories.has(c));
+  if (programs.size > 0) filters.programs = [...programs];
+  return { filters, errors };
+}
+
+// Free text that would read as a term or keyword is quoted
+function formatSearchText(search: string): string {
+  const words = search.trim().split(/\s+/).filter(Boolean);
+  const ambiguous = words.some(word => TERM_PATTERN.test(word) || findKeyword(word) || word.includes('"'));
+  return ambiguous ? `"${unquote(search.trim())}"` : words.join(' ');
+}
+
+// The filters as a query, in the same order every time
+export function formatSearchQuery(filters: QueryFilters): string {
+  const parts: string[] = [];
+  if (filters.search.trim()) parts.push(formatSearchText(filters.search));
+
+  if (filters.municipality !== DEFAULT_FILTERS.municipality) {
+    parts.push(`kommun:${quote(filters.municipality)}`);
+  } else if (filters.county !== DEFAULT_FILTERS.county) {
+    parts.push(`län:${quote(filters.county)}`);
+  }
+  if (filters.categories.length === 0) {
+    parts.push(`typ:${NO_CATEGORIES[0]}`);
+  } else if (filters.categories.length < ALL_CATEGORIES.length) {
+    parts.push(`typ:${ALL_CATEGORIES.filter(c => filters.categories.includes(c)).join(',')}`);
+  }
+  if (filters.ownership !== 'all') parts.push(filters.ownership === 'independent' ? 'fristående' : 'kommunal');
+
+  const [min, max] = filters.meritRange;
+  const [limitMin, limitMax] = MERIT_RANGE_LIMITS;
+  if (min !== limitMin && max !== limitMax) parts.push(min === max ? `merit=${min}` : `merit:${min}-${max}`);
+  else if (min !== limitMin) parts.push(`merit>=${min}`);
+  else if (max !== limitMax) parts.push(`merit<=${max}`);
+
+  if (filters.minCertifiedTeachers !== null) parts.push(`behöriga>=${filters.minCertifiedTeachers}`);
+  if (filters.maxDistance !== null) parts.push(`avstånd<=${filters.maxDistance}km`);
+  if (filters.programs.length > 0) parts.push(`program:${filters.programs.join(',')}`);
+  if (filters.admissionPoints !== null) parts.push(`poäng:${filters.admissionPoints}`);
+  if (filters.onlyShortlisted) parts.push('sparade');
+  return parts.join(' ');
+}
+
+export interface QuerySuggestion {
+  label: string;
+  detail: string;
+  insert: string; // replaces the term being typed
+}
+
+export interface QuerySuggestions {
+  start: number; // range of the term being typed
+  end: number;
+  suggestions: QuerySuggestion[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Values starting with the typed text first, then those containing it
+function matchValues(values: string[], typed: string): string[] {
+  const lower = normalize(typed);
+  const starting = values.filter(v => normalize(v).startsWith(lower));
+  const containing = values.filter(v => !normalize(v).startsWith(lower) && normalize(v).includes(lower));
+  return [...starting, ...containing].slice(0, MAX_SUGGESTIONS);
+}
+
+// Field names and keywords while typing a name, values once the operator is there
+export function getQuerySuggestions(input: string, cursor: number, vocabulary: QueryVocabulary): QuerySuggestions {
+  const token = tokenize(input).find(t => t.start <= cursor && cursor <= t.end);
+  const start = token?.start ?? cursor;
+  const end = token?.end ?? cursor;
+  const typed = input.slice(start, cursor);
+  const term = typed.match(TERM_PATTERN);
+
+  if (!term) {
+    const lower = normalize(typed);
+    const fields = QUERY_FIELDS.flatMap(field => {
+      const { names, operators, description } = FIELDS[field];
+      const name = lower ? names.find(n => n.startsWith(lower)) : names[0];
+      return name ? [{ label: `${name}${operators[0]}`, detail: description, insert: `${name}${operators[0]}` }] : [];
+    });
+    const keywords = KEYWORDS.flatMap(({ names, description }) => {
+      const name = lower ? names.find(n => n.startsWith(lower)) : names[0];
+      return name ? [{ label: name, detail: description, insert: `${name} ` }] : [];
+    });
+    // A complete keyword needs no suggestion
+    const suggestions = [...fields, ...keywords].filter(s => s.insert.trim() !== lower);
+    return { start, end, suggestions: suggestions.slice(0, MAX_SUGGESTIONS) };
+  }
+
+  const [, name, operator, rawValue] = term;
+  const field = findField(name);
+  const value = unquote(rawValue);
+  const prefix = `${name}${operator}`;
+  const none = { start, end, suggestions: [] };
+
+  switch (field) {
+    case 'municipality':
+      return {
+        start,
+        end,
+        suggestions: matchValues([...vocabulary.municipalities.keys()], value).map(m => ({
+          label: m,
+          detail: vocabulary.municipalities.get(m)!,
+          insert: `${prefix}${quote(m)} `,
+        })),
+      };
+    case 'county':
+      return {
+        start,
+        end,
+        suggestions: matchValues(vocabulary.counties, value).map(c => ({
+          label: c,
+          detail: 'County',
+          insert: `${prefix}${quote(c)} `,
+        })),
+      };
+    case 'category':
+    case 'program': {
+      // Complete the last item of a comma separated list
+      const items = value.split(',');
+      const last = items.pop() ?? '';
+      const chosen = items.map(normalize);
+      const options = field === 'category'
+        ? [
+            ...ALL_CATEGORIES.map(c => ({ value: c, detail: 'School category' })),
+            ...(items.length === 0 ? [{ value: NO_CATEGORIES[0], detail: 'No school categories' }] : []),
+          ]
+        : vocabulary.programs.map(p => ({ value: p.family, detail: p.name }));
+      const lower = normalize(last);
+      return {
+        start,
+        end,
+        suggestions: options
+          .filter(o => !chosen.includes(normalize(o.value)))
+          .filter(o => normalize(o.value).startsWith(lower) || normalize(o.detail).includes(lower))
+          .slice(0, MAX_SUGGESTIONS)
+          .map(o => ({
+            label: o.value,
+            detail: o.detail,
+            insert: `${prefix}${[...items, o.value].join(',')}`,
+          })),
+      };
+    }
+    default:
+      return none;
+  }
+}
+
+// Named queries; stored by use-saved-queries.ts
+
+export interface SavedQuery {
+  name: string;
+  query: string;
+}
@@ -0,0 +1,34 @@
+// Personal shortlist of schools; the store and its hooks are in use-shortlist.ts
+
+export type ShortlistStatus = 'considering' | 'visited' | 'rejected';
+
+export interface ShortlistEntry {
+  schoolId: string;
+  status: ShortlistStatus;
+  notes: string;
+  visitDate: string | null; // YYYY-MM-DD
+  addedAt: string; // ISO timestamp
+}
+
+export type Shortlist = Record<string, ShortlistEntry>;
+
+export const SHORTLIST_STATUSES: ShortlistStatus[] = ['considering', 'visited', 'rejected'];
+
+export function getShortlistStatusLabel(status: ShortlistStatus): string {
+  const labels: Record<ShortlistStatus, string> = {
+    considering: 'Överväger',
+    visited: 'Besökt',
+    rejected: 'Avfärdad',
+  };
+  return labels[status];
+}
+
+// Marker outline color for shortlisted schools
+export function getShortlistStatusColor(status: ShortlistStatus): string {
+  const colors: Record<ShortlistStatus, string> = {
+    considering: 'hsl(45, 95%, 50%)',
+    visited: 'hsl(280, 60%, 50%)',
+    rejected: 'hsl(0, 0%, 55%)',
+  };
+  return colors[status];
+}
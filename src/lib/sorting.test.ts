@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createSchool } from '@/test/fixtures';
+import { SavedLocation, SavedLocations } from './locations';
+import { sortSchools } from './sorting';
+
+const NO_LOCATIONS: SavedLocations = { locations: [], primaryId: null, distanceMode: 'primary' };
+
+function createLocation(id: string, lat: number, lng: number): SavedLocation {
+  return { id, name: id, icon: 'home', lat, lng, address: null, included: true, weight: 1 };
+}
+
+const ids = (schools: { id: string }[]) => schools.map(s => s.id);
+
+const north = createSchool({ id: 'north', name: 'Östra skolan', coordinates: [59.5, 18.0], statistics: { meritValue: 240, studentsPerTeacher: 14 } });
+const south = createSchool({ id: 'south', name: 'Ängsskolan', coordinates: [59.1, 18.0], statistics: { meritValue: 260, studentsPerTeacher: 11 } });
+const middle = createSchool({ id: 'middle', name: 'Almskolan', coordinates: [59.3, 18.0], statistics: { meritValue: null, studentsPerTeacher: 12 } });
+const schools = [north, south, middle];
+
+describe('sortSchools', () => {
+  it('sorts by a statistic with missing values last in either direction', () => {
+    expect(ids(sortSchools(schools, { key: 'merit', direction: 'desc' }, NO_LOCATIONS))).toEqual(['south', 'north', 'middle']);
+    expect(ids(sortSchools(schools, { key: 'merit', direction: 'asc' }, NO_LOCATIONS))).toEqual(['north', 'south', 'middle']);
+  });
+
+  it('sorts lower-is-better statistics like any other', () => {
+    expect(ids(sortSchools(schools, { key: 'studentsPerTeacher', direction: 'asc' }, NO_LOCATIONS))).toEqual([
+      'south', 'middle', 'north',
+    ]);
+  });
+
+  it('sorts names in Swedish alphabetical order', () => {
+    // Å, Ä and Ö come after Z
+    expect(ids(sortSchools(schools, { key: 'name', direction: 'asc' }, NO_LOCATIONS))).toEqual(['middle', 'south', 'north']);
+  });
+
+  it('sorts by distance to the primary location', () => {
+    const locations: SavedLocations = {
+      locations: [createLocation('home', 59.45, 18.0), createLocation('work', 59.1, 18.0)],
+      primaryId: 'home',
+      distanceMode: 'primary',
+    };
+    expect(ids(sortSchools(schools, { key: 'distance', direction: 'asc' }, locations))).toEqual(['north', 'middle', 'south']);
+  });
+
+  it('sorts by the combined distance to the included locations', () => {
+    const locations: SavedLocations = {
+      locations: [createLocation('home', 59.5, 18.0), createLocation('work', 59.1, 18.0)],
+      primaryId: 'home',
+      distanceMode: 'max',
+    };
+    expect(ids(sortSchools(schools, { key: 'combinedDistance', direction: 'asc' }, locations))[0]).toBe('middle');
+  });
+
+  it('keeps the order when sorting by distance without locations', () => {
+    expect(ids(sortSchools(schools, { key: 'distance', direction: 'asc' }, NO_LOCATIONS))).toEqual(ids(schools));
+  });
+
+  it('sorts by score, unscored schools last', () => {
+    const scores = { north: 70, middle: 90 };
+    expect(ids(sortSchools(schools, { key: 'score', direction: 'desc' }, NO_LOCATIONS, scores))).toEqual([
+      'middle', 'north', 'south',
+    ]);
+  });
+
+  it('does not change the input', () => {
+    sortSchools(schools, { key: 'name', direction: 'asc' }, NO_LOCATIONS);
+    expect(ids(schools)).toEqual(['north', 'south', 'middle']);
+  });
+});
@@ -0,0 +1,92 @@
+import { HistoryMetric, School } from './types';
+import { SavedLocations, getCombinedDistance, getPrimaryDistance } from './locations';
+
+// Orderings for the results list (and the marker draw order on the map)
+
+export type SortKey =
+  | 'merit'
+  | 'passRateGrade6'
+  | 'universityEligibilityRate'
+  | 'gradePoints'
+  | 'certifiedTeachersRatio'
+  | 'studentsPerTeacher'
+  | 'totalPupils'
+  | 'score'
+  | 'distance'
+  | 'combinedDistance'
+  | 'name';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SchoolSort {
+  key: SortKey;
+  direction: SortDirection;
+}
+
+interface SortOption {
+  label: string;
+  defaultDirection: SortDirection; // best first
+  metric?: HistoryMetric; // statistic the key sorts by, if any
+}
+
+export const SORT_OPTIONS: Record<SortKey, SortOption> = {
+  merit: { label: 'Meritvärde', defaultDirection: 'desc', metric: 'meritValue' },
+  passRateGrade6: { label: 'Godkänt åk 6', defaultDirection: 'desc', metric: 'passRateGrade6' },
+  universityEligibilityRate: { label: 'Högskolebehörighet', defaultDirection: 'desc', metric: 'universityEligibilityRate' },
+  gradePoints: { label: 'Betygspoäng', defaultDirection: 'desc', metric: 'gradePoints' },
+  certifiedTeachersRatio: { label: 'Behöriga lärare', defaultDirection: 'desc', metric: 'certifiedTeachersRatio' },
+  studentsPerTeacher: { label: 'Elever per lärare', defaultDirection: 'asc', metric: 'studentsPerTeacher' },
+  totalPupils: { label: 'Antal elever', defaultDirection: 'desc', metric: 'totalPupils' },
+  score: { label: 'Sammanvägd poäng', defaultDirection: 'desc' },
+  distance: { label: 'Avstånd (primär plats)', defaultDirection: 'asc' },
+  combinedDistance: { label: 'Kombinerat avstånd', defaultDirection: 'asc' },
+  name: { label: 'Namn', defaultDirection: 'asc' },
+};
+
+export const SORT_KEYS = Object.keys(SORT_OPTIONS) as SortKey[];
+
+export const DEFAULT_SORT: SchoolSort = { key: 'merit', direction: 'desc' };
+
+export function isDistanceSortKey(key: SortKey): boolean {
+  return key === 'distance' || key === 'combinedDistance';
+}
+
+function getSortValue(
+  school: School,
+  key: SortKey,
+  locations: SavedLocations,
+  scores: Record<string, number> | null
+): number | null {
+  if (key === 'score') return scores?.[school.id] ?? null;
+  if (key === 'distance') return getPrimaryDistance(locations, school.coordinates);
+  if (key === 'combinedDistance') return getCombinedDistance(locations, school.coordinates);
+  const { metric } = SORT_OPTIONS[key];
+  return metric ? school.statistics[metric] : null;
+}
+
+// Schools without a value for the key go last in either direction.
+// Sorting by distance without any saved location keeps the input order.
+// Sorting by score needs the composite scores (see computeScores).
+export function sortSchools(
+  schools: School[],
+  sort: SchoolSort,
+  locations: SavedLocations,
+  scores: Record<string, number> | null = null
+): School[] {
+  const sign = sort.direction === 'asc' ? 1 : -1;
+
+  if (sort.key === 'name') {
+    return [...schools].sort((a, b) => sign * a.name.localeCompare(b.name, 'sv'));
+  }
+  if (isDistanceSortKey(sort.key) && locations.locations.length === 0) return [...schools];
+
+  // Compute each value once; distance in particular isn't free
+  return schools
+    .map(school => ({ school, value: getSortValue(school, sort.key, locations, scores) }))
+    .sort((a, b) => {
+      if (a.value === null) return b.value === null ? 0 : 1;
+      if (b.value === null) return -1;
+      return sign * (a.value - b.value);
+    })
+    .map(({ school }) => school);
+}
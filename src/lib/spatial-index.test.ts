@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDistance } from './types';
+import { GeoBounds, createSpatialIndex } from './spatial-index';
+
+interface Point {
+  id: number;
+  coordinates: [number, number];
+}
+
+// Small seeded generator (mulberry32) so failures can be reproduced
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Points spread over Sweden, some of them on the same spot
+function createPoints(count: number, random: () => number): Point[] {
+  const points: Point[] = [];
+  for (let id = 0; id < count; id++) {
+    const coordinates: [number, number] = id % 10 === 9
+      ? points[Math.floor(random() * points.length)].coordinates
+      : [55 + random() * 14, 11 + random() * 13];
+    points.push({ id, coordinates });
+  }
+  return points;
+}
+
+const random = createRandom(20240601);
+const points = createPoints(2000, random);
+const index = createSpatialIndex(points, p => p.coordinates);
+const ids = (found: Point[]) => found.map(p => p.id).sort((a, b) => a - b);
+const distanceTo = ([lat, lng]: [number, number], p: Point) => calculateDistance(lat, lng, ...p.coordinates);
+
+function randomCenter(): [number, number] {
+  return [55 + random() * 14, 11 + random() * 13];
+}
+
+describe('createSpatialIndex', () => {
+  it('finds the same points within bounds as a linear scan', () => {
+    for (let i = 0; i < 50; i++) {
+      const [south, west] = randomCenter();
+      const bounds: GeoBounds = { south, west, north: south + random() * 3, east: west + random() * 3 };
+      const expected = points.filter(({ coordinates: [lat, lng] }) =>
+        lat >= bounds.south && lat <= bounds.north && lng >= bounds.west && lng <= bounds.east
+      );
+      expect(ids(index.withinBounds(bounds))).toEqual(ids(expected));
+    }
+  });
+
+  it('finds the same points within a radius as a linear scan', () => {
+    for (let i = 0; i < 50; i++) {
+      const center = randomCenter();
+      const radiusKm = random() * 150;
+      const expected = points.filter(p => distanceTo(center, p) <= radiusKm);
+      expect(ids(index.withinRadius(center, radiusKm))).toEqual(ids(expected));
+    }
+  });
+
+  it('finds the same nearest distances as a linear scan', () => {
+    for (let i = 0; i < 50; i++) {
+      const center = randomCenter();
+      const k = 1 + Math.floor(random() * 20);
+      const expected = points.map(p => distanceTo(center, p)).sort((a, b) => a - b).slice(0, k);
+      // Ties can come back in either order, so compare the distances
+      expect(index.nearest(center, k).map(hit => hit.distance)).toEqual(expected);
+    }
+  });
+
+  it('skips points the filter rejects when looking for the nearest', () => {
+    const center = randomCenter();
+    const isEven = (p: Point) => p.id % 2 === 0;
+    const expected = points.filter(isEven).map(p => distanceTo(center, p)).sort((a, b) => a - b).slice(0, 5);
+
+    const hits = index.nearest(center, 5, isEven);
+
+    expect(hits.every(hit => isEven(hit.item))).toBe(true);
+    expect(hits.map(hit => hit.distance)).toEqual(expected);
+  });
+
+  it('handles an empty index and k of 0', () => {
+    const empty = createSpatialIndex<Point>([], p => p.coordinates);
+    expect(empty.withinBounds({ south: -90, west: -180, north: 90, east: 180 })).toEqual([]);
+    expect(empty.nearest([59, 18], 3)).toEqual([]);
+    expect(index.nearest([59, 18], 0)).toEqual([]);
+  });
+});
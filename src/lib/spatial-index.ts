@@ -0,0 +1,117 @@
+import { calculateDistance } from './types';
+
+// Static 2-d tree over [lat, lng] points for radius, bounding box and
+// k-nearest queries. Built once per dataset; the tree is implicit in the
+// order array, with each range split at its middle element and the axis
+// alternating between latitude and longitude.
+
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface SpatialIndex<T> {
+  withinBounds(bounds: GeoBounds): T[];
+  withinRadius(center: [number, number], radiusKm: number): T[];
+  // Closest first, skipping items the filter rejects
+  nearest(center: [number, number], k: number, filter?: (item: T) => boolean): { item: T; distance: number }[];
+}
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = (Math.PI * EARTH_RADIUS_KM) / 180;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Shortest distance from a point to the meridian or parallel a node splits
+// on; nothing on the other side of the split can be closer than this
+function getSplitDistance(lat: number, lng: number, axis: number, split: number): number {
+  if (axis === 0) return Math.abs(lat - split) * KM_PER_DEGREE_LAT;
+  const dLng = Math.min(Math.abs(lng - split), 90);
+  return EARTH_RADIUS_KM * Math.asin(Math.cos(toRadians(lat)) * Math.sin(toRadians(dLng)));
+}
+
+export function createSpatialIndex<T>(items: T[], getCoordinates: (item: T) => [number, number]): SpatialIndex<T> {
+  const coordinates = items.map(getCoordinates);
+  const order = Array.from(items, (_, i) => i);
+
+  const build = (lo: number, hi: number, axis: number) => {
+    if (hi - lo <= 1) return;
+    const range = order.slice(lo, hi).sort((a, b) => coordinates[a][axis] - coordinates[b][axis]);
+    order.splice(lo, range.length, ...range);
+    const mid = (lo + hi) >> 1;
+    build(lo, mid, 1 - axis);
+    build(mid + 1, hi, 1 - axis);
+  };
+  build(0, order.length, 0);
+
+  const withinBounds = ({ south, west, north, east }: GeoBounds): T[] => {
+    const min = [south, west];
+    const max = [north, east];
+    const found: T[] = [];
+
+    const search = (lo: number, hi: number, axis: number) => {
+      if (hi <= lo) return;
+      const mid = (lo + hi) >> 1;
+      const point = coordinates[order[mid]];
+      if (point[0] >= south && point[0] <= north && point[1] >= west && point[1] <= east) {
+        found.push(items[order[mid]]);
+      }
+      if (min[axis] <= point[axis]) search(lo, mid, 1 - axis);
+      if (max[axis] >= point[axis]) search(mid + 1, hi, 1 - axis);
+    };
+    search(0, order.length, 0);
+    return found;
+  };
+
+  // The box around the circle, then the exact distance
+  const withinRadius = ([lat, lng]: [number, number], radiusKm: number): T[] => {
+    const dLat = radiusKm / KM_PER_DEGREE_LAT;
+    const widestLat = Math.min(Math.abs(lat) + dLat, 89);
+    const dLng = Math.min(radiusKm / (KM_PER_DEGREE_LAT * Math.cos(toRadians(widestLat))), 180);
+    return withinBounds({ south: lat - dLat, west: lng - dLng, north: lat + dLat, east: lng + dLng })
+      .filter(item => {
+        const [itemLat, itemLng] = getCoordinates(item);
+        return calculateDistance(lat, lng, itemLat, itemLng) <= radiusKm;
+      });
+  };
+
+  const nearest = (
+    [lat, lng]: [number, number],
+    k: number,
+    filter?: (item: T) => boolean
+  ): { item: T; distance: number }[] => {
+    // Kept sorted by distance; k is small
+    const best: { index: number; distance: number }[] = [];
+
+    const search = (lo: number, hi: number, axis: number) => {
+      if (hi <= lo) return;
+      const mid = (lo + hi) >> 1;
+      const index = order[mid];
+      const point = coordinates[index];
+
+      if (!filter || filter(items[index])) {
+        const distance = calculateDistance(lat, lng, point[0], point[1]);
+        if (best.length < k || distance < best[best.length - 1].distance) {
+          const at = best.findIndex(b => b.distance > distance);
+          best.splice(at === -1 ? best.length : at, 0, { index, distance });
+          if (best.length > k) best.pop();
+        }
+      }
+
+      // The side the point is on first; the other only if it can still be closer
+      const value = axis === 0 ? lat : lng;
+      const [near, far] = value < point[axis]
+        ? [() => search(lo, mid, 1 - axis), () => search(mid + 1, hi, 1 - axis)]
+        : [() => search(mid + 1, hi, 1 - axis), () => search(lo, mid, 1 - axis)];
+      near();
+      if (best.length < k || getSplitDistance(lat, lng, axis, point[axis]) < best[best.length - 1].distance) {
+        far();
+      }
+    };
+    if (k > 0) search(0, order.length, 0);
+    return best.map(({ index, distance }) => ({ item: items[index], distance }));
+  };
+
+  return { withinBounds, withinRadius, nearest };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { Benchmark, getBenchmarkLabel, getBenchmarkLevel, getTimeSeriesTrend } from './types';
+
+const bench: Benchmark = { avg: 230, p10: 185, p25: 200, p50: 232, p75: 250, p90: 280, count: 100 };
+
+describe('getBenchmarkLevel', () => {
+  it('grades a value against the percentiles and the average', () => {
+    expect(getBenchmarkLevel(280, bench)).toBe('high');
+    expect(getBenchmarkLevel(279.9, bench)).toBe('above-avg');
+    expect(getBenchmarkLevel(250, bench)).toBe('above-avg');
+    expect(getBenchmarkLevel(230, bench)).toBe('avg');
+    expect(getBenchmarkLevel(229.9, bench)).toBe('below-avg');
+    expect(getBenchmarkLevel(200, bench)).toBe('below-avg');
+    expect(getBenchmarkLevel(199.9, bench)).toBe('low');
+  });
+
+  it('has no level without a value', () => {
+    expect(getBenchmarkLevel(null, bench)).toBeNull();
+  });
+});
+
+describe('getBenchmarkLabel', () => {
+  it('names the level', () => {
+    expect(getBenchmarkLabel(300, bench)).toBe('Topp 10%');
+    expect(getBenchmarkLabel(100, bench)).toBe('Låg');
+    expect(getBenchmarkLabel(null, bench)).toBe('');
+  });
+});
+
+describe('getTimeSeriesTrend', () => {
+  it('fits the change per year over all years', () => {
+    expect(getTimeSeriesTrend({ '2021': 220, '2022': 224, '2023': 228, '2024': 232 })).toEqual({
+      slope: 4,
+      from: '2021',
+      to: '2024',
+      years: 4,
+    });
+  });
+
+  it('reads school years by their start year', () => {
+    const trend = getTimeSeriesTrend({ '2021/22': 80, '2022/23': 78, '2023/24': 76 });
+    expect(trend?.slope).toBeCloseTo(-2);
+    expect(trend?.from).toBe('2021/22');
+    expect(trend?.to).toBe('2023/24');
+  });
+
+  it('keeps a missing year from stretching the trend', () => {
+    // 10 points over four years, not over the three reported ones
+    expect(getTimeSeriesTrend({ '2020': 200, '2021': 202.5, '2024': 210 })?.slope).toBeCloseTo(2.5);
+  });
+
+  it('fits noisy values by least squares', () => {
+    expect(getTimeSeriesTrend({ '2021': 1, '2022': 3, '2023': 2 })?.slope).toBeCloseTo(0.5);
+  });
+
+  it('needs at least three years', () => {
+    expect(getTimeSeriesTrend(undefined)).toBeNull();
+    expect(getTimeSeriesTrend({ '2023': 220, '2024': 240 })).toBeNull();
+  });
+});
@@ -12,6 +12,32 @@ export interface DataMetadata {
   withMeritData: number;
   withGrade6Data: number;
   withGymnasiumData: number;
+  changes?: DataChanges; // absent on the first processed dataset
+  benchmarks?: Benchmarks; // computed from the data by process-data
+  yearlyAverages?: YearlyAverages; // likewise, national mean for every year in the history
+}
+
+// National average and percentile breakpoints for one metric across all schools with data
+export interface Benchmark {
+  avg: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  count: number; // schools the benchmark is based on
+}
+
+export type Benchmarks = Partial<Record<HistoryMetric, Benchmark>>;
+
+// National mean per metric and year, across the schools reporting that year
+export type YearlyAverages = Partial<Record<HistoryMetric, TimeSeries>>;
+
+// Schools that appeared or disappeared compared to the previous fetch
+export interface DataChanges {
+  comparedWith: string; // fetchedAt of the previous dataset
+  newSchoolIds: string[];
+  closedSchools: { id: string; name: string; municipality: string }[];
 }
 
 export interface SchoolData {
@@ -24,6 +50,60 @@ export interface MeritHistory {
   value: number;
 }
 
+// Year -> value for one metric, keyed by Skolverket's timePeriod (e.g. "2023/24" or "2024")
+export type TimeSeries = Record<string, number>;
+
+// School-level metrics that carry a full multi-year history
+export type HistoryMetric =
+  | 'meritValue'
+  | 'passRateGrade9'
+  | 'passRateGrade6'
+  | 'avgTestSwedish6'
+  | 'avgTestEnglish6'
+  | 'avgTestMath6'
+  | 'universityEligibilityRate'
+  | 'gradePoints'
+  | 'graduationRate'
+  | 'studentsPerTeacher'
+  | 'certifiedTeachersRatio'
+  | 'totalPupils';
+
+// Display label and unit for each history metric
+export const HISTORY_METRIC_INFO: Record<HistoryMetric, { label: string; unit: string }> = {
+  meritValue: { label: 'Meritvärde åk 9', unit: '' },
+  passRateGrade9: { label: 'Godkänt i alla ämnen åk 9', unit: '%' },
+  passRateGrade6: { label: 'Godkänt i alla ämnen åk 6', unit: '%' },
+  avgTestSwedish6: { label: 'Nationellt prov svenska åk 6', unit: '' },
+  avgTestEnglish6: { label: 'Nationellt prov engelska åk 6', unit: '' },
+  avgTestMath6: { label: 'Nationellt prov matematik åk 6', unit: '' },
+  universityEligibilityRate: { label: 'Högskolebehörighet', unit: '%' },
+  gradePoints: { label: 'Genomsnittlig betygspoäng', unit: '' },
+  graduationRate: { label: 'Examen inom 3 år', unit: '%' },
+  studentsPerTeacher: { label: 'Elever per lärare', unit: '' },
+  certifiedTeachersRatio: { label: 'Behöriga lärare', unit: '%' },
+  totalPupils: { label: 'Antal elever', unit: '' },
+};
+
+// Percentages and head counts as whole numbers, everything else with one decimal
+export function formatMetricValue(metric: HistoryMetric, value: number): string {
+  const { unit } = HISTORY_METRIC_INFO[metric];
+  const formatted = metric === 'totalPupils' || unit === '%' ? value.toFixed(0) : value.toFixed(1);
+  return `${formatted}${unit}`;
+}
+
+// Per-program metrics that carry a full multi-year history
+export type ProgramHistoryMetric =
+  | 'universityEligibilityRate'
+  | 'gradePoints'
+  | 'graduationRate'
+  | 'admissionPointsAvg'
+  | 'admissionPointsMin'
+  | 'totalPupils';
+
+// Only metrics with at least one year of data are present
+export type StatisticsHistory = Partial<Record<HistoryMetric, TimeSeries>>;
+export type ProgramHistory = Partial<Record<ProgramHistoryMetric, TimeSeries>>;
+
 // School category based on grade levels
 export type SchoolCategory = 'F-6' | 'F-9' | '7-9' | 'gymnasium' | 'anpassad' | 'other';
 
@@ -35,34 +115,41 @@ export interface GymnasiumProgram {
   graduationRate: number | null; // % graduating within 3 years
   admissionPointsAvg: number | null; // average admission points
   admissionPointsMin: number | null; // minimum admission points
+  totalPupils: number | null; // pupils enrolled in the program
+  history: ProgramHistory; // all years for the metrics above
 }
 
 export interface SchoolStatistics {
   // Grundskola Grade 9 data (F-9, 7-9 schools)
   meritValue: number | null;
-  meritHistory: MeritHistory[];
   passRateGrade9: number | null;
   // Grundskola Grade 6 data (F-6, F-9 schools)
   passRateGrade6: number | null;
   avgTestSwedish6: number | null;
   avgTestEnglish6: number | null;
   avgTestMath6: number | null;
-  // Gymnasium data (aggregated across programs)
+  // Gymnasium data (aggregated across programs, weighted by program pupils)
   universityEligibilityRate: number | null; // % eligible for university
   gradePoints: number | null; // average grade points (0-20 scale)
   graduationRate: number | null; // % graduating within 3 years
   programs: GymnasiumProgram[]; // per-program data
+  programPupils: number | null; // pupils behind the aggregates; null if any program lacks a count
   // Common data
   studentsPerTeacher: number | null;
   certifiedTeachersRatio: number | null;
   totalPupils: number | null;
+  // Every year available for each metric above; the scalar fields hold the most recent year
+  history: StatisticsHistory;
 }
 
 export interface School {
   id: string;
   name: string;
   coordinates: [number, number]; // [lat, lng] WGS84
-  municipality: string;
+  municipality: string; // official kommun name, e.g. "Stockholm"
+  municipalityCode: string | null; // kommunkod, e.g. "0180"
+  county: string | null; // län, e.g. "Stockholms län"
+  postalCity: string; // postort from the visiting address, e.g. "Bromma"
   ownership: 'municipal' | 'independent';
   category: SchoolCategory;
   schoolTypes: string[]; // e.g., ["Grundskolan", "Gymnasieskolan"]
@@ -71,17 +158,72 @@ export interface School {
   statistics: SchoolStatistics;
 }
 
-export type MeritLevel = 'low' | 'below-avg' | 'avg' | 'above-avg' | 'high';
+// Years in a series, most recent first
+export function getTimeSeriesYears(series: TimeSeries | undefined): string[] {
+  if (!series) return [];
+  return Object.keys(series).sort((a, b) => b.localeCompare(a));
+}
 
-export function getMeritLevel(meritValue: number | null): MeritLevel | null {
-  if (meritValue === null) return null;
-  if (meritValue < 200) return 'low';
-  if (meritValue < 230) return 'below-avg';
-  if (meritValue < 250) return 'avg';
-  if (meritValue < 280) return 'above-avg';
-  return 'high';
+// What was this metric's value in a given year
+export function getStatisticForYear(stats: SchoolStatistics, metric: HistoryMetric, year: string): number | null {
+  return stats.history[metric]?.[year] ?? null;
+}
+
+export function getProgramStatisticForYear(
+  program: GymnasiumProgram,
+  metric: ProgramHistoryMetric,
+  year: string
+): number | null {
+  return program.history[metric]?.[year] ?? null;
+}
+
+// History of a metric as a list, most recent first
+export function getMetricHistory(stats: SchoolStatistics, metric: HistoryMetric): MeritHistory[] {
+  const series = stats.history[metric];
+  return getTimeSeriesYears(series).map(year => ({ year, value: series![year] }));
+}
+
+export function getMeritHistory(stats: SchoolStatistics): MeritHistory[] {
+  return getMetricHistory(stats, 'meritValue');
+}
+
+// Start year of a timePeriod key: "2023/24" -> 2023, "2024" -> 2024
+function getTimePeriodStart(year: string): number {
+  return parseInt(year.slice(0, 4), 10);
+}
+
+export interface TimeSeriesTrend {
+  slope: number; // change per year
+  from: string;
+  to: string;
+  years: number; // data points the slope is fitted to
 }
 
+// Least-squares slope over all reported years. Gaps between years are
+// respected, so a missing year doesn't stretch the trend.
+// Needs at least three years; with two it would just be a one-year change.
+export function getTimeSeriesTrend(series: TimeSeries | undefined): TimeSeriesTrend | null {
+  const years = getTimeSeriesYears(series).reverse();
+  if (!series || years.length < 3) return null;
+
+  const xs = years.map(getTimePeriodStart);
+  const ys = years.map(year => series[year]);
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = ys.reduce((a, b) => a + b, 0) / ys.length;
+
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    variance += (xs[i] - meanX) ** 2;
+  }
+  if (variance === 0) return null;
+
+  return { slope: covariance / variance, from: years[0], to: years[years.length - 1], years: years.length };
+}
+
+export type MeritLevel = 'low' | 'below-avg' | 'avg' | 'above-avg' | 'high';
+
 export function getMeritColor(level: MeritLevel | null): string {
   switch (level) {
     case 'low': return 'hsl(0, 70%, 50%)';        // Red
@@ -168,49 +310,26 @@ export function getGrade6Performance(stats: SchoolStatistics): number | null {
   return null;
 }
 
-// National test score benchmarks (based on actual data analysis)
-// Scores are on 0-20 scale (A=20, F=0)
-export const TEST_BENCHMARKS = {
-  swedish: { avg: 12.6, p75: 13.8, p90: 14.8, max: 20 },
-  english: { avg: 15.6, p75: 16.6, p90: 17.4, max: 20 },
-  math: { avg: 11.4, p75: 12.9, p90: 14.2, max: 20 },
-} as const;
-
-// Gymnasium benchmarks (national averages)
-export const GYMNASIUM_BENCHMARKS = {
-  universityEligibilityRate: { avg: 73, p75: 85, p90: 95 }, // % eligible for university
-  gradePoints: { avg: 14.0, p75: 14.8, p90: 15.5, max: 20 }, // 0-20 scale
-  graduationRate: { avg: 78, p75: 88, p90: 95 }, // % graduating within 3 years
-} as const;
-
-// Get performance level for gymnasium stats
-export function getGymnasiumPerformanceLevel(
-  value: number | null,
-  metric: 'universityEligibilityRate' | 'gradePoints' | 'graduationRate'
-): PerformanceLevel | null {
+// Place a value relative to a benchmark's breakpoints
+export function getBenchmarkLevel(value: number | null, bench: Benchmark): PerformanceLevel | null {
   if (value === null) return null;
-  const bench = GYMNASIUM_BENCHMARKS[metric];
-
-  if (value >= bench.p90) return 'high';
-  if (value >= bench.p75) return 'above-avg';
-  if (value >= bench.avg) return 'avg';
-  if (value >= bench.avg * 0.85) return 'below-avg';
+  if (value >= bench.p90) return 'high';      // Top 10%
+  if (value >= bench.p75) return 'above-avg'; // Top 25%
+  if (value >= bench.avg) return 'avg';       // Above average
+  if (value >= bench.p25) return 'below-avg'; // Below average, above bottom quartile
   return 'low';
 }
 
-// Get descriptive label for gymnasium performance
-export function getGymnasiumPerformanceLabel(
-  value: number | null,
-  metric: 'universityEligibilityRate' | 'gradePoints' | 'graduationRate'
-): string {
-  if (value === null) return '';
-  const bench = GYMNASIUM_BENCHMARKS[metric];
-
-  if (value >= bench.p90) return 'Topp 10%';
-  if (value >= bench.p75) return 'Topp 25%';
-  if (value >= bench.avg) return 'Över snitt';
-  if (value >= bench.avg * 0.85) return 'Under snitt';
-  return 'Låg';
+// Get a descriptive label for a value relative to a benchmark
+export function getBenchmarkLabel(value: number | null, bench: Benchmark): string {
+  switch (getBenchmarkLevel(value, bench)) {
+    case 'high': return 'Topp 10%';
+    case 'above-avg': return 'Topp 25%';
+    case 'avg': return 'Över snitt';
+    case 'below-avg': return 'Under snitt';
+    case 'low': return 'Låg';
+    default: return '';
+  }
 }
 
 // Program code to Swedish name mapping
@@ -251,43 +370,46 @@ export function getProgramName(code: string): string {
 
 export type TestSubject = 'swedish' | 'english' | 'math';
 
-// Get performance level for a test score relative to national benchmarks
-export function getTestPerformanceLevel(score: number | null, subject: TestSubject): PerformanceLevel | null {
-  if (score === null) return null;
-  const bench = TEST_BENCHMARKS[subject];
+// Performance level for coloring (works for both grade 6 and grade 9)
+export type PerformanceLevel = 'low' | 'below-avg' | 'avg' | 'above-avg' | 'high';
 
-  if (score >= bench.p90) return 'high';      // Top 10%
-  if (score >= bench.p75) return 'above-avg'; // Top 25%
-  if (score >= bench.avg) return 'avg';       // Above average
-  if (score >= bench.avg * 0.85) return 'below-avg'; // Within 15% below avg
-  return 'low';
+// Level for a 0-100 composite score. Scores are percentile based, so the
+// levels are quintiles rather than benchmark breakpoints.
+export function getScoreLevel(score: number | null): PerformanceLevel | null {
+  if (score === null) return null;
+  if (score < 20) return 'low';
+  if (score < 40) return 'below-avg';
+  if (score < 60) return 'avg';
+  if (score < 80) return 'above-avg';
+  return 'high';
 }
 
-// Get a descriptive label for test performance
-export function getTestPerformanceLabel(score: number | null, subject: TestSubject): string {
-  if (score === null) return '';
-  const bench = TEST_BENCHMARKS[subject];
+// How a student's merit points compare with a gymnasium program's admission points
+export type AdmissionChance = 'safe' | 'borderline' | 'out-of-reach' | 'unknown';
 
-  if (score >= bench.p90) return 'Topp 10%';
-  if (score >= bench.p75) return 'Topp 25%';
-  if (score >= bench.avg) return 'Över snitt';
-  if (score >= bench.avg * 0.85) return 'Under snitt';
-  return 'Låg';
-}
+export const ADMISSION_CHANCES: AdmissionChance[] = ['safe', 'borderline', 'out-of-reach', 'unknown'];
 
-// Performance level for coloring (works for both grade 6 and grade 9)
-export type PerformanceLevel = 'low' | 'below-avg' | 'avg' | 'above-avg' | 'high';
+export function getAdmissionChanceColor(chance: AdmissionChance | null): string {
+  switch (chance) {
+    case 'safe': return 'hsl(120, 60%, 40%)';
+    case 'borderline': return 'hsl(45, 90%, 50%)';
+    case 'out-of-reach': return 'hsl(0, 70%, 50%)';
+    default: return 'hsl(0, 0%, 60%)';
+  }
+}
 
-export function getPerformanceLevel(value: number | null, maxValue: number = 100): PerformanceLevel | null {
-  if (value === null) return null;
-  const percentage = (value / maxValue) * 100;
-  if (percentage < 60) return 'low';
-  if (percentage < 75) return 'below-avg';
-  if (percentage < 85) return 'avg';
-  if (percentage < 95) return 'above-avg';
-  return 'high';
+export function getAdmissionChanceLabel(chance: AdmissionChance): string {
+  const labels: Record<AdmissionChance, string> = {
+    'safe': 'Säker',
+    'borderline': 'På gränsen',
+    'out-of-reach': 'Utom räckhåll',
+    'unknown': 'Antagningspoäng saknas',
+  };
+  return labels[chance];
 }
 
+export const PERFORMANCE_LEVELS: PerformanceLevel[] = ['low', 'below-avg', 'avg', 'above-avg', 'high'];
+
 export function getPerformanceColor(level: PerformanceLevel | null): string {
   switch (level) {
     case 'low': return 'hsl(0, 70%, 50%)';
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILTERS } from './filters';
+import { DEFAULT_SORT } from './sorting';
+import { DEFAULT_COLOR_MODE, UrlState, buildShareUrl, buildUrlSearch, isSameHistoryEntry, parseUrlState } from './url-state';
+
+type State = Omit<UrlState, 'home'>;
+
+const defaultState: State = {
+  filters: DEFAULT_FILTERS,
+  colorMode: DEFAULT_COLOR_MODE,
+  sort: DEFAULT_SORT,
+  viewport: null,
+  schoolId: null,
+};
+
+function roundTrip(state: State): UrlState {
+  return parseUrlState(buildUrlSearch(state));
+}
+
+describe('buildUrlSearch', () => {
+  it('writes nothing for the defaults', () => {
+    expect(buildUrlSearch(defaultState)).toBe('');
+  });
+
+  it('writes only the values that differ from the defaults', () => {
+    const search = buildUrlSearch({
+      ...defaultState,
+      filters: { ...DEFAULT_FILTERS, municipality: 'Nacka', categories: ['gymnasium', 'F-9'], meritRange: [250, 340] },
+      viewport: { lat: 59.31034, lng: 18.16399, zoom: 13 },
+    });
+
+    expect(search).toBe('?municipality=Nacka&types=F-9%2Cgymnasium&merit=250-340&map=59.3103%2C18.1640%2C13');
+  });
+
+  it('writes an empty category selection as none', () => {
+    const search = buildUrlSearch({ ...defaultState, filters: { ...DEFAULT_FILTERS, categories: [] } });
+    expect(search).toBe('?types=none');
+  });
+});
+
+describe('parseUrlState', () => {
+  it('reads back what buildUrlSearch wrote', () => {
+    const state: State = {
+      filters: {
+        ...DEFAULT_FILTERS,
+        search: 'Vasa',
+        county: 'Stockholms län',
+        ownership: 'independent',
+        categories: ['F-6', '7-9'],
+        minCertifiedTeachers: 80,
+        programs: ['NA', 'TE'],
+        admissionPoints: 265,
+      },
+      colorMode: 'admission',
+      sort: { key: 'studentsPerTeacher', direction: 'desc' },
+      viewport: { lat: 59.3103, lng: 18.164, zoom: 13 },
+      schoolId: '12345678',
+    };
+
+    expect(roundTrip(state)).toEqual({ ...state, home: null });
+  });
+
+  it('keeps an empty category selection', () => {
+    const state = { ...defaultState, filters: { ...DEFAULT_FILTERS, categories: [] } };
+
+    expect(roundTrip(state).filters.categories).toEqual([]);
+    // The same URL again, so the next write after a back navigation doesn't push
+    expect(buildUrlSearch(roundTrip(state))).toBe('?types=none');
+  });
+
+  it('falls back to the defaults for unknown or malformed values', () => {
+    const state = parseUrlState('?types=skola&merit=300-200&teachers=120&color=rainbow&sort=name,up&map=59,18');
+
+    expect(state.filters.categories).toEqual(DEFAULT_FILTERS.categories);
+    expect(state.filters.meritRange).toEqual(DEFAULT_FILTERS.meritRange);
+    expect(state.filters.minCertifiedTeachers).toBeNull();
+    expect(state.colorMode).toBe(DEFAULT_COLOR_MODE);
+    expect(state.sort).toEqual({ key: 'name', direction: 'asc' });
+    expect(state.viewport).toBeNull();
+  });
+
+  it('reads the home position only from shared links', () => {
+    const search = buildUrlSearch(defaultState, { lat: 59.33, lng: 18.07 });
+    expect(parseUrlState(search).home).toEqual({ lat: 59.33, lng: 18.07 });
+  });
+});
+
+describe('isSameHistoryEntry', () => {
+  it('ignores the params that change while typing or panning', () => {
+    expect(isSameHistoryEntry('?types=F-9&q=Va&map=59,18,10', '?types=F-9&q=Vasa&map=59,18,12')).toBe(true);
+    expect(isSameHistoryEntry('?types=F-9', '?types=none')).toBe(false);
+  });
+});
+
+describe('buildShareUrl', () => {
+  it('adds the home position to the current page', () => {
+    expect(buildShareUrl(defaultState, { lat: 59.33, lng: 18.07 })).toBe(
+      `${window.location.origin}${window.location.pathname}?home=59.3300%2C18.0700`
+    );
+  });
+});
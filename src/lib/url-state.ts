@@ -0,0 +1,187 @@
+import { SchoolCategory } from './types';
+import {
+  ADMISSION_POINTS_LIMIT,
+  ALL_CATEGORIES,
+  DEFAULT_FILTERS,
+  MERIT_RANGE_LIMITS,
+  OwnershipFilter,
+  SchoolFilters,
+} from './filters';
+import { DEFAULT_SORT, SORT_KEYS, SORT_OPTIONS, SchoolSort, SortKey } from './sorting';
+
+// Shareable view state, serialized into the query string:
+//
+//   ?county=Stockholms+län&municipality=Nacka&types=F-9&merit=250-340&color=performance
+//     &sort=studentsPerTeacher,desc&map=59.3103,18.1640,13&school=12345678
+//   ?programs=NA,TE&points=265&color=admission
+//   ?q=Vasa&teachers=80
+//   ?types=none (no category selected)
+//
+// Only values that differ from the defaults are written. The home position (the
+// primary saved location) is sensitive, so it is only added to links the user
+// explicitly chooses to share (see buildShareUrl) and never to the address bar.
+
+type ColorMode = 'performance' | 'category' | 'score' | 'admission';
+
+export interface MapViewport {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+export interface UrlState {
+  filters: SchoolFilters;
+  colorMode: ColorMode;
+  sort: SchoolSort;
+  viewport: MapViewport | null;
+  schoolId: string | null;
+  home: { lat: number; lng: number } | null;
+}
+
+export const DEFAULT_COLOR_MODE: ColorMode = 'category';
+
+// Written for an empty category selection, since an absent or empty types
+// param means all categories
+const NO_CATEGORIES = 'none';
+
+// Params that change continuously (typing, panning) replace the current history
+// entry instead of pushing a new one
+const TRANSIENT_PARAMS = ['q', 'points', 'map'];
+
+function parseNumberList(value: string | null, length: number): number[] | null {
+  if (!value) return null;
+  const numbers = value.split(',').map(Number);
+  return numbers.length === length && numbers.every(Number.isFinite) ? numbers : null;
+}
+
+function parseCategories(value: string | null): SchoolCategory[] {
+  if (!value) return DEFAULT_FILTERS.categories;
+  if (value === NO_CATEGORIES) return [];
+  const categories = value.split(',').filter((c): c is SchoolCategory => ALL_CATEGORIES.includes(c as SchoolCategory));
+  return categories.length > 0 ? categories : DEFAULT_FILTERS.categories;
+}
+
+function parseMeritRange(value: string | null): [number, number] {
+  const match = value?.match(/^(\d+)-(\d+)$/);
+  if (!match) return DEFAULT_FILTERS.meritRange;
+  const min = Math.max(MERIT_RANGE_LIMITS[0], parseInt(match[1], 10));
+  const max = Math.min(MERIT_RANGE_LIMITS[1], parseInt(match[2], 10));
+  return min <= max ? [min, max] : DEFAULT_FILTERS.meritRange;
+}
+
+function parsePrograms(value: string | null): string[] {
+  if (!value) return DEFAULT_FILTERS.programs;
+  return value.split(',').map(p => p.trim().toUpperCase()).filter(p => /^[A-Z]+$/.test(p));
+}
+
+function parseAdmissionPoints(value: string | null): number | null {
+  const points = value ? Number(value) : NaN;
+  return Number.isFinite(points) && points >= 0 && points <= ADMISSION_POINTS_LIMIT ? points : null;
+}
+
+function parseMinCertifiedTeachers(value: string | null): number | null {
+  const percent = value ? Number(value) : NaN;
+  return Number.isInteger(percent) && percent >= 0 && percent <= 100 ? percent : null;
+}
+
+// "key" in its default direction, or "key,asc" / "key,desc"
+function parseSort(value: string | null): SchoolSort {
+  const [key, direction] = value?.split(',') ?? [];
+  if (!SORT_KEYS.includes(key as SortKey)) return DEFAULT_SORT;
+  return {
+    key: key as SortKey,
+    direction: direction === 'asc' || direction === 'desc' ? direction : SORT_OPTIONS[key as SortKey].defaultDirection,
+  };
+}
+
+function formatSort(sort: SchoolSort): string {
+  return sort.direction === SORT_OPTIONS[sort.key].defaultDirection ? sort.key : `${sort.key},${sort.direction}`;
+}
+
+// Unknown or malformed params fall back to their defaults
+export function parseUrlState(search: string): UrlState {
+  const params = new URLSearchParams(search);
+
+  const ownership = params.get('ownership');
+  const color = params.get('color');
+  const map = parseNumberList(params.get('map'), 3);
+  const home = parseNumberList(params.get('home'), 2);
+
+  return {
+    filters: {
+      search: params.get('q') ?? '',
+      county: params.get('county') ?? 'all',
+      municipality: params.get('municipality') ?? 'all',
+      ownership: ownership === 'municipal' || ownership === 'independent'
+        ? ownership as OwnershipFilter
+        : 'all',
+      categories: parseCategories(params.get('types')),
+      meritRange: parseMeritRange(params.get('merit')),
+      minCertifiedTeachers: parseMinCertifiedTeachers(params.get('teachers')),
+      // The shortlist and saved locations live in the browser, so these aren't shared
+      onlyShortlisted: false,
+      maxDistance: null,
+      travelTime: null,
+      programs: parsePrograms(params.get('programs')),
+      admissionPoints: parseAdmissionPoints(params.get('points')),
+    },
+    colorMode: color === 'performance' || color === 'category' || color === 'score' || color === 'admission'
+      ? color
+      : DEFAULT_COLOR_MODE,
+    sort: parseSort(params.get('sort')),
+    viewport: map ? { lat: map[0], lng: map[1], zoom: map[2] } : null,
+    schoolId: params.get('school'),
+    home: home ? { lat: home[0], lng: home[1] } : null,
+  };
+}
+
+export function formatViewport(viewport: MapViewport): string {
+  return `${viewport.lat.toFixed(4)},${viewport.lng.toFixed(4)},${viewport.zoom}`;
+}
+
+export function buildUrlSearch(state: Omit<UrlState, 'home'>, home: UrlState['home'] = null): string {
+  const params = new URLSearchParams();
+  const { filters } = state;
+
+  if (filters.search) params.set('q', filters.search);
+  if (filters.county !== 'all') params.set('county', filters.county);
+  if (filters.municipality !== 'all') params.set('municipality', filters.municipality);
+  if (filters.ownership !== 'all') params.set('ownership', filters.ownership);
+  if (filters.categories.length !== ALL_CATEGORIES.length) {
+    // Keep a stable order so equal states produce equal URLs
+    const categories = ALL_CATEGORIES.filter(c => filters.categories.includes(c));
+    params.set('types', categories.length > 0 ? categories.join(',') : NO_CATEGORIES);
+  }
+  if (filters.meritRange[0] !== MERIT_RANGE_LIMITS[0] || filters.meritRange[1] !== MERIT_RANGE_LIMITS[1]) {
+    params.set('merit', `${filters.meritRange[0]}-${filters.meritRange[1]}`);
+  }
+  if (filters.minCertifiedTeachers !== null) params.set('teachers', String(filters.minCertifiedTeachers));
+  if (filters.programs.length > 0) params.set('programs', filters.programs.join(','));
+  if (filters.admissionPoints !== null) params.set('points', String(filters.admissionPoints));
+  if (state.colorMode !== DEFAULT_COLOR_MODE) params.set('color', state.colorMode);
+  if (state.sort.key !== DEFAULT_SORT.key || state.sort.direction !== DEFAULT_SORT.direction) {
+    params.set('sort', formatSort(state.sort));
+  }
+  if (state.viewport) params.set('map', formatViewport(state.viewport));
+  if (state.schoolId) params.set('school', state.schoolId);
+  if (home) params.set('home', `${home.lat.toFixed(4)},${home.lng.toFixed(4)}`);
+
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
+
+// Same search string apart from the transient params
+export function isSameHistoryEntry(a: string, b: string): boolean {
+  const strip = (search: string) => {
+    const params = new URLSearchParams(search);
+    TRANSIENT_PARAMS.forEach(p => params.delete(p));
+    return params.toString();
+  };
+  return strip(a) === strip(b);
+}
+
+// Current location with the home position added, for the share button
+export function buildShareUrl(state: Omit<UrlState, 'home'>, home: UrlState['home']): string {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}${buildUrlSearch(state, home)}`;
+}
@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import { Isochrone, LatLng, TravelTime, getIsochrone } from './routing';
+
+// Isochrone around the origin, recomputed when either changes; null while
+// loading and when there is no origin or travel time
+export function useIsochrone(origin: LatLng | null, travelTime: TravelTime | null): Isochrone | null {
+  const [isochrone, setIsochrone] = useState<Isochrone | null>(null);
+  const lat = origin?.lat;
+  const lng = origin?.lng;
+  const mode = travelTime?.mode;
+  const minutes = travelTime?.minutes;
+
+  useEffect(() => {
+    if (lat === undefined || lng === undefined || mode === undefined || minutes === undefined) return;
+    let cancelled = false;
+    getIsochrone({ lat, lng }, { mode, minutes }).then(result => {
+      if (!cancelled) setIsochrone(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [lat, lng, mode, minutes]);
+
+  // Don't hand out an isochrone for a previous origin or travel time
+  if (
+    !isochrone || lat === undefined ||
+    isochrone.origin.lat !== lat || isochrone.origin.lng !== lng ||
+    isochrone.mode !== mode || isochrone.minutes !== minutes
+  ) {
+    return null;
+  }
+  return isochrone;
+}
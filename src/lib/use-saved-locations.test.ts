@@ -0,0 +1,73 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The store keeps its state in the module, so each test loads it fresh
+async function renderSavedLocations() {
+  vi.resetModules();
+  const { useSavedLocations } = await import('./use-saved-locations');
+  return renderHook(() => useSavedLocations());
+}
+
+const place = { name: 'Home', icon: 'home' as const, lat: 59.33, lng: 18.06, address: null };
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('useSavedLocations', () => {
+  it('makes the first location the primary one', async () => {
+    const { result } = await renderSavedLocations();
+
+    let homeId = '';
+    act(() => {
+      homeId = result.current[1].add(place);
+    });
+    act(() => {
+      result.current[1].add({ ...place, name: 'Work', icon: 'work' });
+    });
+
+    expect(result.current[0].primaryId).toBe(homeId);
+    expect(result.current[0].locations.map(l => [l.name, l.included, l.weight])).toEqual([
+      ['Home', true, 1],
+      ['Work', true, 1],
+    ]);
+  });
+
+  it('moves the primary to the next location when it is removed', async () => {
+    const { result } = await renderSavedLocations();
+    act(() => {
+      result.current[1].add(place);
+      result.current[1].add({ ...place, name: 'Work' });
+    });
+    const [home, work] = result.current[0].locations;
+
+    act(() => result.current[1].remove(home.id));
+    expect(result.current[0].primaryId).toBe(work.id);
+
+    act(() => result.current[1].remove(work.id));
+    expect(result.current[0]).toEqual({ locations: [], primaryId: null, distanceMode: 'primary' });
+    expect(localStorage.getItem('savedLocations')).toBeNull();
+  });
+
+  it('turns the old single home position into a saved location', async () => {
+    localStorage.setItem('homePosition', JSON.stringify({ lat: 59.33, lng: 18.06 }));
+
+    const { result } = await renderSavedLocations();
+
+    const [home] = result.current[0].locations;
+    expect(home).toMatchObject({ name: 'Home', icon: 'home', lat: 59.33, lng: 18.06, included: true });
+    expect(result.current[0].primaryId).toBe(home.id);
+    expect(localStorage.getItem('homePosition')).toBeNull();
+  });
+
+  it('keeps existing locations over the old home position', async () => {
+    const saved = { locations: [{ ...place, id: 'a', included: true, weight: 1 }], primaryId: 'a', distanceMode: 'sum' };
+    localStorage.setItem('savedLocations', JSON.stringify(saved));
+    localStorage.setItem('homePosition', JSON.stringify({ lat: 1, lng: 1 }));
+
+    const { result } = await renderSavedLocations();
+
+    expect(result.current[0]).toEqual(saved);
+    expect(localStorage.getItem('homePosition')).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+import { useSyncExternalStore } from 'react';
+import { DistanceMode, SavedLocation, SavedLocations } from './locations';
+
+// The saved locations, kept in localStorage. Separate from locations.ts so the
+// distance helpers stay usable in the query worker.
+
+const LOCATIONS_KEY = 'savedLocations';
+// Before named locations there was a single home position
+const LEGACY_HOME_KEY = 'homePosition';
+const EMPTY_LOCATIONS: SavedLocations = { locations: [], primaryId: null, distanceMode: 'primary' };
+let locationsListeners: Array<() => void> = [];
+
+// useSyncExternalStore needs the same object back until the stored value changes
+let cachedRaw: string | null = null;
+let cachedLocations: SavedLocations = EMPTY_LOCATIONS;
+let migrated = false;
+
+function createLocationId(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+// Turns an old homePosition into the first saved location, once
+function migrateHomePosition() {
+  migrated = true;
+  const legacy = localStorage.getItem(LEGACY_HOME_KEY);
+  if (!legacy) return;
+
+  if (!localStorage.getItem(LOCATIONS_KEY)) {
+    const { lat, lng } = JSON.parse(legacy) as { lat: number; lng: number };
+    const home: SavedLocation = {
+      id: createLocationId(),
+      name: 'Home',
+      icon: 'home',
+      lat,
+      lng,
+      address: null,
+      included: true,
+      weight: 1,
+    };
+    const saved: SavedLocations = { locations: [home], primaryId: home.id, distanceMode: 'primary' };
+    localStorage.setItem(LOCATIONS_KEY, JSON.stringify(saved));
+  }
+  localStorage.removeItem(LEGACY_HOME_KEY);
+}
+
+function subscribeToLocations(callback: () => void) {
+  locationsListeners.push(callback);
+  return () => {
+    locationsListeners = locationsListeners.filter(l => l !== callback);
+  };
+}
+
+function getLocationsSnapshot(): SavedLocations {
+  if (!migrated) migrateHomePosition();
+  const saved = localStorage.getItem(LOCATIONS_KEY);
+  if (saved !== cachedRaw) {
+    cachedRaw = saved;
+    cachedLocations = saved ? JSON.parse(saved) : EMPTY_LOCATIONS;
+  }
+  return cachedLocations;
+}
+
+function getLocationsServerSnapshot(): SavedLocations {
+  return EMPTY_LOCATIONS;
+}
+
+function setStoredLocations(saved: SavedLocations) {
+  if (saved.locations.length > 0) {
+    localStorage.setItem(LOCATIONS_KEY, JSON.stringify(saved));
+  } else {
+    localStorage.removeItem(LOCATIONS_KEY);
+  }
+  // Notify all subscribers
+  locationsListeners.forEach(l => l());
+}
+
+function addLocation(location: Omit<SavedLocation, 'id' | 'included' | 'weight'>): string {
+  const saved = getLocationsSnapshot();
+  const id = createLocationId();
+  setStoredLocations({
+    ...saved,
+    locations: [...saved.locations, { ...location, id, included: true, weight: 1 }],
+    // The first location becomes the primary one
+    primaryId: saved.primaryId ?? id,
+  });
+  return id;
+}
+
+function updateLocation(id: string, changes: Partial<Omit<SavedLocation, 'id'>>) {
+  const saved = getLocationsSnapshot();
+  setStoredLocations({
+    ...saved,
+    locations: saved.locations.map(l => (l.id === id ? { ...l, ...changes } : l)),
+  });
+}
+
+function removeLocation(id: string) {
+  const saved = getLocationsSnapshot();
+  const locations = saved.locations.filter(l => l.id !== id);
+  setStoredLocations({
+    ...saved,
+    locations,
+    primaryId: saved.primaryId === id ? locations[0]?.id ?? null : saved.primaryId,
+  });
+}
+
+function setPrimaryLocation(id: string) {
+  setStoredLocations({ ...getLocationsSnapshot(), primaryId: id });
+}
+
+function setDistanceMode(distanceMode: DistanceMode) {
+  setStoredLocations({ ...getLocationsSnapshot(), distanceMode });
+}
+
+export interface SavedLocationsActions {
+  add: (location: Omit<SavedLocation, 'id' | 'included' | 'weight'>) => string;
+  update: (id: string, changes: Partial<Omit<SavedLocation, 'id'>>) => void;
+  remove: (id: string) => void;
+  setPrimary: (id: string) => void;
+  setDistanceMode: (mode: DistanceMode) => void;
+}
+
+const savedLocationsActions: SavedLocationsActions = {
+  add: addLocation,
+  update: updateLocation,
+  remove: removeLocation,
+  setPrimary: setPrimaryLocation,
+  setDistanceMode,
+};
+
+export function useSavedLocations(): [SavedLocations, SavedLocationsActions] {
+  const saved = useSyncExternalStore(
+    subscribeToLocations,
+    getLocationsSnapshot,
+    getLocationsServerSnapshot
+  );
+  return [saved, savedLocationsActions];
+}
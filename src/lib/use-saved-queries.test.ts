@@ -0,0 +1,43 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useSavedQueries } from './use-saved-queries';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('useSavedQueries', () => {
+  it('saves queries, replacing one with the same name', () => {
+    const { result } = renderHook(() => useSavedQueries());
+    expect(result.current[0]).toEqual([]);
+
+    act(() => result.current[1].save('Nära', 'avstånd<2'));
+    act(() => result.current[1].save('Bra', 'merit>250'));
+    act(() => result.current[1].save('Nära', 'avstånd<1'));
+
+    expect(result.current[0]).toEqual([
+      { name: 'Bra', query: 'merit>250' },
+      { name: 'Nära', query: 'avstånd<1' },
+    ]);
+  });
+
+  it('clears the stored value when the last query is removed', () => {
+    const { result } = renderHook(() => useSavedQueries());
+
+    act(() => result.current[1].save('Nära', 'avstånd<2'));
+    act(() => result.current[1].remove('Nära'));
+
+    expect(result.current[0]).toEqual([]);
+    expect(localStorage.getItem('savedQueries')).toBeNull();
+  });
+
+  it('starts empty when the stored value is not a list of queries', () => {
+    localStorage.setItem('savedQueries', '[{"name": "Nära"');
+    const { result, rerender } = renderHook(() => useSavedQueries());
+    expect(result.current[0]).toEqual([]);
+
+    localStorage.setItem('savedQueries', '{}');
+    rerender();
+    expect(result.current[0]).toEqual([]);
+  });
+});
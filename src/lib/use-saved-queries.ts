@@ -0,0 +1,81 @@
+import { useSyncExternalStore } from 'react';
+import { SavedQuery } from './search-query';
+
+// Named queries, kept in localStorage like the shortlist
+
+const SAVED_QUERIES_KEY = 'savedQueries';
+const EMPTY_SAVED_QUERIES: SavedQuery[] = [];
+let savedQueriesListeners: Array<() => void> = [];
+
+// useSyncExternalStore needs the same object back until the stored value changes
+let cachedRaw: string | null = null;
+let cachedSavedQueries: SavedQuery[] = EMPTY_SAVED_QUERIES;
+
+function subscribeToSavedQueries(callback: () => void) {
+  savedQueriesListeners.push(callback);
+  return () => {
+    savedQueriesListeners = savedQueriesListeners.filter(l => l !== callback);
+  };
+}
+
+function parseStoredQueries(saved: string): SavedQuery[] {
+  try {
+    const queries = JSON.parse(saved);
+    return Array.isArray(queries) ? queries : EMPTY_SAVED_QUERIES;
+  } catch {
+    // A value that isn't JSON (edited by hand, or cut short) shouldn't break the panel
+    return EMPTY_SAVED_QUERIES;
+  }
+}
+
+function getSavedQueriesSnapshot(): SavedQuery[] {
+  const saved = localStorage.getItem(SAVED_QUERIES_KEY);
+  if (saved !== cachedRaw) {
+    cachedRaw = saved;
+    cachedSavedQueries = saved ? parseStoredQueries(saved) : EMPTY_SAVED_QUERIES;
+  }
+  return cachedSavedQueries;
+}
+
+function getSavedQueriesServerSnapshot(): SavedQuery[] {
+  return EMPTY_SAVED_QUERIES;
+}
+
+function setStoredSavedQueries(queries: SavedQuery[]) {
+  if (queries.length > 0) {
+    localStorage.setItem(SAVED_QUERIES_KEY, JSON.stringify(queries));
+  } else {
+    localStorage.removeItem(SAVED_QUERIES_KEY);
+  }
+  // Notify all subscribers
+  savedQueriesListeners.forEach(l => l());
+}
+
+// Saving under an existing name replaces that query
+function saveQuery(name: string, query: string) {
+  const queries = getSavedQueriesSnapshot().filter(q => q.name !== name);
+  setStoredSavedQueries([...queries, { name, query }]);
+}
+
+function removeSavedQuery(name: string) {
+  setStoredSavedQueries(getSavedQueriesSnapshot().filter(q => q.name !== name));
+}
+
+export interface SavedQueriesActions {
+  save: (name: string, query: string) => void;
+  remove: (name: string) => void;
+}
+
+const savedQueriesActions: SavedQueriesActions = {
+  save: saveQuery,
+  remove: removeSavedQuery,
+};
+
+export function useSavedQueries(): [SavedQuery[], SavedQueriesActions] {
+  const queries = useSyncExternalStore(
+    subscribeToSavedQueries,
+    getSavedQueriesSnapshot,
+    getSavedQueriesServerSnapshot
+  );
+  return [queries, savedQueriesActions];
+}
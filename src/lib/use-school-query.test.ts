@@ -0,0 +1,130 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSchool } from '@/test/fixtures';
+import { DEFAULT_FILTERS } from './filters';
+import { DEFAULT_SORT } from './sorting';
+import { SchoolQuery, SchoolQueryRequest, SchoolQueryResponse } from './school-query';
+import { GeoBounds } from './spatial-index';
+import { useSchoolQuery } from './use-school-query';
+
+// Stands in for the query worker; the test answers in its place
+class FakeWorker {
+  static latest: FakeWorker;
+  requests: SchoolQueryRequest[] = [];
+  private listeners: ((event: MessageEvent<SchoolQueryResponse>) => void)[] = [];
+
+  constructor() {
+    FakeWorker.latest = this;
+  }
+
+  postMessage(request: SchoolQueryRequest) {
+    this.requests.push(request);
+  }
+
+  addEventListener(_type: 'message', listener: (event: MessageEvent<SchoolQueryResponse>) => void) {
+    this.listeners.push(listener);
+  }
+
+  terminate() {}
+
+  respond(response: SchoolQueryResponse) {
+    act(() => this.listeners.forEach(listener => listener({ data: response } as MessageEvent<SchoolQueryResponse>)));
+  }
+
+  get lastQueryId(): number {
+    const queries = this.requests.filter(r => r.type === 'query');
+    return queries[queries.length - 1].queryId;
+  }
+}
+
+const schools = ['1', '2', '3', '4'].map(id => createSchool({ id, name: `Skola ${id}` }));
+const BOUNDS: GeoBounds = { south: 59, west: 18, north: 60, east: 19 };
+
+function createQuery(search = ''): SchoolQuery {
+  return {
+    filters: { ...DEFAULT_FILTERS, search },
+    shortlistedIds: {},
+    locations: { locations: [], primaryId: null, distanceMode: 'primary' },
+    isochrone: null,
+    sort: DEFAULT_SORT,
+    scores: null,
+  };
+}
+
+const ids = (list: { id: string }[]) => list.map(s => s.id);
+
+beforeEach(() => {
+  vi.stubGlobal('Worker', FakeWorker);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('useSchoolQuery', () => {
+  it('computes the first results itself and sends the dataset to the worker', () => {
+    const { result } = renderHook(() => useSchoolQuery(schools, createQuery(), null));
+
+    expect(result.current.schools).toHaveLength(4);
+    expect(result.current.listedSchools).toHaveLength(4);
+    expect(result.current.isComplete).toBe(true);
+    expect(FakeWorker.latest.requests.map(r => r.type)).toEqual(['init', 'query', 'bounds']);
+  });
+
+  it('streams a new query to the list but gives the map only complete results', () => {
+    const { result, rerender } = renderHook(({ query }) => useSchoolQuery(schools, query, null), {
+      initialProps: { query: createQuery() },
+    });
+    rerender({ query: createQuery('skola') });
+    const worker = FakeWorker.latest;
+    const queryId = worker.lastQueryId;
+
+    // Nothing from the previous query in the list while waiting
+    expect(result.current.listedSchools).toEqual([]);
+    expect(result.current.isListPending).toBe(true);
+    expect(result.current.schools).toHaveLength(4);
+
+    worker.respond({ type: 'results', queryId, ids: ['2', '3'], offset: 0, total: 3, done: false });
+    expect(ids(result.current.listedSchools)).toEqual(['2', '3']);
+    expect(result.current.schools).toHaveLength(4);
+    expect(result.current.isComplete).toBe(false);
+
+    worker.respond({ type: 'results', queryId, ids: ['4'], offset: 2, total: 3, done: true });
+    expect(ids(result.current.listedSchools)).toEqual(['2', '3', '4']);
+    expect(ids(result.current.schools)).toEqual(['2', '3', '4']);
+    expect(result.current.isComplete).toBe(true);
+  });
+
+  it('ignores answers to a query that has since changed', () => {
+    const { result, rerender } = renderHook(({ query }) => useSchoolQuery(schools, query, null), {
+      initialProps: { query: createQuery() },
+    });
+    rerender({ query: createQuery('a') });
+    const staleId = FakeWorker.latest.lastQueryId;
+    rerender({ query: createQuery('b') });
+
+    FakeWorker.latest.respond({ type: 'results', queryId: staleId, ids: ['1'], offset: 0, total: 1, done: true });
+
+    expect(result.current.schools).toHaveLength(4);
+    expect(result.current.listedSchools).toEqual([]);
+  });
+
+  it('lists the schools within the bounds, and starts over on a new query', () => {
+    const { result, rerender } = renderHook(({ query }) => useSchoolQuery(schools, query, BOUNDS), {
+      initialProps: { query: createQuery() },
+    });
+    const worker = FakeWorker.latest;
+    expect(result.current.isListPending).toBe(true);
+
+    worker.respond({ type: 'listed', queryId: worker.lastQueryId, ids: ['1', '4'] });
+    expect(ids(result.current.listedSchools)).toEqual(['1', '4']);
+    expect(result.current.isListPending).toBe(false);
+
+    rerender({ query: createQuery('skola') });
+    expect(result.current.listedSchools).toEqual([]);
+    expect(result.current.isListPending).toBe(true);
+
+    worker.respond({ type: 'listed', queryId: worker.lastQueryId, ids: ['4'] });
+    expect(ids(result.current.listedSchools)).toEqual(['4']);
+  });
+});
@@ -0,0 +1,90 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { School } from './types';
+import { GeoBounds } from './spatial-index';
+import { SchoolQuery, SchoolQueryRequest, SchoolQueryResponse, createSchoolQueryEngine } from './school-query';
+
+export interface SchoolQueryResult {
+  schools: School[]; // filtered and sorted; the previous results until the new ones are all in
+  listedSchools: School[]; // within the bounds, if any were given; grows while the results stream in
+  isListPending: boolean; // listedSchools is empty because the current query hasn't answered yet
+  total: number; // known from the first chunk
+  isComplete: boolean;
+}
+
+// Runs the query in a worker. The list is shown as the results arrive, but
+// the map only gets them once complete, so it doesn't drop to the first chunk
+// and refill. The first render is computed here so the map isn't empty while
+// the worker starts.
+export function useSchoolQuery(schools: School[], query: SchoolQuery, bounds: GeoBounds | null): SchoolQueryResult {
+  const schoolsById = useMemo(() => new Map(schools.map(s => [s.id, s])), [schools]);
+  const workerRef = useRef<Worker | null>(null);
+  const latestQueryRef = useRef(0);
+
+  const [results, setResults] = useState(() => {
+    const initial = createSchoolQueryEngine(schools).run(query);
+    return { schools: initial, streamed: initial, total: initial.length, isComplete: true };
+  });
+  const [listed, setListed] = useState<School[] | null>(null);
+
+  // A new query starts the list over rather than showing the previous one's
+  // schools until the worker answers
+  const [listedQuery, setListedQuery] = useState(query);
+  if (listedQuery !== query) {
+    setListedQuery(query);
+    setListed(null);
+    setResults(current => ({ ...current, streamed: [], isComplete: false }));
+  }
+
+  useEffect(() => {
+    const worker = new Worker(new URL('./school-query.worker.ts', import.meta.url));
+    workerRef.current = worker;
+
+    const toSchools = (ids: string[]) => ids.map(id => schoolsById.get(id)!);
+    worker.addEventListener('message', (event: MessageEvent<SchoolQueryResponse>) => {
+      const response = event.data;
+      // Leftovers from a query that has since changed
+      if (response.queryId !== latestQueryRef.current) return;
+
+      if (response.type === 'listed') {
+        setListed(toSchools(response.ids));
+        return;
+      }
+      const chunk = toSchools(response.ids);
+      setResults(current => {
+        const streamed = response.offset === 0 ? chunk : [...current.streamed, ...chunk];
+        return {
+          schools: response.done ? streamed : current.schools,
+          streamed,
+          total: response.total,
+          isComplete: response.done,
+        };
+      });
+    });
+
+    const init: SchoolQueryRequest = { type: 'init', schools };
+    worker.postMessage(init);
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [schools, schoolsById]);
+
+  useEffect(() => {
+    latestQueryRef.current += 1;
+    const request: SchoolQueryRequest = { type: 'query', queryId: latestQueryRef.current, query };
+    workerRef.current?.postMessage(request);
+  }, [schools, query]);
+
+  useEffect(() => {
+    const request: SchoolQueryRequest = { type: 'bounds', bounds };
+    workerRef.current?.postMessage(request);
+  }, [schools, bounds]);
+
+  return {
+    schools: results.schools,
+    listedSchools: (bounds ? listed : results.streamed) ?? [],
+    isListPending: bounds ? listed === null : results.streamed.length === 0 && !results.isComplete,
+    total: results.total,
+    isComplete: results.isComplete,
+  };
+}
@@ -0,0 +1,36 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_SCORE_WEIGHTS } from './score';
+import { useScoreWeights } from './use-score-weights';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('useScoreWeights', () => {
+  it('starts with the default weights and stores changes', () => {
+    const { result } = renderHook(() => useScoreWeights());
+    expect(result.current[0]).toBe(DEFAULT_SCORE_WEIGHTS);
+
+    act(() => result.current[1]({ ...DEFAULT_SCORE_WEIGHTS, distance: 5 }));
+
+    expect(result.current[0].distance).toBe(5);
+    expect(JSON.parse(localStorage.getItem('scoreWeights')!).distance).toBe(5);
+  });
+
+  it('gives factors missing from the stored weights their default weight', () => {
+    localStorage.setItem('scoreWeights', JSON.stringify({ performance: 4 }));
+
+    const { result } = renderHook(() => useScoreWeights());
+
+    expect(result.current[0]).toEqual({ ...DEFAULT_SCORE_WEIGHTS, performance: 4 });
+  });
+
+  it('falls back to the default weights when the stored value is not JSON', () => {
+    localStorage.setItem('scoreWeights', '{"performance": 4');
+
+    const { result } = renderHook(() => useScoreWeights());
+
+    expect(result.current[0]).toBe(DEFAULT_SCORE_WEIGHTS);
+  });
+});
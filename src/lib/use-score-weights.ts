@@ -0,0 +1,56 @@
+import { useSyncExternalStore } from 'react';
+import { DEFAULT_SCORE_WEIGHTS, ScoreWeights } from './score';
+
+// The user's score weights, kept in localStorage
+
+const SCORE_WEIGHTS_KEY = 'scoreWeights';
+let weightsListeners: Array<() => void> = [];
+
+// useSyncExternalStore needs the same object back until the stored value changes
+let cachedRaw: string | null = null;
+let cachedWeights: ScoreWeights = DEFAULT_SCORE_WEIGHTS;
+
+function subscribeToWeights(callback: () => void) {
+  weightsListeners.push(callback);
+  return () => {
+    weightsListeners = weightsListeners.filter(l => l !== callback);
+  };
+}
+
+function parseStoredWeights(saved: string): ScoreWeights {
+  try {
+    // Merge so factors added later get their default weight
+    return { ...DEFAULT_SCORE_WEIGHTS, ...JSON.parse(saved) };
+  } catch {
+    // A value that isn't JSON (edited by hand, or cut short) shouldn't break the map
+    return DEFAULT_SCORE_WEIGHTS;
+  }
+}
+
+function getWeightsSnapshot(): ScoreWeights {
+  const saved = localStorage.getItem(SCORE_WEIGHTS_KEY);
+  if (saved !== cachedRaw) {
+    cachedRaw = saved;
+    cachedWeights = saved ? parseStoredWeights(saved) : DEFAULT_SCORE_WEIGHTS;
+  }
+  return cachedWeights;
+}
+
+function getWeightsServerSnapshot(): ScoreWeights {
+  return DEFAULT_SCORE_WEIGHTS;
+}
+
+function setStoredWeights(weights: ScoreWeights) {
+  localStorage.setItem(SCORE_WEIGHTS_KEY, JSON.stringify(weights));
+  // Notify all subscribers
+  weightsListeners.forEach(l => l());
+}
+
+export function useScoreWeights(): [ScoreWeights, (weights: ScoreWeights) => void] {
+  const weights = useSyncExternalStore(
+    subscribeToWeights,
+    getWeightsSnapshot,
+    getWeightsServerSnapshot
+  );
+  return [weights, setStoredWeights];
+}
@@ -0,0 +1,62 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Shortlist } from './shortlist';
+import { useShortlist, useShortlistStatuses } from './use-shortlist';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('useShortlist', () => {
+  it('adds a school as considered and removes it again', () => {
+    const { result } = renderHook(() => useShortlist());
+
+    act(() => result.current[1].toggle('1'));
+    expect(result.current[0]['1']).toMatchObject({ schoolId: '1', status: 'considering', notes: '', visitDate: null });
+    expect(JSON.parse(localStorage.getItem('schoolShortlist')!)).toHaveProperty('1');
+
+    act(() => result.current[1].toggle('1'));
+    expect(result.current[0]).toEqual({});
+    expect(localStorage.getItem('schoolShortlist')).toBeNull();
+  });
+
+  it('updates an entry and ignores schools not on the shortlist', () => {
+    const { result } = renderHook(() => useShortlist());
+    act(() => result.current[1].toggle('1'));
+
+    act(() => result.current[1].update('1', { status: 'visited', visitDate: '2026-03-01' }));
+    act(() => result.current[1].update('2', { status: 'visited' }));
+
+    expect(result.current[0]['1']).toMatchObject({ status: 'visited', visitDate: '2026-03-01' });
+    expect(result.current[0]['2']).toBeUndefined();
+  });
+
+  it('shares the shortlist between components', () => {
+    const first = renderHook(() => useShortlist());
+    const second = renderHook(() => useShortlist());
+
+    act(() => first.result.current[1].toggle('1'));
+
+    expect(second.result.current[0]).toBe(first.result.current[0]);
+  });
+});
+
+describe('useShortlistStatuses', () => {
+  const entry = { notes: '', visitDate: null, addedAt: '2026-01-01T00:00:00Z' };
+
+  it('maps each school to its status and keeps the object while only notes change', () => {
+    const shortlist: Shortlist = {
+      '1': { ...entry, schoolId: '1', status: 'considering' },
+      '2': { ...entry, schoolId: '2', status: 'rejected' },
+    };
+    const { result, rerender } = renderHook(({ list }) => useShortlistStatuses(list), { initialProps: { list: shortlist } });
+    const statuses = result.current;
+    expect(statuses).toEqual({ '1': 'considering', '2': 'rejected' });
+
+    rerender({ list: { ...shortlist, '1': { ...shortlist['1'], notes: 'Fin gård' } } });
+    expect(result.current).toBe(statuses);
+
+    rerender({ list: { ...shortlist, '1': { ...shortlist['1'], status: 'visited' } } });
+    expect(result.current).toEqual({ '1': 'visited', '2': 'rejected' });
+  });
+});
@@ -0,0 +1,99 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { Shortlist, ShortlistEntry, ShortlistStatus } from './shortlist';
+
+// The shortlist, kept in localStorage next to the saved locations
+
+const SHORTLIST_KEY = 'schoolShortlist';
+const EMPTY_SHORTLIST: Shortlist = {};
+let shortlistListeners: Array<() => void> = [];
+
+// useSyncExternalStore needs the same object back until the stored value changes
+let cachedRaw: string | null = null;
+let cachedShortlist: Shortlist = EMPTY_SHORTLIST;
+
+function subscribeToShortlist(callback: () => void) {
+  shortlistListeners.push(callback);
+  return () => {
+    shortlistListeners = shortlistListeners.filter(l => l !== callback);
+  };
+}
+
+function getShortlistSnapshot(): Shortlist {
+  const saved = localStorage.getItem(SHORTLIST_KEY);
+  if (saved !== cachedRaw) {
+    cachedRaw = saved;
+    cachedShortlist = saved ? JSON.parse(saved) : EMPTY_SHORTLIST;
+  }
+  return cachedShortlist;
+}
+
+function getShortlistServerSnapshot(): Shortlist {
+  return EMPTY_SHORTLIST;
+}
+
+function setStoredShortlist(shortlist: Shortlist) {
+  if (Object.keys(shortlist).length > 0) {
+    localStorage.setItem(SHORTLIST_KEY, JSON.stringify(shortlist));
+  } else {
+    localStorage.removeItem(SHORTLIST_KEY);
+  }
+  // Notify all subscribers
+  shortlistListeners.forEach(l => l());
+}
+
+function toggleShortlisted(schoolId: string) {
+  const { [schoolId]: existing, ...rest } = getShortlistSnapshot();
+  if (existing) {
+    setStoredShortlist(rest);
+  } else {
+    setStoredShortlist({
+      ...rest,
+      [schoolId]: {
+        schoolId,
+        status: 'considering',
+        notes: '',
+        visitDate: null,
+        addedAt: new Date().toISOString(),
+      },
+    });
+  }
+}
+
+function updateShortlistEntry(schoolId: string, changes: Partial<Omit<ShortlistEntry, 'schoolId'>>) {
+  const shortlist = getShortlistSnapshot();
+  if (!shortlist[schoolId]) return;
+  setStoredShortlist({ ...shortlist, [schoolId]: { ...shortlist[schoolId], ...changes } });
+}
+
+export interface ShortlistActions {
+  toggle: (schoolId: string) => void;
+  update: (schoolId: string, changes: Partial<Omit<ShortlistEntry, 'schoolId'>>) => void;
+}
+
+const shortlistActions: ShortlistActions = {
+  toggle: toggleShortlisted,
+  update: updateShortlistEntry,
+};
+
+export function useShortlist(): [Shortlist, ShortlistActions] {
+  const shortlist = useSyncExternalStore(
+    subscribeToShortlist,
+    getShortlistSnapshot,
+    getShortlistServerSnapshot
+  );
+  return [shortlist, shortlistActions];
+}
+
+// Status per school id. Stays the same object while only notes or visit dates
+// change, so the map layers don't redraw on every keystroke.
+export function useShortlistStatuses(shortlist: Shortlist): Record<string, ShortlistStatus> {
+  const key = Object.values(shortlist)
+    .map(entry => `${entry.schoolId}:${entry.status}`)
+    .sort()
+    .join(',');
+
+  return useMemo(
+    () => Object.fromEntries(key ? key.split(',').map(pair => pair.split(':')) : []),
+    [key]
+  );
+}
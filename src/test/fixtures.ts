@@ -0,0 +1,41 @@
+import { School, SchoolStatistics } from '@/lib/types';
+
+type SchoolOverrides = Partial<Omit<School, 'statistics'>> & { statistics?: Partial<SchoolStatistics> };
+
+// A school without any statistics, with whatever a test needs filled in
+export function createSchool(overrides: SchoolOverrides = {}): School {
+  const { statistics, ...rest } = overrides;
+  return {
+    id: '10000001',
+    name: 'Testskolan',
+    coordinates: [59.3293, 18.0686],
+    municipality: 'Stockholm',
+    municipalityCode: '0180',
+    county: 'Stockholms län',
+    postalCity: 'Stockholm',
+    ownership: 'municipal',
+    category: 'F-9',
+    schoolTypes: ['Grundskolan'],
+    grades: ['1', '2', '3', '4', '5', '6', '7', '8', '9'],
+    address: { street: 'Skolgatan 1', postalCode: '111 22', city: 'Stockholm' },
+    ...rest,
+    statistics: {
+      meritValue: null,
+      passRateGrade9: null,
+      passRateGrade6: null,
+      avgTestSwedish6: null,
+      avgTestEnglish6: null,
+      avgTestMath6: null,
+      universityEligibilityRate: null,
+      gradePoints: null,
+      graduationRate: null,
+      programs: [],
+      programPupils: null,
+      studentsPerTeacher: null,
+      certifiedTeachersRatio: null,
+      totalPupils: null,
+      history: {},
+      ...statistics,
+    },
+  };
+}
@@ -4,6 +4,8 @@ import path from 'path'
 
 export default defineConfig({
   plugins: [react()],
+  // Tests don't load styles; skips postcss.config.mjs, which is written for Next.js
+  css: { postcss: {} },
   test: {
     environment: 'jsdom',
     globals: true,